@@ -0,0 +1,130 @@
+// Service worker: caches the app shell and the sample gallery so the app opens offline.
+// Repair requests are never cached here, the page keeps them in its own outbox.
+
+const SHELL_CACHE = 'picture-repair-shell-v1';
+const SAMPLES_CACHE = 'picture-repair-samples-v1';
+const CACHES = [SHELL_CACHE, SAMPLES_CACHE];
+
+const SHELL_FILES = [
+  '/',
+  '/logo.svg',
+  '/avatar.svg',
+  '/manifest.webmanifest',
+  '/icon-192.png',
+  '/icon-512.png',
+  '/icon-maskable-512.png'
+];
+
+const SAMPLE_FILES = [1, 2, 3].flatMap((n) => [
+  `/samples/sample${n}_before.jpg`,
+  `/samples/sample${n}_after.jpg`
+]);
+
+// Helper function to find the hashed bundles (/assets/...) an index.html refers to
+function shellAssets(html) {
+  return [...new Set(html.match(/\/assets\/[^"'\s)]+/g) || [])];
+}
+
+// Helper function to cache a fresh index.html together with its bundles and
+// drop the bundles of previous builds
+async function cacheShell(response) {
+  const cache = await caches.open(SHELL_CACHE);
+  const html = await response.clone().text();
+  const assets = shellAssets(html);
+  await cache.addAll(assets);
+  await cache.put('/', response);
+
+  const keep = new Set(assets.map((asset) => new URL(asset, self.location.origin).href));
+  for (const request of await cache.keys()) {
+    if (new URL(request.url).pathname.startsWith('/assets/') && !keep.has(request.url)) {
+      await cache.delete(request);
+    }
+  }
+}
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    const shell = await caches.open(SHELL_CACHE);
+    await shell.addAll(SHELL_FILES);
+    const index = await shell.match('/');
+    if (index) {
+      await cacheShell(index);
+    }
+    await (await caches.open(SAMPLES_CACHE)).addAll(SAMPLE_FILES);
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    for (const name of await caches.keys()) {
+      if (name.startsWith('picture-repair-') && !CACHES.includes(name)) {
+        await caches.delete(name);
+      }
+    }
+    await self.clients.claim();
+  })());
+});
+
+// Helper function for pages: try the network so a new deploy shows up right
+// away, fall back to the cached shell when offline
+async function handleNavigation(request) {
+  try {
+    const response = await fetch(request);
+    if (response.ok && (response.headers.get('content-type') || '').includes('text/html')) {
+      cacheShell(response.clone()).catch((error) => console.warn('Caching the app shell failed:', error));
+    }
+    return response;
+  } catch (error) {
+    const cached = await caches.match('/');
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+// Helper function for hashed bundles and sample photos, which never change under the same URL
+async function cacheFirst(request, cacheName) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(cacheName);
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  // API calls, repaired images and shared pages always go to the server
+  if (url.pathname.startsWith('/api/') || url.pathname.startsWith('/s/')) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(request));
+  } else if (url.pathname.startsWith('/assets/')) {
+    event.respondWith(cacheFirst(request, SHELL_CACHE));
+  } else if (url.pathname.startsWith('/samples/')) {
+    event.respondWith(cacheFirst(request, SAMPLES_CACHE));
+  } else if (SHELL_FILES.includes(url.pathname)) {
+    event.respondWith(cacheFirst(request, SHELL_CACHE));
+  }
+});
+
+// Tapping a "repair finished" notification focuses the app
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    if (windows.length > 0) {
+      await windows[0].focus();
+    } else {
+      await self.clients.openWindow('/');
+    }
+  })());
+});
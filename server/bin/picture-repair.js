@@ -0,0 +1,420 @@
+#!/usr/bin/env node
+
+import fs from 'fs/promises';
+import path from 'path';
+import { parseArgs } from 'util';
+import { fileURLToPath } from 'url';
+import sharp from 'sharp';
+import dotenv from 'dotenv';
+import { createRestorationProvider } from '../lib/providers/index.js';
+import { OUTPUT_FORMATS, resolveOutputOptions } from '../lib/output-formats.js';
+import { DEFAULT_MODE, describeRestorationModes, resolveRestorationMode } from '../lib/restoration-modes.js';
+import {
+  analyzeImage,
+  checkQuality,
+  renderRestoration,
+  repairSettingsFromEnv,
+  validateImage
+} from '../lib/repair-pipeline.js';
+
+// picture-repair: restores every image in a directory tree without a browser or the server,
+// with the same AI analysis, sharp pipeline and quality gate as POST /api/repair-image.
+// Results and their JSON analysis sidecars are written to an output tree that mirrors the
+// input. An image whose sidecar and result already exist is skipped, so an interrupted
+// overnight run is resumed by starting it again.
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+// The server's .env configures the provider, models, limits and quality gate
+dotenv.config({ path: path.join(__dirname, '..', '.env') });
+
+const USAGE = `Usage: picture-repair <input-dir> <output-dir> [options]
+
+Restores every image below <input-dir> and writes the results, each with a JSON
+analysis sidecar, to the same relative paths below <output-dir>.
+
+Options:
+  -m, --mode <id>          Restoration mode (default: ${DEFAULT_MODE}); see --list-modes
+  -p, --param <name=value> Mode parameter, e.g. --param strength=0.8 (repeatable)
+  -f, --format <id>        Output format: ${Object.keys(OUTPUT_FORMATS).join(', ')} (default: jpeg)
+  -q, --quality <n>        Output quality for lossy formats
+      --keep-metadata      Keep the original color profile and capture date
+      --model <id>         AI model tried first; the other configured models remain fallbacks
+  -c, --concurrency <n>    Images restored at the same time (default: 2)
+      --force              Restore images again even if their result already exists
+      --report <file>      Where to write the JSON summary (default: <output-dir>/picture-repair-report.json)
+      --list-modes         List the restoration modes and their parameters
+  -h, --help               Show this help
+
+The provider, models, image limits and quality gate are configured like the server,
+through server/.env or environment variables.`;
+
+const IMAGE_EXTENSIONS = new Set(['.jpg', '.jpeg', '.png', '.webp', '.tif', '.tiff', '.gif', '.heic', '.heif']);
+const MAX_CONCURRENCY = 16;
+const REPORT_FILENAME = 'picture-repair-report.json';
+
+// Helper function to exit with a usage error
+function usageError(message) {
+  console.error(`❌ ${message}\nRun picture-repair --help for usage.`);
+  process.exit(2);
+}
+
+// Helper function to turn repeated `--param name=value` options into a parameters object
+function parseParameters(values = []) {
+  const parameters = {};
+  for (const value of values) {
+    const [name, raw] = value.split('=');
+    if (!name || raw === undefined) {
+      usageError(`Invalid --param "${value}", expected name=value`);
+    }
+    parameters[name.trim()] = raw.trim();
+  }
+  return parameters;
+}
+
+// Helper function to collect the images below a directory in a stable order.
+// Hidden directories and the output directory (when it lies inside the input) are left out.
+async function findImages(dir, skipDir) {
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  const images = [];
+
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (!entry.name.startsWith('.') && entryPath !== skipDir) {
+        images.push(...await findImages(entryPath, skipDir));
+      }
+    } else if (entry.isFile() && IMAGE_EXTENSIONS.has(path.extname(entry.name).toLowerCase())) {
+      images.push(entryPath);
+    }
+  }
+
+  return images;
+}
+
+// Helper function to map each image to its result and sidecar below the output directory.
+// photo.tif and photo.jpg in one folder would both become photo.jpg; the second one is
+// reported as a failure instead of overwriting the first.
+function planTasks(images, inputDir, outputDir, output) {
+  const taken = new Map();
+
+  return images.map((source) => {
+    const relative = path.relative(inputDir, source);
+    const stem = path.join(outputDir, path.dirname(relative), path.parse(relative).name);
+    const task = {
+      source,
+      relative,
+      outputPath: `${stem}${OUTPUT_FORMATS[output.format].extension}`,
+      sidecarPath: `${stem}.json`,
+      clash: taken.get(stem) || null
+    };
+    if (!task.clash) {
+      taken.set(stem, relative);
+    }
+    return task;
+  });
+}
+
+const exists = (filePath) => fs.access(filePath).then(() => true, () => false);
+
+// Helper function to tell whether an earlier run already restored this image
+async function isDone(task) {
+  try {
+    const sidecar = JSON.parse(await fs.readFile(task.sidecarPath, 'utf8'));
+    return await exists(path.join(path.dirname(task.sidecarPath), sidecar.restoredFile));
+  } catch {
+    return false;
+  }
+}
+
+// Helper function to read the capture date from the image's EXIF data (EXIF format, e.g.
+// "1968:05:04 10:11:12"); the browser app reads it before upload, here the file is at hand
+async function readCaptureDate(imagePath) {
+  try {
+    const { exif } = await sharp(imagePath).metadata();
+    return exif?.toString('latin1').match(/\d{4}:\d{2}:\d{2} \d{2}:\d{2}:\d{2}/)?.[0] || null;
+  } catch {
+    return null;
+  }
+}
+
+// Helper function to write a file under a temporary name first, so an interrupted run never
+// leaves a half-written sidecar that marks the image as done
+async function writeFileAtomic(filePath, contents) {
+  const tmpPath = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(tmpPath, contents);
+  await fs.rename(tmpPath, filePath);
+}
+
+// Runs one image through the repair pipeline and writes its result and sidecar
+async function restoreImage(task, { provider, mode, model, output, limits, qualityGate }) {
+  if (task.clash) {
+    const error = new Error(`Its result would overwrite the result of ${task.clash}`);
+    error.code = 'NAME_CLASH';
+    throw error;
+  }
+
+  await validateImage(task.source, { limits });
+  const { attempts, ...analysis } = await analyzeImage(provider, task.source, { prompt: mode.prompt, model });
+
+  await fs.mkdir(path.dirname(task.outputPath), { recursive: true });
+  const captureDate = output.keepMetadata ? await readCaptureDate(task.source) : null;
+  const restoration = await renderRestoration(task.source, analysis, {
+    mode,
+    output: { ...output, captureDate },
+    outputPath: task.outputPath
+  });
+  const metrics = await checkQuality(task.source, task.outputPath, { ...qualityGate, mode });
+
+  const sidecar = {
+    source: task.relative,
+    restoredFile: path.basename(task.outputPath),
+    ...restoration,
+    requestedModel: model,
+    modelAttempts: attempts,
+    usage: analysis.usage ?? null,
+    metrics,
+    restoredAt: new Date().toISOString()
+  };
+  await writeFileAtomic(task.sidecarPath, `${JSON.stringify(sidecar, null, 2)}\n`);
+  return sidecar;
+}
+
+const formatDuration = (ms) => {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+// Progress on stderr: a redrawn bar on a terminal, one line per image when the output is
+// redirected to a log file
+function createProgress(total, stream = process.stderr) {
+  const startedAt = Date.now();
+  const counts = { restored: 0, skipped: 0, failed: 0 };
+  const interactive = Boolean(stream.isTTY);
+  const width = 30;
+
+  const finished = () => counts.restored + counts.skipped + counts.failed;
+
+  function bar() {
+    const done = finished();
+    const filled = total ? Math.round((done / total) * width) : width;
+    // Skipped images take no time, so only restored and failed ones predict the rest
+    const worked = counts.restored + counts.failed;
+    const eta = worked > 0 && done < total
+      ? ` · ETA ${formatDuration(((Date.now() - startedAt) / worked) * (total - done))}`
+      : '';
+    return `[${'█'.repeat(filled)}${'░'.repeat(width - filled)}] ${done}/${total} ` +
+      `· ${counts.restored} restored · ${counts.skipped} skipped · ${counts.failed} failed${eta}`;
+  }
+
+  const draw = () => interactive && stream.write(`\r\x1b[K${bar()}`);
+
+  return {
+    counts,
+    startedAt,
+
+    // Prints a line above the bar
+    log(line) {
+      stream.write(interactive ? `\r\x1b[K${line}\n` : `${line}\n`);
+      draw();
+    },
+
+    record(outcome, line) {
+      counts[outcome]++;
+      if (!interactive) {
+        stream.write(`[${finished()}/${total}] ${line}\n`);
+      } else if (outcome === 'failed') {
+        this.log(line);
+      } else {
+        draw();
+      }
+    },
+
+    start: draw,
+
+    finish() {
+      if (interactive) stream.write(`\r\x1b[K${bar()}\n`);
+    }
+  };
+}
+
+async function main() {
+  let args;
+  try {
+    args = parseArgs({
+      allowPositionals: true,
+      options: {
+        mode: { type: 'string', short: 'm', default: DEFAULT_MODE },
+        param: { type: 'string', short: 'p', multiple: true },
+        format: { type: 'string', short: 'f' },
+        quality: { type: 'string', short: 'q' },
+        'keep-metadata': { type: 'boolean', default: false },
+        model: { type: 'string' },
+        concurrency: { type: 'string', short: 'c', default: '2' },
+        force: { type: 'boolean', default: false },
+        report: { type: 'string' },
+        'list-modes': { type: 'boolean', default: false },
+        help: { type: 'boolean', short: 'h', default: false }
+      }
+    });
+  } catch (error) {
+    usageError(error.message);
+  }
+  const { values: options, positionals } = args;
+
+  if (options.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  if (options['list-modes']) {
+    for (const mode of describeRestorationModes()) {
+      console.log(`${mode.id.padEnd(12)} ${mode.label} - ${mode.description}`);
+      for (const [name, spec] of Object.entries(mode.parameters)) {
+        console.log(`${''.padEnd(14)}--param ${name}=<${spec.min}..${spec.max}> (default ${spec.default})`);
+      }
+    }
+    return 0;
+  }
+
+  if (positionals.length !== 2) {
+    usageError('Expected an input and an output directory');
+  }
+  const inputDir = path.resolve(positionals[0]);
+  const outputDir = path.resolve(positionals[1]);
+  if (inputDir === outputDir) {
+    usageError('The output directory must differ from the input directory');
+  }
+  if (!(await fs.stat(inputDir).catch(() => null))?.isDirectory()) {
+    usageError(`${positionals[0]} is not a directory`);
+  }
+
+  const concurrency = Number(options.concurrency);
+  if (!Number.isInteger(concurrency) || concurrency < 1 || concurrency > MAX_CONCURRENCY) {
+    usageError(`--concurrency must be a whole number from 1 to ${MAX_CONCURRENCY}`);
+  }
+
+  let mode;
+  let output;
+  try {
+    mode = resolveRestorationMode(options.mode, parseParameters(options.param));
+    output = resolveOutputOptions({
+      format: options.format,
+      quality: options.quality,
+      keepMetadata: options['keep-metadata']
+    });
+  } catch (error) {
+    usageError(error.message);
+  }
+  if (output.format !== output.requestedFormat) {
+    console.warn(`⚠️  This sharp build can not write ${output.requestedFormat}, writing ${output.format} instead`);
+  }
+
+  const provider = createRestorationProvider();
+  const model = options.model || null;
+  if (model && !provider.hasModel(model)) {
+    usageError(`Unknown model "${model}". Configured models: ${provider.listModels().map((entry) => entry.id).join(', ')}`);
+  }
+
+  // Files on disk aren't uploads, so only the pixel limits apply
+  const { imageLimits, qualityGate } = repairSettingsFromEnv();
+  const limits = { ...imageLimits, maxBytes: Infinity };
+
+  const images = await findImages(inputDir, outputDir);
+  const tasks = planTasks(images, inputDir, outputDir, output);
+  console.log(`🖼️  ${tasks.length} image(s) in ${positionals[0]} → ${positionals[1]}`);
+  console.log(`🎛️  Mode ${mode.id} ${JSON.stringify(mode.parameters)} · ${output.format.toUpperCase()} · ${provider.name} (${model || provider.model})`);
+
+  const progress = createProgress(tasks.length);
+  const restored = [];
+  const failures = [];
+  const usage = { totalTokens: 0, cost: 0 };
+
+  // The first Ctrl+C lets the running restorations finish and still writes the report
+  let stopping = false;
+  process.once('SIGINT', () => {
+    stopping = true;
+    progress.log('⏸️  Stopping after the running restorations, press Ctrl+C again to quit now');
+    process.once('SIGINT', () => process.exit(130));
+  });
+
+  const run = async (task) => {
+    if (!options.force && !task.clash && await isDone(task)) {
+      progress.record('skipped', `⏭️  ${task.relative} (already restored)`);
+      return;
+    }
+
+    try {
+      const sidecar = await restoreImage(task, { provider, mode, model, output, limits, qualityGate });
+      usage.totalTokens += sidecar.usage?.totalTokens || 0;
+      usage.cost += sidecar.usage?.cost || 0;
+      restored.push({
+        file: task.relative,
+        restoredFile: path.relative(outputDir, task.outputPath),
+        model: sidecar.model,
+        score: sidecar.metrics.score
+      });
+      progress.record('restored', `✅ ${task.relative} (score ${sidecar.metrics.score.before} → ${sidecar.metrics.score.after})`);
+    } catch (error) {
+      failures.push({ file: task.relative, code: error.code || null, message: error.message });
+      progress.record('failed', `❌ ${task.relative}: ${error.message}`);
+    }
+  };
+
+  progress.start();
+  let next = 0;
+  await Promise.all(Array.from({ length: Math.min(concurrency, tasks.length) }, async () => {
+    while (!stopping && next < tasks.length) {
+      await run(tasks[next++]);
+    }
+  }));
+  progress.finish();
+
+  const finishedAt = Date.now();
+  const { counts } = progress;
+  const report = {
+    input: inputDir,
+    output: outputDir,
+    mode: { id: mode.id, parameters: mode.parameters },
+    format: output.format,
+    model,
+    provider: provider.name,
+    startedAt: new Date(progress.startedAt).toISOString(),
+    finishedAt: new Date(finishedAt).toISOString(),
+    durationMs: finishedAt - progress.startedAt,
+    interrupted: stopping,
+    counts: { total: tasks.length, ...counts, remaining: tasks.length - counts.restored - counts.skipped - counts.failed },
+    usage: { totalTokens: usage.totalTokens, cost: Number(usage.cost.toFixed(6)) },
+    failures,
+    restored
+  };
+
+  const reportPath = path.resolve(options.report || path.join(outputDir, REPORT_FILENAME));
+  await fs.mkdir(path.dirname(reportPath), { recursive: true });
+  await writeFileAtomic(reportPath, `${JSON.stringify(report, null, 2)}\n`);
+
+  console.log(`\n📋 ${counts.restored} restored, ${counts.skipped} skipped, ${counts.failed} failed` +
+    `${report.counts.remaining ? `, ${report.counts.remaining} not started` : ''} in ${formatDuration(report.durationMs)}`);
+  if (usage.totalTokens > 0) {
+    console.log(`💰 ${usage.totalTokens} tokens, $${usage.cost.toFixed(4)}`);
+  }
+  if (failures.length > 0) {
+    console.log('\nFailures:');
+    for (const failure of failures) {
+      console.log(`  ${failure.file}${failure.code ? ` [${failure.code}]` : ''}: ${failure.message}`);
+    }
+  }
+  console.log(`\n📄 Report: ${reportPath}`);
+
+  return failures.length > 0 || stopping ? 1 : 0;
+}
+
+main()
+  .then((code) => process.exit(code))
+  .catch((error) => {
+    console.error('❌', error);
+    process.exit(1);
+  });
@@ -0,0 +1,271 @@
+import crypto from 'crypto';
+import Database from 'better-sqlite3';
+
+// Accounts, API keys and credit balances in an embedded SQLite database.
+// Credits belong to the account and are shared by all of its keys; usage is recorded per key.
+// Only a SHA-256 hash of each API key is stored, the key itself is shown once when created.
+
+const API_KEY_PREFIX = 'prk_';
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS accounts (
+    id TEXT PRIMARY KEY,
+    email TEXT NOT NULL UNIQUE,
+    name TEXT,
+    credits INTEGER NOT NULL DEFAULT 0 CHECK (credits >= 0),
+    created_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS api_keys (
+    id TEXT PRIMARY KEY,
+    account_id TEXT NOT NULL REFERENCES accounts(id),
+    key_hash TEXT NOT NULL UNIQUE,
+    prefix TEXT NOT NULL,
+    label TEXT,
+    created_at TEXT NOT NULL,
+    last_used_at TEXT,
+    revoked_at TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS usage (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    account_id TEXT NOT NULL REFERENCES accounts(id),
+    api_key_id TEXT NOT NULL REFERENCES api_keys(id),
+    job_id TEXT,
+    status TEXT NOT NULL,
+    credits INTEGER NOT NULL,
+    cached INTEGER NOT NULL DEFAULT 0,
+    provider TEXT,
+    model TEXT,
+    prompt_tokens INTEGER NOT NULL DEFAULT 0,
+    completion_tokens INTEGER NOT NULL DEFAULT 0,
+    total_tokens INTEGER NOT NULL DEFAULT 0,
+    cost REAL NOT NULL DEFAULT 0,
+    created_at TEXT NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS usage_account_created ON usage (account_id, created_at);
+`;
+
+// Helper function to hash an API key for storage and lookup
+const hashApiKey = (key) => crypto.createHash('sha256').update(key).digest('hex');
+
+const toAccount = (row) => row && {
+  id: row.id,
+  email: row.email,
+  name: row.name,
+  credits: row.credits,
+  createdAt: row.created_at
+};
+
+const toApiKey = (row) => ({
+  id: row.id,
+  prefix: row.prefix,
+  label: row.label,
+  createdAt: row.created_at,
+  lastUsedAt: row.last_used_at,
+  revokedAt: row.revoked_at
+});
+
+const toTotals = (row) => ({
+  jobs: row.jobs,
+  restorations: row.restorations ?? 0,
+  credits: row.credits ?? 0,
+  promptTokens: row.prompt_tokens ?? 0,
+  completionTokens: row.completion_tokens ?? 0,
+  totalTokens: row.total_tokens ?? 0,
+  cost: row.cost ?? 0
+});
+
+// Failed jobs can still have used tokens (e.g. a result refused by the quality gate),
+// so every row counts towards tokens and cost; `restorations` only counts the completed ones
+const TOTALS_COLUMNS = `
+  COUNT(*) AS jobs,
+  SUM(status = 'done') AS restorations,
+  SUM(credits) AS credits,
+  SUM(prompt_tokens) AS prompt_tokens,
+  SUM(completion_tokens) AS completion_tokens,
+  SUM(total_tokens) AS total_tokens,
+  SUM(cost) AS cost
+`;
+
+// New accounts start without credits unless a sign-up grant is configured
+export function createAccountStore({ dbPath, signupCredits = 0 }) {
+  const db = new Database(dbPath);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  db.exec(SCHEMA);
+
+  const statements = {
+    insertAccount: db.prepare(
+      'INSERT INTO accounts (id, email, name, credits, created_at) VALUES (?, ?, ?, ?, ?)'
+    ),
+    accountById: db.prepare('SELECT * FROM accounts WHERE id = ?'),
+    accountByEmail: db.prepare('SELECT * FROM accounts WHERE email = ?'),
+    insertKey: db.prepare(
+      'INSERT INTO api_keys (id, account_id, key_hash, prefix, label, created_at) VALUES (?, ?, ?, ?, ?, ?)'
+    ),
+    keyByHash: db.prepare('SELECT * FROM api_keys WHERE key_hash = ? AND revoked_at IS NULL'),
+    keysByAccount: db.prepare('SELECT * FROM api_keys WHERE account_id = ? ORDER BY created_at'),
+    touchKey: db.prepare('UPDATE api_keys SET last_used_at = ? WHERE id = ?'),
+    revokeKey: db.prepare(
+      'UPDATE api_keys SET revoked_at = ? WHERE id = ? AND account_id = ? AND revoked_at IS NULL'
+    ),
+    // Never lets the balance go negative, so concurrent requests can't overspend
+    debit: db.prepare('UPDATE accounts SET credits = credits - ? WHERE id = ? AND credits >= ?'),
+    credit: db.prepare('UPDATE accounts SET credits = credits + ? WHERE id = ?'),
+    insertUsage: db.prepare(`
+      INSERT INTO usage (
+        account_id, api_key_id, job_id, status, credits, cached, provider, model,
+        prompt_tokens, completion_tokens, total_tokens, cost, created_at
+      ) VALUES (
+        @accountId, @apiKeyId, @jobId, @status, @credits, @cached, @provider, @model,
+        @promptTokens, @completionTokens, @totalTokens, @cost, @createdAt
+      )
+    `),
+    usageTotals: db.prepare(`SELECT ${TOTALS_COLUMNS} FROM usage WHERE account_id = ?`),
+    usageByKey: db.prepare(`
+      SELECT api_key_id, ${TOTALS_COLUMNS} FROM usage
+      WHERE account_id = ? GROUP BY api_key_id
+    `),
+    usageByStatus: db.prepare(`
+      SELECT status, ${TOTALS_COLUMNS} FROM usage
+      WHERE account_id = ? GROUP BY status
+    `),
+    recentUsage: db.prepare('SELECT * FROM usage WHERE account_id = ? ORDER BY id DESC LIMIT ?')
+  };
+
+  const generateApiKey = (accountId, label) => {
+    const key = `${API_KEY_PREFIX}${crypto.randomBytes(24).toString('base64url')}`;
+    const id = crypto.randomUUID();
+    const createdAt = new Date().toISOString();
+    const prefix = key.slice(0, API_KEY_PREFIX.length + 6);
+    statements.insertKey.run(id, accountId, hashApiKey(key), prefix, label || null, createdAt);
+    return { id, key, prefix, label: label || null, createdAt, lastUsedAt: null, revokedAt: null };
+  };
+
+  return {
+    // Creates an account with the sign-up credits and its first API key
+    createAccount({ email, name }) {
+      const normalizedEmail = String(email || '').trim().toLowerCase();
+      if (!EMAIL_PATTERN.test(normalizedEmail)) {
+        throw new Error('A valid email address is required');
+      }
+      if (statements.accountByEmail.get(normalizedEmail)) {
+        const error = new Error(`An account for ${normalizedEmail} already exists`);
+        error.code = 'ACCOUNT_EXISTS';
+        throw error;
+      }
+
+      const id = crypto.randomUUID();
+      const create = db.transaction(() => {
+        statements.insertAccount.run(
+          id,
+          normalizedEmail,
+          name ? String(name).trim().slice(0, 100) : null,
+          signupCredits,
+          new Date().toISOString()
+        );
+        return generateApiKey(id, 'Default key');
+      });
+
+      const apiKey = create();
+      return { account: toAccount(statements.accountById.get(id)), apiKey };
+    },
+
+    getAccount(id) {
+      return toAccount(statements.accountById.get(id)) || null;
+    },
+
+    // Returns the account and key id for an active API key, or null
+    authenticate(key) {
+      if (typeof key !== 'string' || !key.startsWith(API_KEY_PREFIX)) return null;
+
+      const row = statements.keyByHash.get(hashApiKey(key));
+      if (!row) return null;
+
+      statements.touchKey.run(new Date().toISOString(), row.id);
+      return { account: toAccount(statements.accountById.get(row.account_id)), apiKeyId: row.id };
+    },
+
+    listApiKeys(accountId) {
+      return statements.keysByAccount.all(accountId).map(toApiKey);
+    },
+
+    createApiKey(accountId, label) {
+      return generateApiKey(accountId, label ? String(label).trim().slice(0, 100) : null);
+    },
+
+    // Returns false when the key doesn't exist, belongs to another account or is already revoked
+    revokeApiKey(accountId, keyId) {
+      return statements.revokeKey.run(new Date().toISOString(), keyId, accountId).changes > 0;
+    },
+
+    // Atomically takes credits from the balance; returns false when the balance is too low
+    debitCredits(accountId, amount) {
+      return statements.debit.run(amount, accountId, amount).changes > 0;
+    },
+
+    addCredits(accountId, amount) {
+      if (statements.credit.run(amount, accountId).changes === 0) {
+        throw new Error(`Account ${accountId} does not exist`);
+      }
+      return toAccount(statements.accountById.get(accountId));
+    },
+
+    recordUsage({
+      accountId, apiKeyId, jobId = null, status, credits, cached = false,
+      provider = null, model = null, usage = null
+    }) {
+      statements.insertUsage.run({
+        accountId,
+        apiKeyId,
+        jobId,
+        status,
+        credits,
+        cached: cached ? 1 : 0,
+        provider,
+        model,
+        promptTokens: usage?.promptTokens ?? 0,
+        completionTokens: usage?.completionTokens ?? 0,
+        totalTokens: usage?.totalTokens ?? 0,
+        cost: usage?.cost ?? 0,
+        createdAt: new Date().toISOString()
+      });
+    },
+
+    // Totals of all jobs, broken down per key and per status, and the most recent usage records
+    getUsage(accountId, { limit = 50 } = {}) {
+      return {
+        totals: toTotals(statements.usageTotals.get(accountId)),
+        byKey: statements.usageByKey.all(accountId).map((row) => ({
+          apiKeyId: row.api_key_id,
+          ...toTotals(row)
+        })),
+        byStatus: Object.fromEntries(
+          statements.usageByStatus.all(accountId).map((row) => [row.status, toTotals(row)])
+        ),
+        recent: statements.recentUsage.all(accountId, limit).map((row) => ({
+          id: row.id,
+          apiKeyId: row.api_key_id,
+          jobId: row.job_id,
+          status: row.status,
+          credits: row.credits,
+          cached: Boolean(row.cached),
+          provider: row.provider,
+          model: row.model,
+          promptTokens: row.prompt_tokens,
+          completionTokens: row.completion_tokens,
+          totalTokens: row.total_tokens,
+          cost: row.cost,
+          createdAt: row.created_at
+        }))
+      };
+    },
+
+    close() {
+      db.close();
+    }
+  };
+}
@@ -0,0 +1,148 @@
+import sharp from 'sharp';
+
+// Animated WebP and GIF encoding. sharp can only write animations of images it loaded as
+// animations, so every frame is encoded on its own and the frames are then joined into one
+// animated file: ANMF chunks for WebP, frames with local color tables for GIF.
+
+export const ANIMATION_FORMATS = ['webp', 'gif'];
+
+// Helper function to write an unsigned little-endian integer of 2 or 3 bytes
+function uint(value, bytes) {
+  const buffer = Buffer.alloc(bytes);
+  buffer.writeUIntLE(value, 0, bytes);
+  return buffer;
+}
+
+function riffChunk(fourCC, payload) {
+  const header = Buffer.alloc(8);
+  header.write(fourCC, 0, 'ascii');
+  header.writeUInt32LE(payload.length, 4);
+  // Chunks are padded to an even size
+  return Buffer.concat([header, payload, payload.length % 2 ? Buffer.alloc(1) : Buffer.alloc(0)]);
+}
+
+// Helper function to take the image chunks (VP8 or VP8L, plus ALPH) out of a still WebP
+function webpImageChunks(file) {
+  const chunks = [];
+  for (let offset = 12; offset + 8 <= file.length;) {
+    const fourCC = file.toString('ascii', offset, offset + 4);
+    const size = file.readUInt32LE(offset + 4);
+    const end = offset + 8 + size + (size % 2);
+    if (['VP8 ', 'VP8L', 'ALPH'].includes(fourCC)) {
+      chunks.push(file.subarray(offset, end));
+    }
+    offset = end;
+  }
+  return Buffer.concat(chunks);
+}
+
+async function encodeWebp(frames, { width, height, delays, loop, quality }) {
+  const encoded = await Promise.all(frames.map(({ data, info }) =>
+    sharp(data, { raw: info }).removeAlpha().webp({ quality }).toBuffer()
+  ));
+
+  const vp8x = Buffer.concat([
+    Buffer.from([0x02, 0, 0, 0]), // animation flag
+    uint(width - 1, 3),
+    uint(height - 1, 3)
+  ]);
+  const anim = Buffer.concat([
+    Buffer.from([0, 0, 0, 0]), // background color
+    uint(loop, 2)
+  ]);
+  const anmf = encoded.map((file, index) => riffChunk('ANMF', Buffer.concat([
+    uint(0, 3), // x / 2
+    uint(0, 3), // y / 2
+    uint(width - 1, 3),
+    uint(height - 1, 3),
+    uint(delays[index], 3),
+    Buffer.from([0x02]), // replace the previous frame instead of blending with it
+    webpImageChunks(file)
+  ])));
+
+  const body = Buffer.concat([Buffer.from('WEBP', 'ascii'), riffChunk('VP8X', vp8x), riffChunk('ANIM', anim), ...anmf]);
+  const header = Buffer.alloc(8);
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(body.length, 4);
+  return Buffer.concat([header, body]);
+}
+
+// Helper function to skip GIF data sub-blocks, returning the offset after the terminator
+function skipSubBlocks(file, offset) {
+  while (file[offset] !== 0) {
+    offset += file[offset] + 1;
+  }
+  return offset + 1;
+}
+
+// Helper function to split a still GIF into its color table and its image (descriptor and
+// compressed pixels), moving the global color table into the image as a local one
+function gifFrame(file) {
+  const packed = file[10];
+  const globalTableSize = packed & 0x80 ? 3 * 2 ** ((packed & 0x07) + 1) : 0;
+  const globalTable = file.subarray(13, 13 + globalTableSize);
+
+  let offset = 13 + globalTableSize;
+  while (file[offset] === 0x21) {
+    offset = skipSubBlocks(file, offset + 2);
+  }
+  if (file[offset] !== 0x2c) {
+    throw new Error('Unexpected GIF frame layout');
+  }
+
+  const descriptor = Buffer.from(file.subarray(offset, offset + 10));
+  const localTableSize = descriptor[9] & 0x80 ? 3 * 2 ** ((descriptor[9] & 0x07) + 1) : 0;
+  const dataStart = offset + 10 + localTableSize;
+  const dataEnd = skipSubBlocks(file, dataStart + 1);
+
+  if (localTableSize) {
+    return file.subarray(offset, dataEnd);
+  }
+  descriptor[9] = (descriptor[9] & 0x40) | 0x80 | (packed & 0x07);
+  return Buffer.concat([descriptor, globalTable, file.subarray(dataStart, dataEnd)]);
+}
+
+async function encodeGif(frames, { width, height, delays, loop }) {
+  const encoded = await Promise.all(frames.map(({ data, info }) =>
+    sharp(data, { raw: info }).removeAlpha().gif().toBuffer()
+  ));
+
+  const screen = Buffer.alloc(7);
+  screen.writeUInt16LE(width, 0);
+  screen.writeUInt16LE(height, 2);
+  // No global color table, every frame brings its own palette
+
+  const netscape = Buffer.concat([
+    Buffer.from([0x21, 0xff, 0x0b]),
+    Buffer.from('NETSCAPE2.0', 'ascii'),
+    Buffer.from([0x03, 0x01]),
+    uint(loop, 2),
+    Buffer.from([0x00])
+  ]);
+
+  const body = encoded.map((file, index) => Buffer.concat([
+    // Graphic control extension: delay in hundredths of a second, keep the frame when the next is drawn
+    Buffer.from([0x21, 0xf9, 0x04, 0x04]),
+    uint(Math.round(delays[index] / 10), 2),
+    Buffer.from([0x00, 0x00]),
+    gifFrame(file)
+  ]));
+
+  return Buffer.concat([Buffer.from('GIF89a', 'ascii'), screen, netscape, ...body, Buffer.from([0x3b])]);
+}
+
+// Encodes raw frames ({ data, info } as returned by sharp's toBuffer) of the same size as one
+// animation. `delays` holds each frame's duration in milliseconds; `loop` is the number of
+// repeats, 0 repeats forever.
+export async function encodeAnimation(frames, { format, delays, loop = 0, quality = 80 }) {
+  if (!ANIMATION_FORMATS.includes(format)) {
+    throw new Error(`Unknown animation format "${format}". Expected one of: ${ANIMATION_FORMATS.join(', ')}`);
+  }
+  if (frames.length === 0 || delays.length !== frames.length) {
+    throw new Error('An animation needs at least one frame and one delay per frame');
+  }
+
+  const { width, height } = frames[0].info;
+  const options = { width, height, delays, loop, quality };
+  return format === 'webp' ? encodeWebp(frames, options) : encodeGif(frames, options);
+}
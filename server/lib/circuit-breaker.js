@@ -0,0 +1,45 @@
+// Circuit breaker for an upstream model. After `failureThreshold` consecutive failures the
+// circuit opens and requests are skipped for `cooldownMs`; the first request after that is a
+// trial (half-open) that closes the circuit again on success or re-opens it on failure.
+
+export function createCircuitBreaker({ failureThreshold = 3, cooldownMs = 60 * 1000, now = Date.now } = {}) {
+  let state = 'closed';
+  let failures = 0;
+  let openedAt = 0;
+
+  const refresh = () => {
+    if (state === 'open' && now() - openedAt >= cooldownMs) {
+      state = 'half-open';
+    }
+  };
+
+  return {
+    canRequest() {
+      refresh();
+      return state !== 'open';
+    },
+
+    recordSuccess() {
+      state = 'closed';
+      failures = 0;
+    },
+
+    recordFailure() {
+      failures++;
+      refresh();
+      if (state === 'half-open' || failures >= failureThreshold) {
+        state = 'open';
+        openedAt = now();
+      }
+    },
+
+    describe() {
+      refresh();
+      return {
+        state,
+        failures,
+        retryAt: state === 'open' ? new Date(openedAt + cooldownMs).toISOString() : null
+      };
+    }
+  };
+}
@@ -0,0 +1,115 @@
+// Structured damage report returned next to the restoration plan: what is damaged, where,
+// how badly, roughly when and on what the photo was made, and what should be done about it.
+
+export const DAMAGE_TYPES = [
+  'scratch', 'dust', 'tear', 'crease', 'stain', 'fading', 'color-cast',
+  'noise', 'blur', 'missing-area', 'mold', 'other'
+];
+
+export const SEVERITIES = ['minor', 'moderate', 'severe'];
+
+// Keeps a confused model from flooding the UI with boxes
+const MAX_DAMAGES = 12;
+const MAX_ACTIONS = 8;
+
+const REGION_SCHEMA = {
+  type: ['object', 'null'],
+  description: 'Bounding box of the damage as fractions of the photo as provided, or null if it covers the whole photo',
+  properties: {
+    left: { type: 'number', minimum: 0, maximum: 1 },
+    top: { type: 'number', minimum: 0, maximum: 1 },
+    width: { type: 'number', minimum: 0, maximum: 1 },
+    height: { type: 'number', minimum: 0, maximum: 1 }
+  }
+};
+
+export const DAMAGE_REPORT_SCHEMA = {
+  type: 'object',
+  properties: {
+    damages: {
+      type: 'array',
+      maxItems: MAX_DAMAGES,
+      items: {
+        type: 'object',
+        required: ['type', 'severity'],
+        properties: {
+          type: { type: 'string', enum: DAMAGE_TYPES },
+          severity: { type: 'string', enum: SEVERITIES },
+          description: { type: 'string', description: 'One sentence describing this damage' },
+          region: REGION_SCHEMA
+        }
+      }
+    },
+    estimatedEra: {
+      type: ['string', 'null'],
+      description: 'When the photo was probably taken, e.g. "1950s" or "late 1970s"'
+    },
+    medium: {
+      type: ['string', 'null'],
+      description: 'What the photo is, e.g. "black and white silver gelatin print" or "color instant print"'
+    },
+    recommendedActions: {
+      type: 'array',
+      maxItems: MAX_ACTIONS,
+      items: { type: 'string' },
+      description: 'Short recommendations, including anything the automatic restoration cannot fix'
+    }
+  }
+};
+
+const clamp01 = (value) => (typeof value === 'number' && Number.isFinite(value)
+  ? Math.min(1, Math.max(0, value))
+  : undefined);
+
+const text = (value) => (typeof value === 'string' && value.trim() ? value.trim() : null);
+
+function normalizeRegion(region) {
+  if (!region || typeof region !== 'object') return null;
+
+  const left = clamp01(region.left);
+  const top = clamp01(region.top);
+  const width = clamp01(region.width);
+  const height = clamp01(region.height);
+  if ([left, top, width, height].includes(undefined) || width === 0 || height === 0) return null;
+
+  return {
+    left,
+    top,
+    width: Math.min(width, 1 - left),
+    height: Math.min(height, 1 - top)
+  };
+}
+
+// Helper function to validate the model's damage report. Unknown types become "other",
+// unknown severities "moderate", and malformed regions are dropped rather than guessed.
+export function normalizeDamageReport(rawReport) {
+  const source = rawReport && typeof rawReport === 'object' ? rawReport : {};
+
+  const damages = (Array.isArray(source.damages) ? source.damages : [])
+    .filter((damage) => damage && typeof damage === 'object')
+    .slice(0, MAX_DAMAGES)
+    .map((damage) => ({
+      type: DAMAGE_TYPES.includes(damage.type) ? damage.type : 'other',
+      severity: SEVERITIES.includes(damage.severity) ? damage.severity : 'moderate',
+      description: text(damage.description) || '',
+      region: normalizeRegion(damage.region)
+    }));
+
+  const recommendedActions = (Array.isArray(source.recommendedActions) ? source.recommendedActions : [])
+    .map(text)
+    .filter(Boolean)
+    .slice(0, MAX_ACTIONS);
+
+  const overallSeverity = damages.reduce(
+    (worst, damage) => (SEVERITIES.indexOf(damage.severity) > SEVERITIES.indexOf(worst) ? damage.severity : worst),
+    damages.length > 0 ? 'minor' : null
+  );
+
+  return {
+    damages,
+    overallSeverity,
+    estimatedEra: text(source.estimatedEra),
+    medium: text(source.medium),
+    recommendedActions
+  };
+}
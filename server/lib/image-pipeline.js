@@ -0,0 +1,127 @@
+import sharp from 'sharp';
+import { loadDamageMask, inpaintInWorker } from './inpaint.js';
+
+const SEPIA = { r: 112, g: 66, b: 20 };
+
+// Helper function to apply an exposure change in stops as a tone curve on raw pixels.
+// y = g·x / (1 + (g - 1)·x) lifts (or lowers) shadows and midtones by up to 2^stops but keeps
+// black and white where they are, so brightening a light photo never clips its highlights
+// the way a plain gain would.
+function applyExposure(data, info, stops) {
+  const gain = Math.pow(2, stops);
+  const lut = new Uint8Array(256);
+  for (let value = 0; value < 256; value++) {
+    const x = value / 255;
+    lut[value] = Math.round(255 * gain * x / (1 + (gain - 1) * x));
+  }
+
+  const colorChannels = info.channels === 2 || info.channels === 4 ? info.channels - 1 : info.channels;
+  for (let i = 0; i < data.length; i += info.channels) {
+    for (let c = 0; c < colorChannels; c++) {
+      data[i + c] = lut[data[i + c]];
+    }
+  }
+  return data;
+}
+
+// Helper function to turn a normalized plan into sharp operations.
+// Geometry (orientation, rotation, crop) needs the image size at each step, so it runs
+// as separate passes over raw pixels before the tonal adjustments.
+// An optional damage mask (drawn over the upright image) is inpainted before anything else.
+// `scale`, `saturation` and `tintColor` come from the selected restoration mode.
+export async function applyRestorationPlan(input, plan, {
+  maxSize = 2048,
+  mask,
+  scale = 1,
+  saturation = 1,
+  tintColor = SEPIA
+} = {}) {
+  let { data, info } = await sharp(input)
+    .rotate()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  let inpaintedPixels = 0;
+  if (mask) {
+    const damage = await loadDamageMask(mask, info.width, info.height);
+    if (damage.count > 0) {
+      data = await inpaintInWorker(data, info, damage.mask);
+      inpaintedPixels = damage.count;
+    }
+  }
+
+  if (plan.exposure !== 0) {
+    data = applyExposure(data, info, plan.exposure);
+  }
+
+  if (plan.rotation !== 0) {
+    ({ data, info } = await sharp(data, { raw: info })
+      .rotate(plan.rotation, { background: { r: 255, g: 255, b: 255, alpha: 1 } })
+      .raw()
+      .toBuffer({ resolveWithObject: true }));
+  }
+
+  let pipeline = sharp(data, { raw: info });
+  let width = info.width;
+  let height = info.height;
+
+  if (plan.crop) {
+    const left = Math.round(plan.crop.left * info.width);
+    const top = Math.round(plan.crop.top * info.height);
+    width = Math.max(1, Math.min(info.width - left, Math.round(plan.crop.width * info.width)));
+    height = Math.max(1, Math.min(info.height - top, Math.round(plan.crop.height * info.height)));
+    pipeline = pipeline.extract({ left, top, width, height });
+  }
+
+  // Enlarge by the requested scale, but never past maxSize on the longest edge.
+  // maxSize only limits enlarging: larger photos are rendered at their own size.
+  const resizeFactor = Math.max(1, Math.min(scale, maxSize / Math.max(width, height)));
+  if (resizeFactor !== 1) {
+    pipeline = pipeline.resize(Math.round(width * resizeFactor), Math.round(height * resizeFactor), {
+      kernel: 'lanczos3'
+    });
+  }
+
+  if (plan.denoise > 0.05) {
+    // Median filter removes grain and dust specks; a larger window for heavier noise
+    pipeline = pipeline.median(plan.denoise < 0.5 ? 3 : 5);
+  }
+
+  const { temperature, tint } = plan.whiteBalance;
+  if (temperature !== 0 || tint !== 0) {
+    // Per-channel gains: temperature trades red against blue, tint trades green against red+blue
+    const red = 1 + temperature * 0.15 + tint * 0.05;
+    const green = 1 - tint * 0.1;
+    const blue = 1 - temperature * 0.15 + tint * 0.05;
+    pipeline = pipeline.recomb([
+      [red, 0, 0],
+      [0, green, 0],
+      [0, 0, blue]
+    ]);
+  }
+
+  if (plan.contrast.autoLevels) {
+    pipeline = pipeline.normalise();
+  }
+
+  if (plan.contrast.amount !== 0) {
+    const slope = 1 + plan.contrast.amount;
+    pipeline = pipeline.linear(slope, 255 * plan.contrast.pivot * (1 - slope));
+  }
+
+  if (saturation !== 1) {
+    pipeline = pipeline.modulate({ saturation });
+  }
+
+  if (plan.sharpen > 0) {
+    pipeline = pipeline.sharpen({ sigma: 0.5 + plan.sharpen * 1.5 });
+  }
+
+  if (plan.tone === 'grayscale') {
+    pipeline = pipeline.grayscale();
+  } else if (plan.tone === 'sepia') {
+    pipeline = pipeline.tint(tintColor);
+  }
+
+  return { pipeline, inpaintedPixels };
+}
@@ -0,0 +1,370 @@
+import fs from 'fs/promises';
+
+// Upload validation shared by the Express server and the picture-repair CLI.
+// Files are identified by their magic bytes, never by the declared MIME type, and their
+// dimensions are read from the headers so oversized images and decompression bombs are
+// rejected before anything is decoded. Pure JavaScript, so it runs before sharp ever sees the file.
+
+export const DEFAULT_IMAGE_LIMITS = {
+  maxBytes: 10 * 1024 * 1024,
+  maxDimension: 12000,
+  maxPixels: 40_000_000
+};
+
+export const IMAGE_FORMATS = {
+  jpeg: { mimeType: 'image/jpeg', label: 'JPEG' },
+  png: { mimeType: 'image/png', label: 'PNG' },
+  webp: { mimeType: 'image/webp', label: 'WebP' },
+  tiff: { mimeType: 'image/tiff', label: 'TIFF' },
+  gif: { mimeType: 'image/gif', label: 'GIF' },
+  heic: { mimeType: 'image/heic', label: 'HEIC' }
+};
+
+// Every rejection has a stable code the client can show; the title is the `error` field
+// of the HTTP response and `status` its status code
+export const IMAGE_ERRORS = {
+  NOT_AN_IMAGE: { status: 400, title: 'Not a supported image' },
+  UNSUPPORTED_FORMAT: { status: 415, title: 'Unsupported image format' },
+  FILE_TOO_LARGE: { status: 413, title: 'File too large' },
+  DIMENSIONS_TOO_LARGE: { status: 400, title: 'Image dimensions too large' },
+  TOO_MANY_PIXELS: { status: 400, title: 'Image has too many pixels' },
+  ANIMATED_IMAGE: { status: 400, title: 'Animated images are not supported' },
+  CORRUPTED_IMAGE: { status: 400, title: 'Corrupted image' }
+};
+
+export function imageValidationError(code, message) {
+  const error = new Error(message);
+  error.code = code;
+  return error;
+}
+
+// Helper function to build the HTTP error body for a validation error
+export function describeImageError(error) {
+  const { status, title } = IMAGE_ERRORS[error.code] || IMAGE_ERRORS.CORRUPTED_IMAGE;
+  return { status, body: { error: title, code: error.code, message: error.message } };
+}
+
+const HEIC_BRANDS = ['heic', 'heix', 'heim', 'heis', 'hevc', 'hevx'];
+// Image sequences (bursts and animations) rather than still images
+const HEIC_SEQUENCE_BRANDS = ['msf1', 'hevc', 'hevx'];
+
+const ascii = (buffer, start, length) => buffer.toString('latin1', start, start + length);
+
+// Helper function to recognise an image from its first bytes
+export function sniffImageType(buffer) {
+  if (buffer.length < 12) return null;
+
+  if (buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) return 'jpeg';
+  if (buffer.readUInt32BE(0) === 0x89504e47 && buffer.readUInt32BE(4) === 0x0d0a1a0a) return 'png';
+  if (ascii(buffer, 0, 4) === 'RIFF' && ascii(buffer, 8, 4) === 'WEBP') return 'webp';
+  if (ascii(buffer, 0, 4) === 'II*\0' || ascii(buffer, 0, 4) === 'MM\0*') return 'tiff';
+  if (ascii(buffer, 0, 6) === 'GIF87a' || ascii(buffer, 0, 6) === 'GIF89a') return 'gif';
+
+  if (ascii(buffer, 4, 4) === 'ftyp') {
+    const boxEnd = Math.min(buffer.readUInt32BE(0), buffer.length);
+    const brands = [ascii(buffer, 8, 4)];
+    for (let offset = 16; offset + 4 <= boxEnd; offset += 4) {
+      brands.push(ascii(buffer, offset, 4));
+    }
+    if (brands.some((brand) => HEIC_BRANDS.includes(brand))) return 'heic';
+  }
+
+  return null;
+}
+
+const corrupted = (format, detail) =>
+  imageValidationError('CORRUPTED_IMAGE', `The ${IMAGE_FORMATS[format].label} file is damaged or incomplete (${detail})`);
+
+const SOF_MARKERS = new Set([0xc0, 0xc1, 0xc2, 0xc3, 0xc5, 0xc6, 0xc7, 0xc9, 0xca, 0xcb, 0xcd, 0xce, 0xcf]);
+
+function readJpegHeader(buffer) {
+  let offset = 2;
+  let size = null;
+
+  while (offset + 4 <= buffer.length) {
+    if (buffer[offset] !== 0xff) throw corrupted('jpeg', 'invalid marker');
+    const marker = buffer[offset + 1];
+    // Fill bytes and markers without a length field
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      offset += 2;
+      continue;
+    }
+
+    const length = buffer.readUInt16BE(offset + 2);
+    if (length < 2 || offset + 2 + length > buffer.length) throw corrupted('jpeg', 'truncated header');
+
+    if (SOF_MARKERS.has(marker)) {
+      size = { height: buffer.readUInt16BE(offset + 5), width: buffer.readUInt16BE(offset + 7) };
+    }
+    if (marker === 0xda) {
+      if (!size) throw corrupted('jpeg', 'no frame header');
+      // Data after the end marker (e.g. motion photos) is allowed, a missing end marker isn't
+      const end = buffer.lastIndexOf(Buffer.from([0xff, 0xd9]));
+      if (end < offset) throw corrupted('jpeg', 'truncated image data');
+      return { ...size, frames: 1 };
+    }
+    offset += 2 + length;
+  }
+
+  throw corrupted('jpeg', 'no image data');
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+const crc32 = (buffer) => {
+  let crc = 0xffffffff;
+  for (const byte of buffer) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+function readPngHeader(buffer) {
+  if (buffer.length < 33 || ascii(buffer, 12, 4) !== 'IHDR') throw corrupted('png', 'missing header');
+  if (crc32(buffer.subarray(12, 29)) !== buffer.readUInt32BE(29)) throw corrupted('png', 'header checksum mismatch');
+
+  const width = buffer.readUInt32BE(16);
+  const height = buffer.readUInt32BE(20);
+  let frames = 1;
+  let offset = 8;
+
+  while (offset + 12 <= buffer.length) {
+    const length = buffer.readUInt32BE(offset);
+    const type = ascii(buffer, offset + 4, 4);
+    if (offset + 12 + length > buffer.length) break;
+
+    // APNG: the animation control chunk holds the frame count
+    if (type === 'acTL' && length >= 8) {
+      frames = buffer.readUInt32BE(offset + 8);
+    }
+    if (type === 'IEND') {
+      return { width, height, frames };
+    }
+    offset += 12 + length;
+  }
+
+  throw corrupted('png', 'truncated image data');
+}
+
+function readGifHeader(buffer) {
+  const width = buffer.readUInt16LE(6);
+  const height = buffer.readUInt16LE(8);
+  const colorTableSize = (flags) => (flags & 0x80 ? 3 * 2 ** ((flags & 0x07) + 1) : 0);
+
+  // Helper function to skip a chain of data sub-blocks, returning the offset after the terminator
+  const skipSubBlocks = (start) => {
+    let offset = start;
+    while (offset < buffer.length && buffer[offset] !== 0) {
+      offset += buffer[offset] + 1;
+    }
+    return offset + 1;
+  };
+
+  let offset = 13 + colorTableSize(buffer[10]);
+  let frames = 0;
+
+  while (offset < buffer.length) {
+    const block = buffer[offset];
+    if (block === 0x3b) {
+      if (frames === 0) throw corrupted('gif', 'no image data');
+      return { width, height, frames };
+    }
+    if (block === 0x21) {
+      offset = skipSubBlocks(offset + 2);
+    } else if (block === 0x2c) {
+      frames++;
+      if (offset + 10 > buffer.length) break;
+      offset = skipSubBlocks(offset + 10 + colorTableSize(buffer[offset + 9]) + 1);
+    } else {
+      throw corrupted('gif', 'unknown block');
+    }
+  }
+
+  throw corrupted('gif', 'truncated image data');
+}
+
+function readWebpHeader(buffer) {
+  if (buffer.readUInt32LE(4) + 8 > buffer.length || buffer.length < 30) {
+    throw corrupted('webp', 'truncated file');
+  }
+
+  const chunk = ascii(buffer, 12, 4);
+  if (chunk === 'VP8 ') {
+    if (buffer.readUIntBE(23, 3) !== 0x9d012a) throw corrupted('webp', 'invalid frame header');
+    return { width: buffer.readUInt16LE(26) & 0x3fff, height: buffer.readUInt16LE(28) & 0x3fff, frames: 1 };
+  }
+  if (chunk === 'VP8L') {
+    if (buffer[20] !== 0x2f) throw corrupted('webp', 'invalid lossless header');
+    const bits = buffer.readUInt32LE(21);
+    return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1, frames: 1 };
+  }
+  if (chunk === 'VP8X') {
+    const animated = (buffer[20] & 0x02) !== 0;
+    return {
+      width: buffer.readUIntLE(24, 3) + 1,
+      height: buffer.readUIntLE(27, 3) + 1,
+      // The real frame count is only known after reading every ANMF chunk
+      frames: animated ? 2 : 1
+    };
+  }
+
+  throw corrupted('webp', 'unknown bitstream');
+}
+
+function readTiffHeader(buffer) {
+  const little = buffer[0] === 0x49;
+  const u16 = (offset) => (little ? buffer.readUInt16LE(offset) : buffer.readUInt16BE(offset));
+  const u32 = (offset) => (little ? buffer.readUInt32LE(offset) : buffer.readUInt32BE(offset));
+
+  const ifd = u32(4);
+  if (ifd + 2 > buffer.length) throw corrupted('tiff', 'directory out of range');
+  const entries = u16(ifd);
+  if (ifd + 2 + entries * 12 > buffer.length) throw corrupted('tiff', 'truncated directory');
+
+  const size = {};
+  for (let i = 0; i < entries; i++) {
+    const entry = ifd + 2 + i * 12;
+    const tag = u16(entry);
+    if (tag === 256 || tag === 257) {
+      const value = u16(entry + 2) === 3 ? u16(entry + 8) : u32(entry + 8);
+      size[tag === 256 ? 'width' : 'height'] = value;
+    }
+  }
+
+  if (!size.width || !size.height) throw corrupted('tiff', 'missing image size');
+  // Multi-page TIFFs are accepted, only the first page is restored
+  return { ...size, frames: 1 };
+}
+
+// Helper function to iterate over ISO-BMFF boxes between start and end
+function* boxes(buffer, start, end) {
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = buffer.readUInt32BE(offset);
+    let header = 8;
+    if (size === 1) {
+      if (offset + 16 > end) throw corrupted('heic', 'truncated box');
+      size = Number(buffer.readBigUInt64BE(offset + 8));
+      header = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < header || offset + size > end) throw corrupted('heic', 'truncated box');
+
+    yield { type: ascii(buffer, offset + 4, 4), start: offset + header, end: offset + size };
+    offset += size;
+  }
+}
+
+function readHeicHeader(buffer) {
+  const majorBrand = ascii(buffer, 8, 4);
+  const child = (parent, type, skip = 0) => {
+    for (const box of boxes(buffer, parent.start + skip, parent.end)) {
+      if (box.type === type) return box;
+    }
+    return null;
+  };
+
+  const meta = child({ start: 0, end: buffer.length }, 'meta');
+  // `meta` is a full box: 4 bytes of version and flags come before its children
+  const iprp = meta && child(meta, 'iprp', 4);
+  const ipco = iprp && child(iprp, 'ipco');
+  if (!ipco) throw corrupted('heic', 'missing item properties');
+
+  // Grid images list a size for every tile; the largest is the full image
+  let size = null;
+  for (const box of boxes(buffer, ipco.start, ipco.end)) {
+    if (box.type === 'ispe' && box.end - box.start >= 12) {
+      const width = buffer.readUInt32BE(box.start + 4);
+      const height = buffer.readUInt32BE(box.start + 8);
+      if (!size || width * height > size.width * size.height) {
+        size = { width, height };
+      }
+    }
+  }
+  if (!size) throw corrupted('heic', 'missing image size');
+
+  return { ...size, frames: HEIC_SEQUENCE_BRANDS.includes(majorBrand) ? 2 : 1 };
+}
+
+const HEADER_READERS = {
+  jpeg: readJpegHeader,
+  png: readPngHeader,
+  gif: readGifHeader,
+  webp: readWebpHeader,
+  tiff: readTiffHeader,
+  heic: readHeicHeader
+};
+
+// Validates an image held in memory and returns { format, mimeType, width, height }.
+// `formats` restricts which of the recognised formats are accepted.
+export function validateImageBuffer(buffer, { limits = DEFAULT_IMAGE_LIMITS, formats = Object.keys(IMAGE_FORMATS) } = {}) {
+  if (buffer.length > limits.maxBytes) {
+    throw imageValidationError(
+      'FILE_TOO_LARGE',
+      `Image file must be smaller than ${Math.round(limits.maxBytes / (1024 * 1024))}MB`
+    );
+  }
+
+  const format = sniffImageType(buffer);
+  if (!format) {
+    throw imageValidationError(
+      'NOT_AN_IMAGE',
+      `The file is not a JPEG, PNG, WebP, TIFF, GIF or HEIC image`
+    );
+  }
+  if (!formats.includes(format)) {
+    throw imageValidationError(
+      'UNSUPPORTED_FORMAT',
+      `${IMAGE_FORMATS[format].label} images are not accepted here. Use ${formats.map((id) => IMAGE_FORMATS[id].label).join(', ')}`
+    );
+  }
+
+  let header;
+  try {
+    header = HEADER_READERS[format](buffer);
+  } catch (error) {
+    if (error.code) throw error;
+    // Reading past the end of the buffer means the headers are cut off
+    throw corrupted(format, 'truncated header');
+  }
+
+  const { width, height, frames } = header;
+  if (!width || !height) {
+    throw corrupted(format, 'zero image size');
+  }
+  if (width > limits.maxDimension || height > limits.maxDimension) {
+    throw imageValidationError(
+      'DIMENSIONS_TOO_LARGE',
+      `The image is ${width}×${height}; neither side may exceed ${limits.maxDimension} pixels`
+    );
+  }
+  if (width * height > limits.maxPixels) {
+    throw imageValidationError(
+      'TOO_MANY_PIXELS',
+      `The image has ${(width * height / 1e6).toFixed(1)} megapixels; the limit is ${(limits.maxPixels / 1e6).toFixed(1)}`
+    );
+  }
+  if (frames > 1) {
+    throw imageValidationError(
+      'ANIMATED_IMAGE',
+      'Animated images can not be restored, upload a single still photo'
+    );
+  }
+
+  return { format, mimeType: IMAGE_FORMATS[format].mimeType, width, height };
+}
+
+export async function validateImageFile(filePath, options) {
+  return validateImageBuffer(await fs.readFile(filePath), options);
+}
@@ -0,0 +1,6 @@
+// Worker thread for inpaintInWorker: fills the damaged pixels off the main thread
+import { parentPort, workerData } from 'worker_threads';
+import { inpaintRaw } from './inpaint.js';
+
+const { data, info, mask } = workerData;
+parentPort.postMessage(inpaintRaw(data, info, mask));
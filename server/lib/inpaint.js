@@ -0,0 +1,183 @@
+import sharp from 'sharp';
+import { Worker } from 'worker_threads';
+
+// Mask pixels brighter than this count as damage; low enough to include anti-aliased brush edges
+const MASK_THRESHOLD = 32;
+
+// Smoothing passes over the filled region, to blend away the streaks of the layer-by-layer fill
+const SMOOTHING_ITERATIONS = 12;
+
+const NEIGHBOURS = [
+  [-1, 0, 1], [1, 0, 1], [0, -1, 1], [0, 1, 1],
+  [-1, -1, Math.SQRT1_2], [1, -1, Math.SQRT1_2], [-1, 1, Math.SQRT1_2], [1, 1, Math.SQRT1_2]
+];
+
+// Helper function to load a damage mask (white = damaged) at the image's size, one byte per pixel
+export async function loadDamageMask(maskInput, width, height) {
+  const { data } = await sharp(maskInput)
+    .flatten({ background: { r: 0, g: 0, b: 0 } })
+    .resize(width, height, { fit: 'fill' })
+    .greyscale()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  // Grow the marked area by one pixel so the soft edge of a scratch is replaced too
+  const mask = new Uint8Array(width * height);
+  let count = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const marked = data[i] > MASK_THRESHOLD ||
+        (x > 0 && data[i - 1] > MASK_THRESHOLD) ||
+        (x < width - 1 && data[i + 1] > MASK_THRESHOLD) ||
+        (y > 0 && data[i - width] > MASK_THRESHOLD) ||
+        (y < height - 1 && data[i + width] > MASK_THRESHOLD);
+      if (marked) {
+        mask[i] = 1;
+        count++;
+      }
+    }
+  }
+
+  return { mask, count };
+}
+
+// Fill the masked pixels of a raw image from the surrounding content.
+// Works inwards from the edge of each damaged region ("onion peel"): every layer fills the
+// masked pixels that touch known pixels with a distance-weighted average of those neighbours,
+// then a few diffusion passes smooth the result. Each layer is the unfilled neighbours of the
+// one before, so the cost grows with the damaged area, not with area × radius.
+export function inpaintRaw(data, { width, height, channels }, mask) {
+  const output = Buffer.from(data);
+  const known = new Uint8Array(width * height);
+  // Masked pixels already waiting in a layer, so none is queued twice
+  const queued = new Uint8Array(width * height);
+  const filled = [];
+
+  for (let i = 0; i < known.length; i++) {
+    if (mask[i]) {
+      filled.push(i);
+    } else {
+      known[i] = 1;
+    }
+  }
+
+  // Helper function to queue the damaged neighbours of a pixel that are neither filled nor queued
+  const queueNeighbours = (index, layer) => {
+    const x = index % width;
+    const y = (index - x) / width;
+    for (const [dx, dy] of NEIGHBOURS) {
+      const nx = x + dx;
+      const ny = y + dy;
+      if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+
+      const neighbour = ny * width + nx;
+      if (mask[neighbour] && !known[neighbour] && !queued[neighbour]) {
+        queued[neighbour] = 1;
+        layer.push(neighbour);
+      }
+    }
+  };
+
+  // The first layer is every masked pixel next to an undamaged one. Regions that touch no
+  // undamaged pixel at all (e.g. the whole image is masked) are never reached and keep their content.
+  let layer = [];
+  for (const index of filled) {
+    const x = index % width;
+    const y = (index - x) / width;
+    const touchesKnown = NEIGHBOURS.some(([dx, dy]) => {
+      const nx = x + dx;
+      const ny = y + dy;
+      return nx >= 0 && ny >= 0 && nx < width && ny < height && known[ny * width + nx];
+    });
+    if (touchesKnown) {
+      queued[index] = 1;
+      layer.push(index);
+    }
+  }
+
+  const sums = new Float64Array(channels);
+  while (layer.length > 0) {
+    for (const index of layer) {
+      const x = index % width;
+      const y = (index - x) / width;
+      let weight = 0;
+      sums.fill(0);
+
+      for (const [dx, dy, w] of NEIGHBOURS) {
+        const nx = x + dx;
+        const ny = y + dy;
+        if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+
+        const neighbour = ny * width + nx;
+        if (!known[neighbour]) continue;
+
+        const offset = neighbour * channels;
+        for (let c = 0; c < channels; c++) {
+          sums[c] += output[offset + c] * w;
+        }
+        weight += w;
+      }
+
+      const offset = index * channels;
+      for (let c = 0; c < channels; c++) {
+        output[offset + c] = Math.round(sums[c] / weight);
+      }
+    }
+
+    // Pixels of a layer only become known once the whole layer is filled, so every layer is
+    // an average of what surrounded it, whatever order its pixels come in
+    for (const index of layer) {
+      known[index] = 1;
+    }
+    const next = [];
+    for (const index of layer) {
+      queueNeighbours(index, next);
+    }
+    layer = next;
+  }
+
+  for (let iteration = 0; iteration < SMOOTHING_ITERATIONS; iteration++) {
+    for (const index of filled) {
+      const x = index % width;
+      const y = (index - x) / width;
+      let count = 0;
+      sums.fill(0);
+
+      for (let n = 0; n < 4; n++) {
+        const [dx, dy] = NEIGHBOURS[n];
+        const nx = x + dx;
+        const ny = y + dy;
+        if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+
+        const offset = (ny * width + nx) * channels;
+        for (let c = 0; c < channels; c++) {
+          sums[c] += output[offset + c];
+        }
+        count++;
+      }
+
+      const offset = index * channels;
+      for (let c = 0; c < channels; c++) {
+        output[offset + c] = Math.round(sums[c] / count);
+      }
+    }
+  }
+
+  return output;
+}
+
+// Helper function to run inpaintRaw on a worker thread. Large damaged areas of a full-resolution
+// photo take seconds to fill, and the server keeps answering requests and progress events meanwhile.
+export function inpaintInWorker(data, info, mask) {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./inpaint-worker.js', import.meta.url), {
+      workerData: { data, info: { width: info.width, height: info.height, channels: info.channels }, mask }
+    });
+    worker.once('message', (output) => resolve(Buffer.from(output.buffer, output.byteOffset, output.byteLength)));
+    worker.once('error', reject);
+    worker.once('exit', (code) => {
+      if (code !== 0) reject(new Error(`Inpainting stopped with exit code ${code}`));
+    });
+  });
+}
@@ -0,0 +1,118 @@
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+
+export const JOB_STAGES = ['queued', 'analyzing', 'enhancing', 'done', 'failed', 'cancelled'];
+
+export const isTerminalStage = (stage) => stage === 'done' || stage === 'failed' || stage === 'cancelled';
+
+const cancelledError = () => ({
+  error: 'Repair cancelled',
+  code: 'CANCELLED',
+  message: 'The repair was cancelled'
+});
+
+// In-memory job store with a concurrency-limited queue.
+// `worker(job, setStage, signal)` does the actual work and resolves with the job result;
+// every stage change is published to subscribers (used for the SSE stream).
+// Cancelling a running job aborts `signal`; the worker should stop at its next check and throw.
+// `onCancel(job)` is called for jobs cancelled before they started, while `job.input` still
+// holds what was submitted, so the caller can release it.
+export function createJobStore({ worker, onCancel = () => {}, concurrency = 2, ttlMs = 60 * 60 * 1000 }) {
+  const jobs = new Map();
+  const pending = [];
+  const controllers = new Map();
+  const events = new EventEmitter();
+  let running = 0;
+
+  events.setMaxListeners(0);
+
+  const snapshot = (job) => {
+    const { input, owner, ...publicJob } = job;
+    return publicJob;
+  };
+
+  const update = (job, patch) => {
+    Object.assign(job, patch, { updatedAt: new Date().toISOString() });
+    events.emit(job.id, snapshot(job));
+
+    if (isTerminalStage(job.stage)) {
+      // Finished jobs stay around long enough to be polled, then expire
+      setTimeout(() => jobs.delete(job.id), ttlMs).unref();
+    }
+  };
+
+  const runNext = () => {
+    while (running < concurrency && pending.length > 0) {
+      const job = pending.shift();
+      const controller = new AbortController();
+      controllers.set(job.id, controller);
+      running++;
+
+      Promise.resolve()
+        .then(() => worker(job, (stage) => update(job, { stage }), controller.signal))
+        .then(
+          (result) => update(job, { stage: 'done', result }),
+          (error) => update(job, controller.signal.aborted
+            ? { stage: 'cancelled', error: cancelledError() }
+            : { stage: 'failed', error: { error: 'Image processing failed', code: error.code, message: error.message } })
+        )
+        .finally(() => {
+          delete job.input;
+          controllers.delete(job.id);
+          running--;
+          runNext();
+        });
+    }
+  };
+
+  return {
+    // `owner` is kept private and checked when the job is cancelled
+    submit(input, metadata = {}, { owner = null } = {}) {
+      const now = new Date().toISOString();
+      const job = {
+        id: uuidv4(),
+        stage: 'queued',
+        ...metadata,
+        createdAt: now,
+        updatedAt: now,
+        input,
+        owner
+      };
+
+      jobs.set(job.id, job);
+      pending.push(job);
+      runNext();
+      return snapshot(job);
+    },
+
+    get(id) {
+      const job = jobs.get(id);
+      return job ? snapshot(job) : null;
+    },
+
+    // Takes a queued job out of the queue, or asks a running job to stop. Returns null when the
+    // job does not exist or belongs to someone else; finished jobs are returned unchanged, and a
+    // running job keeps its stage until the worker has stopped.
+    cancel(id, { owner = null } = {}) {
+      const job = jobs.get(id);
+      if (!job || job.owner !== owner) return null;
+
+      const queued = pending.indexOf(job);
+      if (queued !== -1) {
+        pending.splice(queued, 1);
+        onCancel(job);
+        delete job.input;
+        update(job, { stage: 'cancelled', error: cancelledError() });
+      } else {
+        controllers.get(id)?.abort();
+      }
+      return snapshot(job);
+    },
+
+    // Returns an unsubscribe function
+    subscribe(id, listener) {
+      events.on(id, listener);
+      return () => events.off(id, listener);
+    }
+  };
+}
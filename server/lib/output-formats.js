@@ -0,0 +1,120 @@
+// Output formats for restored images. The pipeline works on raw sRGB pixels, so the
+// encoded file never carries the upload's metadata; with `keepMetadata` only the capture
+// date and the original color profile are written back, and GPS data is always dropped.
+import sharp from 'sharp';
+
+export const OUTPUT_FORMATS = {
+  jpeg: {
+    label: 'JPEG',
+    extension: '.jpg',
+    contentType: 'image/jpeg',
+    // libvips name of the codec, used to check the installed sharp can write it
+    codec: 'jpeg',
+    quality: { min: 50, max: 100, default: 95 },
+    encode: (pipeline, { quality }) => pipeline.jpeg({ quality, mozjpeg: true })
+  },
+  png: {
+    label: 'PNG',
+    extension: '.png',
+    contentType: 'image/png',
+    codec: 'png',
+    encode: (pipeline) => pipeline.png({ compressionLevel: 9 })
+  },
+  webp: {
+    label: 'WebP (lossless)',
+    extension: '.webp',
+    contentType: 'image/webp',
+    codec: 'webp',
+    encode: (pipeline) => pipeline.webp({ lossless: true })
+  },
+  avif: {
+    label: 'AVIF',
+    extension: '.avif',
+    contentType: 'image/avif',
+    codec: 'heif',
+    quality: { min: 30, max: 100, default: 65 },
+    encode: (pipeline, { quality }) => pipeline.avif({ quality })
+  },
+  tiff: {
+    label: 'TIFF',
+    extension: '.tif',
+    contentType: 'image/tiff',
+    codec: 'tiff',
+    // libvips writes the color profile into TIFF files but no EXIF block
+    keepsCaptureDate: false,
+    encode: (pipeline) => pipeline.tiff({ compression: 'lzw' })
+  }
+};
+
+export const DEFAULT_OUTPUT_FORMAT = 'jpeg';
+
+// EXIF date format, e.g. "1968:05:04 10:11:12"
+const EXIF_DATE = /^\d{4}:\d{2}:\d{2} \d{2}:\d{2}:\d{2}$/;
+
+const isSupported = (format) => Boolean(sharp.format[format.codec]?.output?.buffer);
+
+// Helper function to describe the formats for clients (everything except the encoder)
+export function describeOutputFormats() {
+  return Object.entries(OUTPUT_FORMATS).map(([id, format]) => ({
+    id,
+    label: format.label,
+    extension: format.extension,
+    contentType: format.contentType,
+    quality: format.quality || null,
+    keepsCaptureDate: format.keepsCaptureDate !== false,
+    supported: isSupported(format)
+  }));
+}
+
+// Helper function to validate the requested output options.
+// A format this sharp build cannot encode falls back to JPEG rather than failing the job.
+export function resolveOutputOptions({ format, quality, keepMetadata, captureDate } = {}) {
+  const requested = format || DEFAULT_OUTPUT_FORMAT;
+  if (!OUTPUT_FORMATS[requested]) {
+    throw new Error(`Unknown output format "${requested}". Expected one of: ${Object.keys(OUTPUT_FORMATS).join(', ')}`);
+  }
+
+  const id = isSupported(OUTPUT_FORMATS[requested]) ? requested : DEFAULT_OUTPUT_FORMAT;
+  const spec = OUTPUT_FORMATS[id].quality;
+  const value = Number(quality);
+
+  return {
+    format: id,
+    requestedFormat: requested,
+    quality: spec
+      ? (Number.isFinite(value) ? Math.round(Math.min(spec.max, Math.max(spec.min, value))) : spec.default)
+      : null,
+    keepMetadata: keepMetadata === true || keepMetadata === 'true',
+    captureDate: typeof captureDate === 'string' && EXIF_DATE.test(captureDate) ? captureDate : null
+  };
+}
+
+// Helper function to encode a pipeline in the chosen format.
+// `iccPath` is a file holding the original color profile; pixels are converted into it.
+export function encodeOutput(pipeline, output, { iccPath } = {}) {
+  const format = OUTPUT_FORMATS[output.format];
+
+  if (output.keepMetadata) {
+    const metadata = {};
+    if (iccPath) {
+      metadata.icc = iccPath;
+    }
+    if (output.captureDate) {
+      // IFD0 holds the file date, IFD2 (the EXIF sub-IFD) the capture date
+      metadata.exif = {
+        IFD0: { DateTime: output.captureDate },
+        IFD2: { DateTimeOriginal: output.captureDate, DateTimeDigitized: output.captureDate }
+      };
+    }
+    pipeline = pipeline.withMetadata(metadata);
+  }
+
+  return format.encode(pipeline, output);
+}
+
+// Helper function to map a stored file's extension back to its content type
+export function contentTypeForFile(filename) {
+  const extension = filename.slice(filename.lastIndexOf('.')).toLowerCase();
+  const format = Object.values(OUTPUT_FORMATS).find((item) => item.extension === extension);
+  return format ? format.contentType : 'application/octet-stream';
+}
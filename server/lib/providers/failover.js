@@ -0,0 +1,128 @@
+import { createCircuitBreaker } from '../circuit-breaker.js';
+
+// Wraps an ordered list of models, each backed by its own provider instance, behind the
+// regular provider interface. A call goes to the preferred model (or the first one), retries
+// retryable failures with exponential backoff, and fails over to the next model in the list.
+// Models whose circuit breaker is open are skipped until their cooldown has passed.
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Helper function to pick the delay before the next retry: the server's Retry-After when it
+// sent one, otherwise exponential backoff with jitter
+function backoffDelay(error, retry, { baseDelayMs, maxDelayMs }) {
+  if (Number.isFinite(error.retryAfterMs)) {
+    return Math.min(maxDelayMs, error.retryAfterMs);
+  }
+  const exponential = baseDelayMs * 2 ** retry;
+  return Math.min(maxDelayMs, exponential / 2 + Math.random() * exponential / 2);
+}
+
+// Helper function to describe a failed attempt in a few words for the final error message
+function describeFailure(attempt) {
+  if (attempt.outcome === 'skipped') return `${attempt.model} is paused after repeated failures`;
+  if (attempt.outcome === 'timeout') return `${attempt.model} timed out`;
+  return `${attempt.model} failed${attempt.status ? ` (${attempt.status})` : ''}`;
+}
+
+export function createFailoverProvider(candidates, {
+  retries = 2,
+  baseDelayMs = 1000,
+  maxDelayMs = 10 * 1000,
+  breaker = {}
+} = {}) {
+  if (candidates.length === 0) {
+    throw new Error('At least one restoration model must be configured');
+  }
+
+  const entries = candidates.map((candidate) => ({
+    ...candidate,
+    breaker: createCircuitBreaker(breaker)
+  }));
+  const byId = new Map(entries.map((entry) => [entry.id, entry]));
+
+  // Tries one model, retrying retryable failures while its circuit stays closed
+  async function tryModel(entry, request, attempts) {
+    for (let retry = 0; ; retry++) {
+      const startedAt = Date.now();
+      try {
+        const result = await entry.provider.analyzeImage(request);
+        entry.breaker.recordSuccess();
+        attempts.push({ model: entry.id, outcome: 'success', status: null, durationMs: Date.now() - startedAt });
+        return result;
+      } catch (error) {
+        // A cancelled request says nothing about the model
+        if (request.signal?.aborted) throw error;
+
+        entry.breaker.recordFailure();
+        attempts.push({
+          model: entry.id,
+          outcome: error.code === 'PROVIDER_TIMEOUT' ? 'timeout' : 'error',
+          status: error.status ?? null,
+          durationMs: Date.now() - startedAt
+        });
+        console.warn(`⚠️  ${entry.id} attempt ${retry + 1} failed: ${error.message}`);
+
+        if (!error.retryable || retry >= retries || !entry.breaker.canRequest()) {
+          throw error;
+        }
+        await sleep(backoffDelay(error, retry, { baseDelayMs, maxDelayMs }));
+      }
+    }
+  }
+
+  return {
+    name: [...new Set(entries.map((entry) => entry.provider.name))].join('+'),
+    model: entries[0].id,
+
+    hasModel(id) {
+      return byId.has(id);
+    },
+
+    // Configured models in failover order with their timeouts and circuit state
+    listModels() {
+      return entries.map((entry, index) => ({
+        id: entry.id,
+        provider: entry.provider.name,
+        timeoutMs: entry.timeoutMs ?? null,
+        default: index === 0,
+        ...entry.breaker.describe()
+      }));
+    },
+
+    // `model` moves that model to the front of the list; the others remain as fallbacks
+    async analyzeImage({ model, ...request }) {
+      const preferred = model ? byId.get(model) : null;
+      if (model && !preferred) {
+        const error = new Error(`Unknown model "${model}". Expected one of: ${[...byId.keys()].join(', ')}`);
+        error.code = 'UNKNOWN_MODEL';
+        throw error;
+      }
+
+      const order = preferred ? [preferred, ...entries.filter((entry) => entry !== preferred)] : entries;
+      const attempts = [];
+
+      for (const entry of order) {
+        if (!entry.breaker.canRequest()) {
+          attempts.push({ model: entry.id, outcome: 'skipped', status: null, durationMs: 0 });
+          continue;
+        }
+
+        try {
+          const result = await tryModel(entry, request, attempts);
+          return { ...result, requestedModel: model || null, attempts };
+        } catch (error) {
+          if (request.signal?.aborted) throw error;
+          // Already logged by tryModel, move on to the next model
+        }
+      }
+
+      const failures = [...new Map(attempts.map((attempt) => [attempt.model, attempt])).values()];
+      const error = new Error(
+        `The AI service is unavailable right now: ${failures.map(describeFailure).join(', ')}. Please try again in a minute.`
+      );
+      error.code = 'MODELS_UNAVAILABLE';
+      error.attempts = attempts;
+      throw error;
+    }
+  };
+}
@@ -0,0 +1,77 @@
+import { DEFAULT_OPENROUTER_MODEL, createOpenRouterProvider } from './openrouter.js';
+import { createMockProvider } from './mock.js';
+import { createFailoverProvider } from './failover.js';
+
+// Every restoration provider implements the same interface:
+//   name, model
+//   analyzeImage({ imageBase64, mimeType, prompt, referer, signal })
+//     -> { summary, plan, report, fallbacks, provider, model, usage }
+//   where aborting the optional `signal` cancels the call
+//   where usage is { promptTokens, completionTokens, totalTokens, cost }
+// Failed calls throw errors with a `code`, plus `status` and `retryable` for upstream failures.
+//
+// createRestorationProvider wraps the configured models in a failover provider, which adds
+//   listModels(), hasModel(id) and analyzeImage({ ..., model }) -> { ..., requestedModel, attempts }
+const PROVIDERS = {
+  openrouter: (env, { model, timeoutMs }) => createOpenRouterProvider({
+    // VITE_OPENROUTER_API_KEY is still read so older Vercel deployments keep working
+    apiKey: env.OPENROUTER_API_KEY || env.VITE_OPENROUTER_API_KEY,
+    model,
+    timeoutMs,
+    siteUrl: env.SITE_URL
+  }),
+  mock: () => createMockProvider()
+};
+
+export const PROVIDER_NAMES = Object.keys(PROVIDERS);
+
+// Helper function to parse one RESTORATION_MODELS entry: `[provider:]model[=timeoutSeconds]`.
+// Entries are OpenRouter models unless they name another provider; `mock` alone is the mock provider.
+function parseModelEntry(entry, defaultTimeoutMs) {
+  const [spec, seconds] = entry.split('=').map((part) => part.trim());
+  const timeoutMs = parseFloat(seconds) > 0 ? parseFloat(seconds) * 1000 : defaultTimeoutMs;
+
+  if (PROVIDERS[spec]) {
+    return { provider: spec, model: null, timeoutMs };
+  }
+  const prefix = spec.slice(0, spec.indexOf(':'));
+  if (PROVIDERS[prefix]) {
+    return { provider: prefix, model: spec.slice(prefix.length + 1), timeoutMs };
+  }
+  return { provider: 'openrouter', model: spec, timeoutMs };
+}
+
+// Helper function to pick the providers and models from configuration.
+// RESTORATION_PROVIDER selects one provider explicitly; otherwise OpenRouter is used when a key
+// is configured and the offline mock provider when it isn't. RESTORATION_MODELS lists the
+// models to fail over between, in order; without it OPENROUTER_MODEL is the only one.
+export function createRestorationProvider(env = process.env) {
+  const hasApiKey = Boolean(env.OPENROUTER_API_KEY || env.VITE_OPENROUTER_API_KEY);
+  const name = env.RESTORATION_PROVIDER || (hasApiKey ? 'openrouter' : 'mock');
+
+  if (!PROVIDERS[name]) {
+    throw new Error(`Unknown RESTORATION_PROVIDER "${name}". Expected one of: ${PROVIDER_NAMES.join(', ')}`);
+  }
+
+  const defaultTimeoutMs = (parseFloat(env.MODEL_TIMEOUT_SECONDS) || 60) * 1000;
+  const entries = name === 'mock'
+    ? [{ provider: 'mock', model: null, timeoutMs: defaultTimeoutMs }]
+    : (env.RESTORATION_MODELS || env.OPENROUTER_MODEL || DEFAULT_OPENROUTER_MODEL)
+      .split(',')
+      .filter((entry) => entry.trim())
+      .map((entry) => parseModelEntry(entry, defaultTimeoutMs));
+
+  const candidates = entries.map(({ provider: providerName, model, timeoutMs }) => {
+    const provider = PROVIDERS[providerName](env, { model: model || undefined, timeoutMs });
+    return { id: provider.model, provider, timeoutMs };
+  });
+
+  return createFailoverProvider(candidates, {
+    retries: parseInt(env.MODEL_RETRIES, 10) >= 0 ? parseInt(env.MODEL_RETRIES, 10) : 2,
+    baseDelayMs: parseInt(env.MODEL_RETRY_BASE_MS, 10) || 1000,
+    breaker: {
+      failureThreshold: parseInt(env.CIRCUIT_BREAKER_THRESHOLD, 10) || 3,
+      cooldownMs: (parseFloat(env.CIRCUIT_BREAKER_COOLDOWN_SECONDS) || 60) * 1000
+    }
+  });
+}
@@ -0,0 +1,118 @@
+import { normalizeRestorationPlan } from '../restoration-plan.js';
+import { normalizeDamageReport } from '../damage-report.js';
+
+// Canned analyses covering the most common kinds of damage
+const CANNED_ANALYSES = [
+  {
+    summary: 'Faded colour print with a warm yellow cast and flattened contrast. Restoring the tonal range and neutralising the cast.',
+    plan: {
+      exposure: 0.2,
+      whiteBalance: { temperature: -0.4, tint: 0 },
+      denoise: 0.1,
+      sharpen: 0.3,
+      contrast: { amount: 0.2, pivot: 0.5, autoLevels: true },
+      tone: 'color',
+      rotation: 0,
+      crop: null
+    },
+    report: {
+      damages: [
+        { type: 'fading', severity: 'moderate', description: 'Highlights and shadows have faded towards the middle tones', region: null },
+        { type: 'color-cast', severity: 'moderate', description: 'Yellow cast from aged paper and dyes', region: null },
+        { type: 'stain', severity: 'minor', description: 'Light water stain in the upper right corner', region: { left: 0.72, top: 0.04, width: 0.24, height: 0.2 } }
+      ],
+      estimatedEra: '1970s',
+      medium: 'Chromogenic color print',
+      recommendedActions: [
+        'Store the original away from light to slow further fading',
+        'Rescan at 600 dpi or higher if a larger print is planned'
+      ]
+    }
+  },
+  {
+    summary: 'Black and white print with scratches, dust specks and visible grain. Removing specks and grain, then recovering detail.',
+    plan: {
+      exposure: 0,
+      whiteBalance: { temperature: 0, tint: 0 },
+      denoise: 0.6,
+      sharpen: 0.5,
+      contrast: { amount: 0.15, pivot: 0.5, autoLevels: false },
+      tone: 'grayscale',
+      rotation: 0,
+      crop: null
+    },
+    report: {
+      damages: [
+        { type: 'scratch', severity: 'severe', description: 'Long diagonal scratch across the left half', region: { left: 0.08, top: 0.15, width: 0.4, height: 0.6 } },
+        { type: 'dust', severity: 'minor', description: 'Dust specks scattered over the sky', region: { left: 0.1, top: 0.02, width: 0.8, height: 0.3 } },
+        { type: 'crease', severity: 'moderate', description: 'Fold line near the bottom edge', region: { left: 0, top: 0.82, width: 1, height: 0.08 } },
+        { type: 'noise', severity: 'minor', description: 'Film grain visible in flat areas', region: null }
+      ],
+      estimatedEra: '1940s to 1950s',
+      medium: 'Black and white silver gelatin print',
+      recommendedActions: [
+        'Mark the long scratch with the damage brush so it is inpainted',
+        'Flatten the print under weight before rescanning to reduce the crease'
+      ]
+    }
+  },
+  {
+    summary: 'Underexposed snapshot with a blue cast and soft focus. Brightening, warming and sharpening.',
+    plan: {
+      exposure: 0.6,
+      whiteBalance: { temperature: 0.3, tint: 0.1 },
+      denoise: 0.3,
+      sharpen: 0.6,
+      contrast: { amount: 0.1, pivot: 0.4, autoLevels: false },
+      tone: 'color',
+      rotation: 0,
+      crop: null
+    },
+    report: {
+      damages: [
+        { type: 'blur', severity: 'moderate', description: 'Soft focus, most visible on faces', region: { left: 0.3, top: 0.2, width: 0.4, height: 0.45 } },
+        { type: 'color-cast', severity: 'minor', description: 'Blue cast from indoor lighting', region: null }
+      ],
+      estimatedEra: '1990s',
+      medium: 'Color snapshot from a compact film camera',
+      recommendedActions: [
+        'Use the Portrait friendly mode to keep skin tones natural',
+        'Fine detail lost to blur cannot be fully recovered'
+      ]
+    }
+  }
+];
+
+// FNV-1a hash of the image data, so the same photo always gets the same canned analysis
+function hashImage(imageBase64) {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < imageBase64.length; i++) {
+    hash ^= imageBase64.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Offline restoration provider: no network, no API key, deterministic results
+export function createMockProvider() {
+  return {
+    name: 'mock',
+    model: 'mock/canned-analysis',
+
+    async analyzeImage({ imageBase64 = '' }) {
+      const canned = CANNED_ANALYSES[hashImage(imageBase64) % CANNED_ANALYSES.length];
+      const { plan, fallbacks } = normalizeRestorationPlan(canned.plan);
+
+      return {
+        summary: canned.summary,
+        plan,
+        report: normalizeDamageReport(canned.report),
+        fallbacks,
+        provider: 'mock',
+        model: 'mock/canned-analysis',
+        // Nothing is billed for canned analyses
+        usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0 }
+      };
+    }
+  };
+}
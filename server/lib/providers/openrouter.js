@@ -0,0 +1,144 @@
+import { RESTORATION_PLAN_SCHEMA, parseRestorationResponse } from '../restoration-plan.js';
+
+const OPENROUTER_API_URL = 'https://openrouter.ai/api/v1/chat/completions';
+
+export const DEFAULT_OPENROUTER_MODEL = 'anthropic/claude-3.5-sonnet';
+
+// Rate limits and upstream outages are worth retrying; anything else fails over straight away
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+const STATUS_MESSAGES = {
+  401: 'OpenRouter rejected the API key',
+  402: 'OpenRouter account is out of credits',
+  408: 'OpenRouter request timed out',
+  429: 'OpenRouter rate limit reached'
+};
+
+const SYSTEM_PROMPT = `You are an expert in photo restoration and enhancement. Your task is to:
+1. Analyze the provided image for damage, fading, scratches, color casts or quality issues
+2. Decide which corrections will restore it: exposure, white balance, noise reduction,
+   sharpening, contrast, tone (color, grayscale or sepia), straightening and cropping
+3. Express those corrections as numbers, using neutral values for anything that needs no change
+4. Report each kind of damage with its severity and where it is, estimate when the photo was
+   taken and on what medium, and recommend follow-up actions
+
+Reply with a single JSON object and nothing else. It must follow this JSON schema:
+${JSON.stringify(RESTORATION_PLAN_SCHEMA)}`;
+
+// Helper function to convert OpenRouter's `usage` field (requested with usage accounting on)
+// into token counts and the cost in USD
+function normalizeUsage(usage) {
+  const count = (value) => (Number.isFinite(value) && value > 0 ? Math.round(value) : 0);
+  return {
+    promptTokens: count(usage?.prompt_tokens),
+    completionTokens: count(usage?.completion_tokens),
+    totalTokens: count(usage?.total_tokens),
+    cost: Number.isFinite(usage?.cost) ? usage.cost : 0
+  };
+}
+
+// Helper function to turn a failed response into a short error, keeping OpenRouter's own
+// message but not the raw JSON body. `retryable` and `retryAfterMs` drive the failover logic.
+async function responseError(response) {
+  let detail = '';
+  try {
+    const data = JSON.parse(await response.text());
+    detail = data?.error?.message || '';
+  } catch {
+    // Not JSON, the status code has to do
+  }
+
+  const summary = STATUS_MESSAGES[response.status] ||
+    (response.status >= 500 ? 'OpenRouter is unavailable' : 'OpenRouter request failed');
+  const error = new Error(`${summary} (${response.status})${detail ? `: ${detail}` : ''}`);
+  error.code = 'PROVIDER_ERROR';
+  error.status = response.status;
+  error.retryable = RETRYABLE_STATUSES.has(response.status);
+
+  const retryAfter = parseFloat(response.headers.get('retry-after'));
+  if (Number.isFinite(retryAfter)) {
+    error.retryAfterMs = retryAfter * 1000;
+  }
+  return error;
+}
+
+// Restoration provider backed by a vision model on OpenRouter
+export function createOpenRouterProvider({ apiKey, model = DEFAULT_OPENROUTER_MODEL, timeoutMs = 60 * 1000, siteUrl }) {
+  if (!apiKey) {
+    throw new Error('OPENROUTER_API_KEY is not set in environment variables');
+  }
+
+  return {
+    name: 'openrouter',
+    model,
+
+    async analyzeImage({ imageBase64, mimeType = 'image/jpeg', prompt, referer, signal }) {
+      const userText = [
+        prompt,
+        'Please analyze this photo and reply with a JSON restoration plan and damage report. What damage do you see, where is it and how should it be fixed?'
+      ].filter(Boolean).join(' ');
+
+      try {
+        const response = await fetch(OPENROUTER_API_URL, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${apiKey}`,
+            'HTTP-Referer': referer || siteUrl || 'http://localhost:3001',
+            'X-Title': 'Picture Repair App - AI Photo Restoration'
+          },
+          signal: signal ? AbortSignal.any([AbortSignal.timeout(timeoutMs), signal]) : AbortSignal.timeout(timeoutMs),
+          body: JSON.stringify({
+            model,
+            messages: [
+              { role: 'system', content: SYSTEM_PROMPT },
+              {
+                role: 'user',
+                content: [
+                  { type: 'text', text: userText },
+                  { type: 'image_url', image_url: { url: `data:${mimeType};base64,${imageBase64}` } }
+                ]
+              }
+            ],
+            max_tokens: 1500,
+            temperature: 0.2,
+            usage: { include: true }
+          })
+        });
+
+        if (!response.ok) {
+          throw await responseError(response);
+        }
+
+        const data = await response.json();
+        if (!data.choices || !data.choices[0] || !data.choices[0].message) {
+          throw new Error('Invalid API response format');
+        }
+
+        return {
+          ...parseRestorationResponse(data.choices[0].message.content),
+          provider: 'openrouter',
+          model,
+          usage: normalizeUsage(data.usage)
+        };
+      } catch (error) {
+        if (error.code === 'PROVIDER_ERROR') throw error;
+        // Cancelled by the caller (the job was cancelled)
+        if (signal?.aborted) throw error;
+
+        if (error.name === 'TimeoutError') {
+          const timeout = new Error(`${model} did not answer within ${Math.round(timeoutMs / 1000)}s`);
+          timeout.code = 'PROVIDER_TIMEOUT';
+          timeout.retryable = true;
+          throw timeout;
+        }
+
+        // Network failures are retried; a malformed answer goes to the next model instead
+        const failed = new Error(`AI processing failed: ${error.message}`);
+        failed.code = 'PROVIDER_ERROR';
+        failed.retryable = error instanceof TypeError;
+        throw failed;
+      }
+    }
+  };
+}
@@ -0,0 +1,238 @@
+import sharp from 'sharp';
+
+// Objective image quality metrics, used to check that a restoration actually helped.
+// The result is measured with as many pixels as the original's analysis copy, at its own aspect
+// ratio, so upscaled, cropped and rotated results compare fairly.
+
+const ANALYSIS_EDGE = 1024;
+const HISTOGRAM_BINS = 64;
+
+// A luminance this close to either end of the range counts as clipped
+const CLIP_LOW = 2;
+const CLIP_HIGH = 253;
+
+// Noise is measured in this fraction of the image with the least structure
+const FLAT_FRACTION = 0.1;
+// Gradient histogram used to find the flattest pixels: 1/16 steps up to 64 levels
+const GRADIENT_STEPS = 16;
+const GRADIENT_BINS = 64 * GRADIENT_STEPS;
+
+const round = (value, digits = 4) => Number(value.toFixed(digits));
+const clamp01 = (value) => Math.min(1, Math.max(0, value));
+
+// Direction of improvement for every metric; colorfulness depends on the intended tone,
+// so it is reported but never counts towards the score
+export const QUALITY_METRICS = {
+  sharpness: { label: 'Sharpness (Laplacian variance)', better: 'higher' },
+  noise: { label: 'Noise (σ in flat areas)', better: 'lower' },
+  dynamicRange: { label: 'Dynamic range', better: 'higher' },
+  colorfulness: { label: 'Colorfulness', better: null },
+  clippedHighlights: { label: 'Clipped highlights', better: 'lower' },
+  clippedShadows: { label: 'Clipped shadows', better: 'lower' },
+  entropy: { label: 'Entropy (bits)', better: 'higher' }
+};
+
+// How much each aspect counts towards the score. Restoration modes bring their own goal:
+// a denoise trades a little detail for less grain, fade recovery is about the tonal range.
+export const DEFAULT_QUALITY_GOAL = { dynamicRange: 0.4, detail: 0.3, noise: 0.3 };
+
+// Helper function to find the value below which `fraction` of the histogram lies
+function percentile(histogram, total, fraction) {
+  const target = total * fraction;
+  let count = 0;
+  for (let value = 0; value < histogram.length; value++) {
+    count += histogram[value];
+    if (count >= target) return value;
+  }
+  return histogram.length - 1;
+}
+
+function variance(sum, sumOfSquares, count) {
+  const mean = sum / count;
+  return Math.max(0, sumOfSquares / count - mean * mean);
+}
+
+// Helper function to find the size with at most `pixels` pixels and the image's own aspect ratio
+async function sizeForPixels(input, pixels) {
+  const { width, height, orientation } = await sharp(input).metadata();
+  // EXIF orientations 5-8 swap width and height once the image is rotated upright
+  const [uprightWidth, uprightHeight] = orientation >= 5 ? [height, width] : [width, height];
+  const scale = Math.min(1, Math.sqrt(pixels / (uprightWidth * uprightHeight)));
+  return {
+    width: Math.max(1, Math.round(uprightWidth * scale)),
+    height: Math.max(1, Math.round(uprightHeight * scale))
+  };
+}
+
+// Measures sharpness, noise, dynamic range, colorfulness, clipping and histograms of an image.
+// Pass `maxPixels` to measure at most that many pixels instead of the default analysis size; the
+// image keeps its aspect ratio and is never enlarged.
+export async function measureImage(input, { maxPixels } = {}) {
+  const size = maxPixels ? await sizeForPixels(input, maxPixels) : { width: ANALYSIS_EDGE, height: ANALYSIS_EDGE };
+  const image = sharp(input)
+    .rotate()
+    .resize({ ...size, fit: 'inside', withoutEnlargement: true })
+    .removeAlpha()
+    .toColourspace('srgb');
+
+  const [{ data, info }, stats] = await Promise.all([
+    image.clone().raw().toBuffer({ resolveWithObject: true }),
+    image.clone().greyscale().stats()
+  ]);
+
+  const { width, height, channels } = info;
+  const pixels = width * height;
+  const luma = new Float32Array(pixels);
+  const lumaHistogram = new Uint32Array(256);
+  const histograms = {
+    r: new Array(HISTOGRAM_BINS).fill(0),
+    g: new Array(HISTOGRAM_BINS).fill(0),
+    b: new Array(HISTOGRAM_BINS).fill(0),
+    luminance: new Array(HISTOGRAM_BINS).fill(0)
+  };
+  const binOf = (value) => Math.min(HISTOGRAM_BINS - 1, Math.floor(value * HISTOGRAM_BINS / 256));
+
+  // Colorfulness by Hasler and Süsstrunk, from the red-green and yellow-blue opponent channels
+  let rgSum = 0, rgSquares = 0, ybSum = 0, ybSquares = 0;
+
+  for (let i = 0, p = 0; p < pixels; i += channels, p++) {
+    const r = data[i];
+    const g = channels >= 3 ? data[i + 1] : r;
+    const b = channels >= 3 ? data[i + 2] : r;
+    const y = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+    luma[p] = y;
+    lumaHistogram[Math.round(y)]++;
+
+    histograms.r[binOf(r)]++;
+    histograms.g[binOf(g)]++;
+    histograms.b[binOf(b)]++;
+    histograms.luminance[binOf(y)]++;
+
+    const rg = r - g;
+    const yb = 0.5 * (r + g) - b;
+    rgSum += rg;
+    rgSquares += rg * rg;
+    ybSum += yb;
+    ybSquares += yb * yb;
+  }
+
+  // Sharpness is the variance of the Laplacian. The smoothed copy (3x3 binomial blur) is used
+  // for noise below
+  let lapSum = 0, lapSquares = 0;
+  const smoothed = new Float32Array(pixels);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const p = y * width + x;
+      const up = luma[p - width], down = luma[p + width], left = luma[p - 1], right = luma[p + 1];
+      const laplacian = up + down + left + right - 4 * luma[p];
+      lapSum += laplacian;
+      lapSquares += laplacian * laplacian;
+
+      const corners = luma[p - width - 1] + luma[p - width + 1] + luma[p + width - 1] + luma[p + width + 1];
+      smoothed[p] = (4 * luma[p] + 2 * (up + down + left + right) + corners) / 16;
+    }
+  }
+  const inner = Math.max(1, (width - 2) * (height - 2));
+  const noise = estimateNoise(luma, smoothed, width, height);
+
+  const rgMean = rgSum / pixels;
+  const ybMean = ybSum / pixels;
+  const colorfulness = Math.sqrt(variance(rgSum, rgSquares, pixels) + variance(ybSum, ybSquares, pixels)) +
+    0.3 * Math.sqrt(rgMean * rgMean + ybMean * ybMean);
+
+  let clippedShadows = 0;
+  let clippedHighlights = 0;
+  for (let value = 0; value < 256; value++) {
+    if (value <= CLIP_LOW) clippedShadows += lumaHistogram[value];
+    if (value >= CLIP_HIGH) clippedHighlights += lumaHistogram[value];
+  }
+
+  const normalize = (histogram) => histogram.map((count) => round(count / pixels));
+
+  return {
+    width,
+    height,
+    sharpness: round(variance(lapSum, lapSquares, inner), 2),
+    noise: round(noise, 3),
+    // Spread between the darkest and brightest 0.5% of pixels
+    dynamicRange: round((percentile(lumaHistogram, pixels, 0.995) - percentile(lumaHistogram, pixels, 0.005)) / 255),
+    colorfulness: round(colorfulness, 2),
+    clippedHighlights: round(clippedHighlights / pixels),
+    clippedShadows: round(clippedShadows / pixels),
+    entropy: round(stats.entropy, 3),
+    histograms: {
+      r: normalize(histograms.r),
+      g: normalize(histograms.g),
+      b: normalize(histograms.b),
+      luminance: normalize(histograms.luminance)
+    }
+  };
+}
+
+// Helper function to estimate noise as the spread of the residual against the smoothed copy,
+// in the flattest FLAT_FRACTION of the unclipped pixels. There is no detail there for
+// sharpening to boost, and a median filter's flat patches count as less noise, not more.
+function estimateNoise(luma, smoothed, width, height) {
+  const gradientBin = (p) => {
+    const gx = smoothed[p + 1] - smoothed[p - 1];
+    const gy = smoothed[p + width] - smoothed[p - width];
+    return Math.min(GRADIENT_BINS - 1, Math.floor(Math.hypot(gx, gy) * GRADIENT_STEPS));
+  };
+  const counts = (p) => luma[p] > CLIP_LOW && luma[p] < CLIP_HIGH;
+
+  const gradients = new Uint32Array(GRADIENT_BINS);
+  let candidates = 0;
+  for (let y = 2; y < height - 2; y++) {
+    for (let x = 2; x < width - 2; x++) {
+      const p = y * width + x;
+      if (!counts(p)) continue;
+      gradients[gradientBin(p)]++;
+      candidates++;
+    }
+  }
+  if (candidates === 0) return 0;
+
+  const threshold = percentile(gradients, candidates, FLAT_FRACTION);
+  let sum = 0, sumOfSquares = 0, count = 0;
+  for (let y = 2; y < height - 2; y++) {
+    for (let x = 2; x < width - 2; x++) {
+      const p = y * width + x;
+      if (!counts(p) || gradientBin(p) > threshold) continue;
+      const residual = luma[p] - smoothed[p];
+      sum += residual;
+      sumOfSquares += residual * residual;
+      count++;
+    }
+  }
+  return Math.sqrt(variance(sum, sumOfSquares, count));
+}
+
+// Combines the metrics into a 0-100 score: tonal range and detail count for the image,
+// noise and clipped pixels against it, weighted by the restoration's goal
+export function qualityScore(metrics, goal = DEFAULT_QUALITY_GOAL) {
+  const detail = clamp01(Math.log10(1 + metrics.sharpness) / 4);
+  const noise = clamp01(metrics.noise / 8);
+  const clipped = clamp01(metrics.clippedHighlights + metrics.clippedShadows);
+  const weights = goal.dynamicRange + goal.detail + goal.noise;
+
+  const value = (goal.dynamicRange * metrics.dynamicRange + goal.detail * detail + goal.noise * (1 - noise)) / weights;
+  return round(100 * clamp01(value - 0.5 * clipped), 1);
+}
+
+// Helper function to measure both images and compare their scores.
+// `tolerance` is how many points the result may lose before it counts as worse; `goal`
+// weighs the metrics for what the selected restoration mode sets out to do.
+export async function compareQuality(original, restored, { tolerance = 1, goal = DEFAULT_QUALITY_GOAL } = {}) {
+  const before = await measureImage(original);
+  const after = await measureImage(restored, { maxPixels: before.width * before.height });
+  const score = { before: qualityScore(before, goal), after: qualityScore(after, goal) };
+  score.delta = round(score.after - score.before, 1);
+
+  const worse = Object.keys(QUALITY_METRICS).filter((name) => {
+    const { better } = QUALITY_METRICS[name];
+    if (!better) return false;
+    return better === 'higher' ? after[name] < before[name] : after[name] > before[name];
+  });
+
+  return { before, after, score, worse, passed: score.delta >= -tolerance };
+}
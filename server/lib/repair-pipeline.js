@@ -0,0 +1,152 @@
+import sharp from 'sharp';
+import fs from 'fs/promises';
+import { applyRestorationPlan } from './image-pipeline.js';
+import { DEFAULT_IMAGE_LIMITS, imageValidationError, validateImageFile } from './image-validation.js';
+import { encodeOutput } from './output-formats.js';
+import { compareQuality } from './quality-metrics.js';
+import { applyRestorationMode, modeQualityGoal } from './restoration-modes.js';
+
+// The steps of a repair shared by the server's repair jobs and the picture-repair CLI:
+// validate the image, have the AI analyze a downsized copy, apply its plan with sharp and
+// refuse results that score worse than the original. Caching, billing and where the files
+// live are up to the caller.
+
+// Helper function to read the image limits and the quality gate from configuration, so the
+// server and the CLI apply the same ones
+export function repairSettingsFromEnv(env = process.env) {
+  return {
+    // Uploads above these limits are rejected from their headers, before being decoded
+    imageLimits: {
+      ...DEFAULT_IMAGE_LIMITS,
+      maxDimension: parseInt(env.MAX_IMAGE_DIMENSION, 10) || DEFAULT_IMAGE_LIMITS.maxDimension,
+      maxPixels: parseInt(env.MAX_IMAGE_PIXELS, 10) || DEFAULT_IMAGE_LIMITS.maxPixels
+    },
+    // Results whose quality score drops by more than `tolerance` points are refused
+    qualityGate: {
+      enabled: env.QUALITY_GATE !== 'off',
+      tolerance: parseFloat(env.QUALITY_GATE_TOLERANCE) || 1
+    }
+  };
+}
+
+// Helper function to validate an image by its content, then decode it once so files that are
+// only broken deep inside the image data are rejected before any work is done
+export async function validateImage(filePath, { limits = DEFAULT_IMAGE_LIMITS, formats } = {}) {
+  const image = await validateImageFile(filePath, { limits, formats });
+
+  try {
+    await sharp(filePath, { limitInputPixels: limits.maxPixels }).stats();
+  } catch (error) {
+    if (image.format === 'heic') {
+      throw imageValidationError(
+        'UNSUPPORTED_FORMAT',
+        'HEIC photos can not be decoded by this server, convert them to JPEG first'
+      );
+    }
+    throw imageValidationError('CORRUPTED_IMAGE', `The image could not be decoded: ${error.message}`);
+  }
+
+  return image;
+}
+
+// Helper function to convert image to base64
+async function imageToBase64(imagePath) {
+  try {
+    // Optimize image before processing
+    const optimizedBuffer = await sharp(imagePath)
+      .resize(1024, 1024, {
+        fit: 'inside',
+        withoutEnlargement: true
+      })
+      .jpeg({ quality: 85 })
+      .toBuffer();
+
+    return optimizedBuffer.toString('base64');
+  } catch (error) {
+    throw new Error(`Failed to process image: ${error.message}`);
+  }
+}
+
+// Helper function to have the provider analyze a downsized copy of the image.
+// Returns the provider's result, including the models it tried (`attempts`).
+// Aborting `signal` cancels the request to the model.
+export async function analyzeImage(provider, imagePath, { prompt, model, signal }) {
+  const imageBase64 = await imageToBase64(imagePath);
+  return provider.analyzeImage({ imageBase64, prompt, model, signal });
+}
+
+// Helper function to save the image's embedded color profile so it can be re-applied to the output
+async function extractIccProfile(inputPath) {
+  const { icc } = await sharp(inputPath).metadata();
+  if (!icc) return null;
+
+  const iccPath = `${inputPath}.icc`;
+  await fs.writeFile(iccPath, icc);
+  return iccPath;
+}
+
+// Helper function to apply the AI restoration plan, adjusted by the selected mode, to the image
+// and write it to `outputPath` in the requested output format
+export async function renderRestoration(inputPath, analysisResult, { maskPath, mode, output, outputPath }) {
+  let iccPath = null;
+
+  try {
+    // Every field of the plan maps onto a sharp operation; missing or invalid fields were
+    // already replaced by safe defaults when the AI response was parsed
+    const { plan, options } = applyRestorationMode(analysisResult.plan, mode);
+    const { pipeline, inpaintedPixels } = await applyRestorationPlan(inputPath, plan, {
+      maxSize: 2048,
+      ...options,
+      mask: maskPath
+    });
+    if (output.keepMetadata) {
+      iccPath = await extractIccProfile(inputPath);
+    }
+    await encodeOutput(pipeline, output, { iccPath }).toFile(outputPath);
+
+    return {
+      analysis: analysisResult.summary,
+      report: analysisResult.report,
+      plan,
+      planFallbacks: analysisResult.fallbacks,
+      provider: analysisResult.provider,
+      model: analysisResult.model,
+      mode: { id: mode.id, label: mode.label, parameters: mode.parameters },
+      output: { ...output, keptColorProfile: Boolean(iccPath) },
+      inpaintedPixels
+    };
+  } catch (error) {
+    throw new Error(`Image processing failed: ${error.message}`);
+  } finally {
+    if (iccPath) {
+      await fs.unlink(iccPath).catch((cleanupError) => console.error('Cleanup error:', cleanupError));
+    }
+  }
+}
+
+// Helper function to measure the original and the result the same way and refuse restorations
+// that made the photo worse for what `mode` sets out to do: the result file is deleted and the
+// error has code QUALITY_REGRESSION. Returns the metrics of both images otherwise.
+export async function checkQuality(inputPath, outputPath, { enabled = true, tolerance = 1, mode } = {}) {
+  const metrics = await compareQuality(inputPath, outputPath, {
+    tolerance,
+    goal: mode ? modeQualityGoal(mode) : undefined
+  });
+
+  if (enabled && !metrics.passed) {
+    await fs.unlink(outputPath).catch((cleanupError) => console.error('Cleanup error:', cleanupError));
+    const error = new Error(
+      `The restored image scored ${metrics.score.after} against ${metrics.score.before} for the original ` +
+      `(worse: ${metrics.worse.join(', ') || 'overall'}), so it was discarded. Try another restoration mode.`
+    );
+    error.code = 'QUALITY_REGRESSION';
+    throw error;
+  }
+
+  return {
+    before: metrics.before,
+    after: metrics.after,
+    score: metrics.score,
+    worse: metrics.worse
+  };
+}
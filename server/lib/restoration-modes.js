@@ -0,0 +1,213 @@
+import { DEFAULT_QUALITY_GOAL } from './quality-metrics.js';
+
+// Named restoration modes. Each mode adds instructions to the AI prompt, declares its tunable
+// parameters (rendered as sliders in the UI) and adjusts the AI plan and pipeline options.
+// `qualityGoal` weighs the quality metrics for what the mode sets out to do (see quality-metrics.js).
+
+const clamp01 = (value) => Math.min(1, Math.max(0, value));
+
+const strengthParameter = (defaultValue, label = 'Strength') => ({
+  label, min: 0, max: 1, step: 0.05, default: defaultValue
+});
+
+// Sepia at full warmth, a cool selenium-like tone at none
+const tintColor = (warmth, strength) => {
+  const warm = { r: 112, g: 66, b: 20 };
+  const cool = { r: 60, g: 75, b: 105 };
+  const grey = 80;
+  const mix = (channel) => {
+    const color = cool[channel] + (warm[channel] - cool[channel]) * warmth;
+    return Math.round(grey + (color - grey) * strength);
+  };
+  return { r: mix('r'), g: mix('g'), b: mix('b') };
+};
+
+export const RESTORATION_MODES = {
+  auto: {
+    label: 'Auto restore',
+    description: 'Let the AI decide which corrections the photo needs',
+    prompt: 'Restore this photo, fix any damage, enhance colors, and improve quality.',
+    parameters: {
+      strength: strengthParameter(1)
+    },
+    // Scale every correction of the AI plan towards neutral
+    adjust: (plan, { strength }) => ({
+      plan: {
+        ...plan,
+        exposure: plan.exposure * strength,
+        whiteBalance: {
+          temperature: plan.whiteBalance.temperature * strength,
+          tint: plan.whiteBalance.tint * strength
+        },
+        denoise: plan.denoise * strength,
+        sharpen: plan.sharpen * strength,
+        contrast: { ...plan.contrast, amount: plan.contrast.amount * strength }
+      }
+    })
+  },
+
+  'scratch-removal': {
+    label: 'Scratch & dust removal',
+    description: 'Remove scratches, dust specks and small blemishes',
+    prompt: 'This photo has scratches and dust. Focus the plan on removing specks and fine scratches while keeping detail.',
+    parameters: {
+      strength: strengthParameter(0.6),
+      detail: strengthParameter(0.3, 'Detail recovery')
+    },
+    qualityGoal: { dynamicRange: 0.35, detail: 0.25, noise: 0.4 },
+    adjust: (plan, { strength, detail }) => ({
+      plan: {
+        ...plan,
+        denoise: Math.max(plan.denoise, strength),
+        sharpen: detail
+      }
+    })
+  },
+
+  'fade-recovery': {
+    label: 'Fade recovery',
+    description: 'Bring back contrast and color in faded prints',
+    prompt: 'This photo has faded. Focus the plan on recovering contrast, black levels and color, and on removing the color cast of aged paper.',
+    parameters: {
+      strength: strengthParameter(0.6),
+      saturation: strengthParameter(0.5, 'Color boost')
+    },
+    qualityGoal: { dynamicRange: 0.6, detail: 0.2, noise: 0.2 },
+    adjust: (plan, { strength, saturation }) => ({
+      plan: {
+        ...plan,
+        contrast: {
+          ...plan.contrast,
+          autoLevels: strength > 0,
+          amount: Math.max(plan.contrast.amount, 0.4 * strength)
+        }
+      },
+      options: { saturation: 1 + saturation * 0.8 }
+    })
+  },
+
+  'sepia-tint': {
+    label: 'B&W to sepia / tint',
+    description: 'Tone a black and white photo, from cool selenium to warm sepia',
+    prompt: 'This is a black and white photo that will be toned. Focus the plan on exposure, contrast and damage; ignore color balance.',
+    parameters: {
+      strength: strengthParameter(0.7, 'Tint strength'),
+      warmth: strengthParameter(0.8, 'Warmth')
+    },
+    adjust: (plan, { strength, warmth }) => ({
+      plan: {
+        ...plan,
+        whiteBalance: { temperature: 0, tint: 0 },
+        tone: 'sepia'
+      },
+      options: { tintColor: tintColor(warmth, strength) }
+    })
+  },
+
+  denoise: {
+    label: 'Denoise',
+    description: 'Reduce film grain and scanner noise',
+    prompt: 'This photo is noisy or grainy. Focus the plan on noise reduction without losing edges.',
+    parameters: {
+      strength: strengthParameter(0.7),
+      detail: strengthParameter(0.2, 'Detail recovery')
+    },
+    qualityGoal: { dynamicRange: 0.3, detail: 0.3, noise: 0.4 },
+    adjust: (plan, { strength, detail }) => ({
+      plan: {
+        ...plan,
+        denoise: strength,
+        sharpen: Math.min(plan.sharpen, detail)
+      }
+    })
+  },
+
+  'upscale-2x': {
+    label: 'Upscale 2x',
+    description: 'Double the resolution of small prints and thumbnails',
+    prompt: 'This photo will be enlarged to twice its size. Keep sharpening moderate so enlarged edges do not halo.',
+    parameters: {
+      sharpen: strengthParameter(0.4, 'Sharpening')
+    },
+    qualityGoal: { dynamicRange: 0.3, detail: 0.4, noise: 0.3 },
+    adjust: (plan, { sharpen }) => ({
+      plan: { ...plan, sharpen },
+      options: { scale: 2, maxSize: 4096 }
+    })
+  },
+
+  portrait: {
+    label: 'Portrait friendly',
+    description: 'Gentle restoration that keeps skin smooth and tones warm',
+    prompt: 'This is a portrait. Keep skin tones natural and avoid harsh sharpening on faces.',
+    parameters: {
+      smoothing: strengthParameter(0.4, 'Skin smoothing'),
+      warmth: strengthParameter(0.3, 'Warmth')
+    },
+    qualityGoal: { dynamicRange: 0.4, detail: 0.25, noise: 0.35 },
+    adjust: (plan, { smoothing, warmth }) => ({
+      plan: {
+        ...plan,
+        denoise: Math.max(plan.denoise, smoothing * 0.5),
+        sharpen: Math.min(plan.sharpen, 0.2),
+        whiteBalance: {
+          ...plan.whiteBalance,
+          temperature: Math.min(1, plan.whiteBalance.temperature + warmth * 0.3)
+        }
+      }
+    })
+  }
+};
+
+export const DEFAULT_MODE = 'auto';
+
+// Helper function to describe the modes for clients (everything except the functions)
+export function describeRestorationModes() {
+  return Object.entries(RESTORATION_MODES).map(([id, mode]) => ({
+    id,
+    label: mode.label,
+    description: mode.description,
+    parameters: mode.parameters
+  }));
+}
+
+// Helper function to validate a requested mode and its parameters.
+// Unknown parameters are dropped and missing or out-of-range ones use the mode defaults.
+export function resolveRestorationMode(modeName = DEFAULT_MODE, rawParameters = {}) {
+  const mode = RESTORATION_MODES[modeName];
+  if (!mode) {
+    throw new Error(`Unknown restoration mode "${modeName}". Expected one of: ${Object.keys(RESTORATION_MODES).join(', ')}`);
+  }
+
+  const source = rawParameters && typeof rawParameters === 'object' ? rawParameters : {};
+  const parameters = {};
+  for (const [name, spec] of Object.entries(mode.parameters)) {
+    const value = Number(source[name]);
+    parameters[name] = Number.isFinite(value)
+      ? Math.min(spec.max, Math.max(spec.min, value))
+      : spec.default;
+  }
+
+  return { id: modeName, label: mode.label, prompt: mode.prompt, parameters };
+}
+
+// Helper function to look up how a mode's results are scored; modes without a goal of their
+// own use the default weights
+export function modeQualityGoal({ id }) {
+  return RESTORATION_MODES[id]?.qualityGoal ?? DEFAULT_QUALITY_GOAL;
+}
+
+// Helper function to combine the AI plan with the selected mode.
+// Returns the plan that will be applied plus extra pipeline options (scale, saturation, tint color).
+export function applyRestorationMode(plan, { id, parameters }) {
+  const { plan: adjusted, options = {} } = RESTORATION_MODES[id].adjust(plan, parameters);
+
+  return {
+    plan: {
+      ...adjusted,
+      denoise: clamp01(adjusted.denoise),
+      sharpen: clamp01(adjusted.sharpen)
+    },
+    options
+  };
+}
@@ -0,0 +1,199 @@
+import { DAMAGE_REPORT_SCHEMA, normalizeDamageReport } from './damage-report.js';
+
+// JSON schema the AI model is asked to follow when describing a restoration plan
+export const RESTORATION_PLAN_SCHEMA = {
+  type: 'object',
+  required: ['summary', 'plan', 'report'],
+  properties: {
+    summary: {
+      type: 'string',
+      description: 'Short human readable description of the damage and the planned fixes'
+    },
+    report: DAMAGE_REPORT_SCHEMA,
+    plan: {
+      type: 'object',
+      properties: {
+        exposure: {
+          type: 'number', minimum: -1.5, maximum: 1.5,
+          description: 'Exposure correction of shadows and midtones in stops (negative darkens, positive brightens); black and white points stay put'
+        },
+        whiteBalance: {
+          type: 'object',
+          properties: {
+            temperature: {
+              type: 'number', minimum: -1, maximum: 1,
+              description: 'Negative cools a yellow/red cast, positive warms a blue cast'
+            },
+            tint: {
+              type: 'number', minimum: -1, maximum: 1,
+              description: 'Negative removes a magenta cast, positive removes a green cast'
+            }
+          }
+        },
+        denoise: {
+          type: 'number', minimum: 0, maximum: 1,
+          description: 'Noise and grain reduction strength'
+        },
+        sharpen: {
+          type: 'number', minimum: 0, maximum: 1,
+          description: 'Sharpening amount'
+        },
+        contrast: {
+          type: 'object',
+          properties: {
+            amount: {
+              type: 'number', minimum: -0.5, maximum: 1,
+              description: 'Slope of the contrast curve around the pivot (0 leaves contrast unchanged)'
+            },
+            pivot: {
+              type: 'number', minimum: 0, maximum: 1,
+              description: 'Tone level the contrast curve pivots around (0.5 is mid grey)'
+            },
+            autoLevels: {
+              type: 'boolean',
+              description: 'Stretch the histogram to the full tonal range first, for faded photos'
+            }
+          }
+        },
+        tone: {
+          type: 'string', enum: ['color', 'grayscale', 'sepia'],
+          description: 'Output tone of the restored photo'
+        },
+        rotation: {
+          type: 'number', minimum: -180, maximum: 180,
+          description: 'Clockwise rotation in degrees to straighten the photo'
+        },
+        crop: {
+          type: ['object', 'null'],
+          description: 'Region to keep as fractions of the straightened image, or null to keep everything',
+          properties: {
+            left: { type: 'number', minimum: 0, maximum: 1 },
+            top: { type: 'number', minimum: 0, maximum: 1 },
+            width: { type: 'number', minimum: 0, maximum: 1 },
+            height: { type: 'number', minimum: 0, maximum: 1 }
+          }
+        }
+      }
+    }
+  }
+};
+
+// Safe defaults, used for any field the AI omits or gets wrong
+export const DEFAULT_RESTORATION_PLAN = {
+  exposure: 0,
+  whiteBalance: { temperature: 0, tint: 0 },
+  denoise: 0,
+  sharpen: 0.3,
+  contrast: { amount: 0, pivot: 0.5, autoLevels: false },
+  tone: 'color',
+  rotation: 0,
+  crop: null
+};
+
+const TONES = ['color', 'grayscale', 'sepia'];
+
+// Smallest crop we accept, as a fraction of each side, so a bad plan can't reduce the photo to a sliver
+const MIN_CROP_FRACTION = 0.2;
+
+const clampNumber = (value, min, max) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return undefined;
+  return Math.min(max, Math.max(min, value));
+};
+
+// Helper function to validate a raw plan field by field, falling back to defaults
+export function normalizeRestorationPlan(rawPlan) {
+  const fallbacks = [];
+  const source = rawPlan && typeof rawPlan === 'object' ? rawPlan : {};
+
+  const pickNumber = (field, value, min, max, fallback) => {
+    const clamped = clampNumber(value, min, max);
+    if (clamped === undefined) {
+      fallbacks.push(field);
+      return fallback;
+    }
+    return clamped;
+  };
+
+  const whiteBalance = source.whiteBalance && typeof source.whiteBalance === 'object' ? source.whiteBalance : {};
+  const contrast = source.contrast && typeof source.contrast === 'object' ? source.contrast : {};
+  const defaults = DEFAULT_RESTORATION_PLAN;
+
+  const plan = {
+    exposure: pickNumber('exposure', source.exposure, -1.5, 1.5, defaults.exposure),
+    whiteBalance: {
+      temperature: pickNumber('whiteBalance.temperature', whiteBalance.temperature, -1, 1, defaults.whiteBalance.temperature),
+      tint: pickNumber('whiteBalance.tint', whiteBalance.tint, -1, 1, defaults.whiteBalance.tint)
+    },
+    denoise: pickNumber('denoise', source.denoise, 0, 1, defaults.denoise),
+    sharpen: pickNumber('sharpen', source.sharpen, 0, 1, defaults.sharpen),
+    contrast: {
+      amount: pickNumber('contrast.amount', contrast.amount, -0.5, 1, defaults.contrast.amount),
+      pivot: pickNumber('contrast.pivot', contrast.pivot, 0, 1, defaults.contrast.pivot),
+      autoLevels: typeof contrast.autoLevels === 'boolean'
+        ? contrast.autoLevels
+        : (fallbacks.push('contrast.autoLevels'), defaults.contrast.autoLevels)
+    },
+    tone: TONES.includes(source.tone) ? source.tone : (fallbacks.push('tone'), defaults.tone),
+    rotation: pickNumber('rotation', source.rotation, -180, 180, defaults.rotation),
+    crop: normalizeCrop(source.crop, fallbacks)
+  };
+
+  return { plan, fallbacks };
+}
+
+function normalizeCrop(crop, fallbacks) {
+  if (crop === null || crop === undefined) return null;
+
+  const left = clampNumber(crop.left, 0, 1);
+  const top = clampNumber(crop.top, 0, 1);
+  const width = clampNumber(crop.width, 0, 1);
+  const height = clampNumber(crop.height, 0, 1);
+
+  if ([left, top, width, height].includes(undefined) ||
+      width < MIN_CROP_FRACTION || height < MIN_CROP_FRACTION) {
+    fallbacks.push('crop');
+    return null;
+  }
+
+  return {
+    left,
+    top,
+    width: Math.min(width, 1 - left),
+    height: Math.min(height, 1 - top)
+  };
+}
+
+// Helper function to pull the JSON plan out of the model's reply (which may be wrapped in prose or code fences)
+export function parseRestorationResponse(content) {
+  let parsed = null;
+
+  if (typeof content === 'string') {
+    const start = content.indexOf('{');
+    const end = content.lastIndexOf('}');
+    if (start !== -1 && end > start) {
+      try {
+        parsed = JSON.parse(content.slice(start, end + 1));
+      } catch {
+        parsed = null;
+      }
+    }
+  }
+
+  if (!parsed) {
+    const { plan } = normalizeRestorationPlan(null);
+    return {
+      summary: typeof content === 'string' ? content.trim() : '',
+      plan,
+      report: normalizeDamageReport(null),
+      fallbacks: ['plan']
+    };
+  }
+
+  const { plan, fallbacks } = normalizeRestorationPlan(parsed.plan);
+  return {
+    summary: typeof parsed.summary === 'string' ? parsed.summary : '',
+    plan,
+    report: normalizeDamageReport(parsed.report),
+    fallbacks
+  };
+}
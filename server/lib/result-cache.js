@@ -0,0 +1,285 @@
+import crypto from 'crypto';
+import { createReadStream } from 'fs';
+import fs from 'fs/promises';
+import path from 'path';
+
+// Content-addressed cache for AI analyses and processed images.
+// Analyses are keyed by the upload's hash and the prompt, results additionally by the mode
+// parameters, mask and output options, so repeating a request never calls the provider again.
+// The index is persisted as JSON; processed files are named after their result key.
+
+const INDEX_VERSION = 1;
+const SAVE_DELAY_MS = 1000;
+
+// Helper function to hash a file's contents without reading it into memory
+export function hashFile(filePath) {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash('sha256');
+    createReadStream(filePath)
+      .on('error', reject)
+      .on('data', (chunk) => hash.update(chunk))
+      .on('end', () => resolve(hash.digest('hex')));
+  });
+}
+
+// Helper function to derive a cache key from plain JSON data
+export function hashKey(value) {
+  return crypto.createHash('sha256').update(JSON.stringify(value)).digest('hex');
+}
+
+export function createResultCache({
+  indexPath,
+  filesDir,
+  sweepDirs = [],
+  ttlMs = 24 * 60 * 60 * 1000,
+  maxBytes = 500 * 1024 * 1024,
+  sweepIntervalMs = 10 * 60 * 1000
+}) {
+  let index = { version: INDEX_VERSION, analyses: {}, results: {} };
+  let saveTimer = null;
+  let sweepTimer = null;
+
+  const counters = {
+    analyses: { hits: 0, misses: 0 },
+    results: { hits: 0, misses: 0 },
+    evicted: 0,
+    expired: 0,
+    orphansRemoved: 0,
+    lastSweepAt: null
+  };
+
+  const writeIndex = async () => {
+    try {
+      // Write then rename so a crash never leaves a truncated index
+      const tmpPath = `${indexPath}.tmp`;
+      await fs.writeFile(tmpPath, JSON.stringify(index));
+      await fs.rename(tmpPath, indexPath);
+    } catch (error) {
+      console.error('Cache index save error:', error);
+    }
+  };
+
+  // Index writes are batched; `flush()` writes pending changes immediately
+  const save = () => {
+    if (saveTimer) return;
+    saveTimer = setTimeout(() => {
+      saveTimer = null;
+      writeIndex();
+    }, SAVE_DELAY_MS);
+    saveTimer.unref();
+  };
+
+  const touch = (entry) => {
+    entry.lastUsedAt = Date.now();
+    save();
+  };
+
+  const storedBytes = () =>
+    Object.values(index.results).reduce((total, entry) => total + entry.size, 0);
+
+  const removeResult = async (key) => {
+    const entry = index.results[key];
+    if (!entry) return;
+    delete index.results[key];
+    save();
+    await fs.unlink(path.join(filesDir, entry.filename)).catch((error) => {
+      if (error.code !== 'ENOENT') console.error('Cache cleanup error:', error);
+    });
+  };
+
+  // Helper function to evict the least recently used results until the cap is met.
+  // `keepKey` protects a result that was just stored and is about to be served.
+  const enforceCap = async (keepKey) => {
+    let total = storedBytes();
+    if (total <= maxBytes) return;
+
+    const byLastUse = Object.entries(index.results)
+      .sort(([, a], [, b]) => a.lastUsedAt - b.lastUsedAt);
+    for (const [key, entry] of byLastUse) {
+      if (total <= maxBytes) break;
+      if (key === keepKey) continue;
+      total -= entry.size;
+      await removeResult(key);
+      counters.evicted++;
+    }
+  };
+
+  // Helper function to delete files that no cache entry references once they are older than the TTL
+  // (uploads left behind by a crash, results written before the cache existed)
+  const removeOrphans = async (now) => {
+    const referenced = new Set(Object.values(index.results).map((entry) => entry.filename));
+
+    for (const dir of sweepDirs) {
+      const names = await fs.readdir(dir).catch(() => []);
+      for (const name of names) {
+        if (name.startsWith('.') || (dir === filesDir && referenced.has(name))) continue;
+
+        const filePath = path.join(dir, name);
+        try {
+          const stats = await fs.stat(filePath);
+          if (stats.isFile() && now - stats.mtimeMs > ttlMs) {
+            await fs.unlink(filePath);
+            counters.orphansRemoved++;
+          }
+        } catch (error) {
+          if (error.code !== 'ENOENT') console.error('Cache sweep error:', error);
+        }
+      }
+    }
+  };
+
+  const dirUsage = async (dir) => {
+    let bytes = 0;
+    let files = 0;
+    for (const name of await fs.readdir(dir).catch(() => [])) {
+      const stats = await fs.stat(path.join(dir, name)).catch(() => null);
+      if (stats?.isFile() && !name.startsWith('.')) {
+        bytes += stats.size;
+        files++;
+      }
+    }
+    return { bytes, files };
+  };
+
+  const cache = {
+    async load() {
+      try {
+        const stored = JSON.parse(await fs.readFile(indexPath, 'utf8'));
+        if (stored.version === INDEX_VERSION) {
+          index = stored;
+        }
+      } catch (error) {
+        if (error.code !== 'ENOENT') {
+          console.warn('⚠️  Cache index is unreadable, starting with an empty cache:', error.message);
+        }
+      }
+    },
+
+    getAnalysis(key) {
+      const entry = index.analyses[key];
+      if (!entry) {
+        counters.analyses.misses++;
+        return null;
+      }
+      counters.analyses.hits++;
+      touch(entry);
+      return entry.analysis;
+    },
+
+    setAnalysis(key, analysis) {
+      const now = Date.now();
+      index.analyses[key] = { analysis, createdAt: now, lastUsedAt: now };
+      save();
+    },
+
+    // Returns null when the entry is missing or its file was deleted behind our back
+    async getResult(key) {
+      const entry = index.results[key];
+      if (entry) {
+        try {
+          await fs.access(path.join(filesDir, entry.filename));
+          counters.results.hits++;
+          touch(entry);
+          return entry.result;
+        } catch {
+          await removeResult(key);
+        }
+      }
+      counters.results.misses++;
+      return null;
+    },
+
+    // Marks the results stored in `filename` as used, so downloads keep them from expiring or being
+    // evicted; not counted as a hit. Returns false when no entry refers to the file.
+    touchFile(filename) {
+      const entries = Object.values(index.results).filter((entry) => entry.filename === filename);
+      entries.forEach(touch);
+      return entries.length > 0;
+    },
+
+    async setResult(key, filename, result) {
+      const { size } = await fs.stat(path.join(filesDir, filename));
+      const now = Date.now();
+      index.results[key] = { filename, size, result, createdAt: now, lastUsedAt: now };
+      save();
+      await enforceCap(key);
+    },
+
+    // Drops entries unused for longer than the TTL, orphaned files and anything over the disk cap
+    async sweep() {
+      const now = Date.now();
+
+      for (const [key, entry] of Object.entries(index.analyses)) {
+        if (now - entry.lastUsedAt > ttlMs) {
+          delete index.analyses[key];
+          counters.expired++;
+          save();
+        }
+      }
+      for (const [key, entry] of Object.entries(index.results)) {
+        if (now - entry.lastUsedAt > ttlMs) {
+          await removeResult(key);
+          counters.expired++;
+        }
+      }
+
+      await removeOrphans(now);
+      await enforceCap();
+      counters.lastSweepAt = new Date(now).toISOString();
+    },
+
+    start() {
+      const run = () => cache.sweep().catch((error) => console.error('Cache sweep error:', error));
+      run();
+      sweepTimer = setInterval(run, sweepIntervalMs);
+      sweepTimer.unref();
+    },
+
+    stop() {
+      clearInterval(sweepTimer);
+    },
+
+    async flush() {
+      if (!saveTimer) return;
+      clearTimeout(saveTimer);
+      saveTimer = null;
+      await writeIndex();
+    },
+
+    async stats() {
+      const rate = ({ hits, misses }) => (hits + misses > 0 ? hits / (hits + misses) : null);
+      const directories = {};
+      for (const dir of sweepDirs) {
+        directories[path.basename(dir)] = await dirUsage(dir);
+      }
+
+      return {
+        analyses: {
+          ...counters.analyses,
+          hitRate: rate(counters.analyses),
+          entries: Object.keys(index.analyses).length
+        },
+        results: {
+          ...counters.results,
+          hitRate: rate(counters.results),
+          entries: Object.keys(index.results).length
+        },
+        storage: {
+          cachedBytes: storedBytes(),
+          maxBytes,
+          directories
+        },
+        retention: {
+          ttlMs,
+          sweepIntervalMs,
+          lastSweepAt: counters.lastSweepAt,
+          expired: counters.expired,
+          evicted: counters.evicted,
+          orphansRemoved: counters.orphansRemoved
+        }
+      };
+    }
+  };
+
+  return cache;
+}
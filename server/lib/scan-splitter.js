@@ -0,0 +1,457 @@
+import sharp from 'sharp';
+
+// Splits flatbed scans into the individual photos lying on the glass.
+// Detection runs on a small greyscale copy: pixels that differ from the scanner background
+// are grouped into connected regions, and each region's minimum-area rectangle gives the
+// photo's position, size and skew. Extraction then cuts every rectangle out of the full
+// resolution scan, rotates it upright and trims what is left of the scanner border.
+
+const ANALYSIS_EDGE = 800;
+
+// A region must cover this much of the scan to count as a photo rather than dust or a label
+const MIN_AREA_FRACTION = 0.02;
+
+// Luminance difference from the background that marks a pixel as part of a photo
+const FOREGROUND_THRESHOLD = 28;
+
+// Radius of the closing that bridges thin gaps, such as bright skies touching a photo's edge
+const CLOSE_RADIUS = 2;
+
+// Never trim more than this fraction of a side while removing leftover border
+const MAX_TRIM_FRACTION = 0.1;
+
+const WHITE = { r: 255, g: 255, b: 255, alpha: 1 };
+
+const toRadians = (degrees) => degrees * Math.PI / 180;
+
+// Helper function to create a region error the route can turn into a 400
+function regionError(message) {
+  const error = new Error(message);
+  error.code = 'INVALID_REGION';
+  return error;
+}
+
+// Helper function to find the background level from the outer ring of the scan
+function estimateBackground(luma, width, height) {
+  const ring = Math.max(2, Math.round(Math.min(width, height) * 0.02));
+  const histogram = new Uint32Array(256);
+  let count = 0;
+
+  for (let y = 0; y < height; y++) {
+    const edgeRow = y < ring || y >= height - ring;
+    for (let x = 0; x < width; x++) {
+      if (edgeRow || x < ring || x >= width - ring) {
+        histogram[luma[y * width + x]]++;
+        count++;
+      }
+    }
+  }
+
+  let seen = 0;
+  for (let value = 0; value < 256; value++) {
+    seen += histogram[value];
+    if (seen >= count / 2) return value;
+  }
+  return 255;
+}
+
+// Helper function for a square dilation or erosion, done as two separable passes
+function morph(mask, width, height, radius, dilate) {
+  const pass = (input, length, lines, stride, step) => {
+    const output = new Uint8Array(input.length);
+    const window = radius * 2 + 1;
+    for (let line = 0; line < lines; line++) {
+      const base = line * stride;
+      let sum = 0;
+      for (let i = -radius; i < length + radius; i++) {
+        const entering = i + radius;
+        const leaving = i - radius - 1;
+        if (entering < length) sum += input[base + entering * step];
+        if (leaving >= 0) sum -= input[base + leaving * step];
+        if (i >= 0 && i < length) {
+          output[base + i * step] = dilate ? (sum > 0 ? 1 : 0) : (sum === window ? 1 : 0);
+        }
+      }
+    }
+    return output;
+  };
+
+  const horizontal = pass(mask, width, height, width, 1);
+  return pass(horizontal, height, width, 1, width);
+}
+
+// Helper function to label 4-connected foreground regions; returns the labels and each
+// region's pixel count and bounding box
+function labelRegions(mask, width, height) {
+  const labels = new Int32Array(mask.length);
+  const regions = [];
+  const stack = [];
+
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || labels[start]) continue;
+
+    const label = regions.length + 1;
+    const region = { label, count: 0, minX: width, minY: height, maxX: 0, maxY: 0 };
+    labels[start] = label;
+    stack.push(start);
+
+    while (stack.length > 0) {
+      const index = stack.pop();
+      const x = index % width;
+      const y = (index - x) / width;
+      region.count++;
+      if (x < region.minX) region.minX = x;
+      if (x > region.maxX) region.maxX = x;
+      if (y < region.minY) region.minY = y;
+      if (y > region.maxY) region.maxY = y;
+
+      const neighbours = [
+        x > 0 ? index - 1 : -1,
+        x < width - 1 ? index + 1 : -1,
+        y > 0 ? index - width : -1,
+        y < height - 1 ? index + width : -1
+      ];
+      for (const next of neighbours) {
+        if (next >= 0 && mask[next] && !labels[next]) {
+          labels[next] = label;
+          stack.push(next);
+        }
+      }
+    }
+    regions.push(region);
+  }
+
+  return { labels, regions };
+}
+
+// Helper function to merge regions whose bounding boxes overlap, so a photo split in two by
+// a bright area is still detected as one
+function mergeOverlapping(regions) {
+  const merged = regions.map((region) => ({ ...region, labels: [region.label] }));
+  let changed = true;
+
+  while (changed) {
+    changed = false;
+    for (let i = 0; i < merged.length && !changed; i++) {
+      for (let j = i + 1; j < merged.length && !changed; j++) {
+        const a = merged[i];
+        const b = merged[j];
+        if (a.minX <= b.maxX && b.minX <= a.maxX && a.minY <= b.maxY && b.minY <= a.maxY) {
+          merged[i] = {
+            labels: [...a.labels, ...b.labels],
+            count: a.count + b.count,
+            minX: Math.min(a.minX, b.minX),
+            minY: Math.min(a.minY, b.minY),
+            maxX: Math.max(a.maxX, b.maxX),
+            maxY: Math.max(a.maxY, b.maxY)
+          };
+          merged.splice(j, 1);
+          changed = true;
+        }
+      }
+    }
+  }
+  return merged;
+}
+
+// Andrew's monotone chain convex hull
+function convexHull(points) {
+  const sorted = [...points].sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+  const cross = (o, a, b) => (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0]);
+  const build = (list) => {
+    const hull = [];
+    for (const point of list) {
+      while (hull.length >= 2 && cross(hull[hull.length - 2], hull[hull.length - 1], point) <= 0) hull.pop();
+      hull.push(point);
+    }
+    hull.pop();
+    return hull;
+  };
+  return [...build(sorted), ...build([...sorted].reverse())];
+}
+
+// Helper function to find the minimum-area rectangle around a convex hull. One side of that
+// rectangle always lies along a hull edge, so only the edge directions need to be tried.
+function minimumAreaRectangle(hull) {
+  let best = null;
+
+  for (let i = 0; i < hull.length; i++) {
+    const [x1, y1] = hull[i];
+    const [x2, y2] = hull[(i + 1) % hull.length];
+    const theta = Math.atan2(y2 - y1, x2 - x1);
+    const cos = Math.cos(theta);
+    const sin = Math.sin(theta);
+
+    let minU = Infinity, maxU = -Infinity, minV = Infinity, maxV = -Infinity;
+    for (const [x, y] of hull) {
+      const u = x * cos + y * sin;
+      const v = -x * sin + y * cos;
+      if (u < minU) minU = u;
+      if (u > maxU) maxU = u;
+      if (v < minV) minV = v;
+      if (v > maxV) maxV = v;
+    }
+
+    const area = (maxU - minU) * (maxV - minV);
+    if (!best || area < best.area) {
+      const u = (minU + maxU) / 2;
+      const v = (minV + maxV) / 2;
+      best = {
+        area,
+        centerX: u * cos - v * sin,
+        centerY: u * sin + v * cos,
+        width: maxU - minU,
+        height: maxV - minV,
+        angle: theta * 180 / Math.PI
+      };
+    }
+  }
+
+  // Report the smallest rotation that makes the photo upright, between -45 and 45 degrees
+  let { angle, width, height } = best;
+  while (angle > 45) {
+    angle -= 90;
+    [width, height] = [height, width];
+  }
+  while (angle <= -45) {
+    angle += 90;
+    [width, height] = [height, width];
+  }
+  return { centerX: best.centerX, centerY: best.centerY, width, height, angle };
+}
+
+// Helper function to collect the outline of a region: the outer corners of the first and
+// last pixel of every row
+function regionOutline(labels, width, region) {
+  const points = [];
+  const members = new Set(region.labels);
+
+  for (let y = region.minY; y <= region.maxY; y++) {
+    let first = -1;
+    let last = -1;
+    for (let x = region.minX; x <= region.maxX; x++) {
+      if (members.has(labels[y * width + x])) {
+        if (first < 0) first = x;
+        last = x;
+      }
+    }
+    if (first >= 0) {
+      points.push([first, y], [first, y + 1], [last + 1, y], [last + 1, y + 1]);
+    }
+  }
+  return points;
+}
+
+// Helper function to load the upright scan as greyscale at the analysis size
+async function loadAnalysisImage(input) {
+  const { data, info } = await sharp(input)
+    .rotate()
+    .resize(ANALYSIS_EDGE, ANALYSIS_EDGE, { fit: 'inside', withoutEnlargement: true })
+    .greyscale()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const metadata = await sharp(input).metadata();
+  // EXIF orientations 5 to 8 swap width and height
+  const swapped = (metadata.orientation || 1) >= 5;
+
+  return {
+    luma: data,
+    width: info.width,
+    height: info.height,
+    scanWidth: swapped ? metadata.height : metadata.width,
+    scanHeight: swapped ? metadata.width : metadata.height
+  };
+}
+
+// Finds the photos on a scan. Regions are rotated rectangles in scan pixels:
+// { centerX, centerY, width, height, angle } where `angle` is the clockwise skew in degrees.
+export async function detectPhotos(input) {
+  const { luma, width, height, scanWidth, scanHeight } = await loadAnalysisImage(input);
+  const background = estimateBackground(luma, width, height);
+  return {
+    width: scanWidth,
+    height: scanHeight,
+    background,
+    regions: findRegions(luma, width, height, background, scanWidth, scanHeight)
+  };
+}
+
+// Helper function to find the photo rectangles on the analysis image and scale them to the scan
+function findRegions(luma, width, height, background, scanWidth, scanHeight) {
+  let mask = new Uint8Array(luma.length);
+  for (let i = 0; i < luma.length; i++) {
+    mask[i] = Math.abs(luma[i] - background) > FOREGROUND_THRESHOLD ? 1 : 0;
+  }
+  mask = morph(morph(mask, width, height, CLOSE_RADIUS, true), width, height, CLOSE_RADIUS, false);
+
+  const { labels, regions } = labelRegions(mask, width, height);
+  const minArea = width * height * MIN_AREA_FRACTION;
+  const photos = mergeOverlapping(regions.filter((region) => region.count >= minArea / 4))
+    .filter((region) => region.count >= minArea);
+
+  const scaleX = scanWidth / width;
+  const scaleY = scanHeight / height;
+  const found = photos.map((region) => {
+    const rectangle = minimumAreaRectangle(convexHull(regionOutline(labels, width, region)));
+    return normalizeRegion({
+      centerX: rectangle.centerX * scaleX,
+      centerY: rectangle.centerY * scaleY,
+      width: rectangle.width * scaleX,
+      height: rectangle.height * scaleY,
+      angle: rectangle.angle
+    }, scanWidth, scanHeight);
+  });
+
+  // Reading order: top to bottom, then left to right for photos side by side
+  found.sort((a, b) => {
+    const sameRow = Math.abs(a.centerY - b.centerY) < Math.min(a.height, b.height) / 2;
+    return sameRow ? a.centerX - b.centerX : a.centerY - b.centerY;
+  });
+
+  // Nothing stood out from the background: the whole scan is the photo
+  return found.length > 0
+    ? found
+    : [{ centerX: scanWidth / 2, centerY: scanHeight / 2, width: scanWidth, height: scanHeight, angle: 0 }];
+}
+
+// Checks a region (detected or edited by the user) against the scan and rounds it
+export function normalizeRegion(region, scanWidth, scanHeight) {
+  const values = ['centerX', 'centerY', 'width', 'height', 'angle'].map((name) => Number(region?.[name]));
+  if (values.some((value) => !Number.isFinite(value))) {
+    throw regionError('A region needs numeric centerX, centerY, width, height and angle');
+  }
+
+  const [centerX, centerY, width, height, angle] = values;
+  if (width < 16 || height < 16) {
+    throw regionError('A region must be at least 16 pixels wide and high');
+  }
+  if (centerX < 0 || centerY < 0 || centerX > scanWidth || centerY > scanHeight) {
+    throw regionError('The region\'s center must lie inside the scan');
+  }
+  if (Math.abs(angle) > 180) {
+    throw regionError('The region\'s angle must be between -180 and 180 degrees');
+  }
+
+  const round = (value) => Math.round(value * 10) / 10;
+  return {
+    centerX: round(centerX),
+    centerY: round(centerY),
+    width: Math.round(width),
+    height: Math.round(height),
+    angle: Math.round(angle * 100) / 100
+  };
+}
+
+// Helper function to measure how many rows or columns at each edge still look like scanner
+// background after straightening
+function borderInsets(data, info, background) {
+  const { width, height, channels } = info;
+  const lumaAt = (x, y) => {
+    const i = (y * width + x) * channels;
+    return channels >= 3 ? 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2] : data[i];
+  };
+
+  // A line is border when almost all of it is within the threshold of the background
+  const isBorder = (length, at) => {
+    let matching = 0;
+    for (let i = 0; i < length; i++) {
+      if (Math.abs(at(i) - background) <= FOREGROUND_THRESHOLD) matching++;
+    }
+    return matching >= length * 0.9;
+  };
+
+  const scan = (limit, test) => {
+    let inset = 0;
+    while (inset < limit && test(inset)) inset++;
+    return inset;
+  };
+
+  const maxX = Math.floor(width * MAX_TRIM_FRACTION);
+  const maxY = Math.floor(height * MAX_TRIM_FRACTION);
+  return {
+    top: scan(maxY, (row) => isBorder(width, (x) => lumaAt(x, row))),
+    bottom: scan(maxY, (row) => isBorder(width, (x) => lumaAt(x, height - 1 - row))),
+    left: scan(maxX, (column) => isBorder(height, (y) => lumaAt(column, y))),
+    right: scan(maxX, (column) => isBorder(height, (y) => lumaAt(width - 1 - column, y)))
+  };
+}
+
+// Helper function to cut one region out of the upright scan (raw pixels), rotate it upright
+// and trim leftover border. Returns the photo as a high quality JPEG.
+async function extractPhoto(upright, region, background) {
+  const { width: scanWidth, height: scanHeight } = upright.info;
+
+  // Axis-aligned box around the rotated rectangle, clamped to the scan
+  const radians = toRadians(region.angle);
+  const boxWidth = Math.abs(region.width * Math.cos(radians)) + Math.abs(region.height * Math.sin(radians));
+  const boxHeight = Math.abs(region.width * Math.sin(radians)) + Math.abs(region.height * Math.cos(radians));
+  const left = Math.max(0, Math.floor(region.centerX - boxWidth / 2));
+  const top = Math.max(0, Math.floor(region.centerY - boxHeight / 2));
+  const right = Math.min(scanWidth, Math.ceil(region.centerX + boxWidth / 2));
+  const bottom = Math.min(scanHeight, Math.ceil(region.centerY + boxHeight / 2));
+  if (right - left < 2 || bottom - top < 2) {
+    throw regionError('The region lies outside the scan');
+  }
+
+  const box = await sharp(upright.data, { raw: upright.info })
+    .extract({ left, top, width: right - left, height: bottom - top })
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  // Straighten around the box, then cut the photo out of the middle of the rotated canvas.
+  // The region's center may sit off the box's center where the box was clamped to the scan.
+  let { data, info } = region.angle === 0 ? box : await sharp(box.data, { raw: box.info })
+    .rotate(-region.angle, { background: WHITE })
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const offsetX = region.centerX - (left + right) / 2;
+  const offsetY = region.centerY - (top + bottom) / 2;
+  const centerX = info.width / 2 + offsetX * Math.cos(radians) + offsetY * Math.sin(radians);
+  const centerY = info.height / 2 - offsetX * Math.sin(radians) + offsetY * Math.cos(radians);
+
+  // Rotation leaves blended pixels along the edges, so a sliver is always removed
+  const edge = Math.max(1, Math.round(Math.min(region.width, region.height) * 0.004));
+  const cropLeft = Math.max(0, Math.round(centerX - region.width / 2) + edge);
+  const cropTop = Math.max(0, Math.round(centerY - region.height / 2) + edge);
+  const cropWidth = Math.min(info.width - cropLeft, Math.round(region.width) - edge * 2);
+  const cropHeight = Math.min(info.height - cropTop, Math.round(region.height) - edge * 2);
+  if (cropWidth < 2 || cropHeight < 2) {
+    throw regionError('The region is too small to extract');
+  }
+
+  ({ data, info } = await sharp(data, { raw: info })
+    .extract({ left: cropLeft, top: cropTop, width: cropWidth, height: cropHeight })
+    .raw()
+    .toBuffer({ resolveWithObject: true }));
+
+  const insets = borderInsets(data, info, background);
+  const width = info.width - insets.left - insets.right;
+  const height = info.height - insets.top - insets.bottom;
+
+  const buffer = await sharp(data, { raw: info })
+    .extract({ left: insets.left, top: insets.top, width, height })
+    .jpeg({ quality: 95 })
+    .toBuffer();
+
+  return { buffer, width, height };
+}
+
+// Detects the photos on a scan (or takes the given regions, e.g. after the user adjusted one)
+// and extracts each of them
+export async function splitScan(input, { regions } = {}) {
+  const { luma, width, height, scanWidth, scanHeight } = await loadAnalysisImage(input);
+  const background = estimateBackground(luma, width, height);
+  const targets = regions
+    ? regions.map((region) => normalizeRegion(region, scanWidth, scanHeight))
+    : findRegions(luma, width, height, background, scanWidth, scanHeight);
+
+  const upright = await sharp(input).rotate().raw().toBuffer({ resolveWithObject: true });
+  const photos = [];
+  for (const region of targets) {
+    photos.push({ region, ...await extractPhoto(upright, region, background) });
+  }
+
+  return { width: scanWidth, height: scanHeight, photos };
+}
@@ -0,0 +1,120 @@
+import sharp from 'sharp';
+import { encodeAnimation } from './animation.js';
+
+// Images generated for shared links: a labelled side-by-side composite of the original and
+// the restored photo, and an animated wipe from one to the other for social posts.
+
+const BACKGROUND = { r: 0, g: 0, b: 0 };
+const LABEL_COLORS = { Before: '#ef4444', After: '#22c55e' };
+
+// Helper function to draw a "Before"/"After" badge in the bottom corner of an image
+function labelOverlay(text, { width, height, align }) {
+  const fontSize = Math.max(14, Math.round(Math.min(width, height) * 0.045));
+  const padding = Math.round(fontSize * 0.5);
+  const badgeWidth = Math.round(fontSize * text.length * 0.62 + padding * 2);
+  const badgeHeight = Math.round(fontSize * 1.6);
+  const x = align === 'left' ? padding : width - badgeWidth - padding;
+  const y = height - badgeHeight - padding;
+
+  return Buffer.from(`<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
+    <rect x="${x}" y="${y}" width="${badgeWidth}" height="${badgeHeight}" rx="${Math.round(badgeHeight / 4)}"
+      fill="${LABEL_COLORS[text]}" fill-opacity="0.85"/>
+    <text x="${x + badgeWidth / 2}" y="${y + badgeHeight / 2}" font-family="sans-serif" font-size="${fontSize}"
+      font-weight="bold" fill="#fff" text-anchor="middle" dominant-baseline="central">${text}</text>
+  </svg>`);
+}
+
+// Helper function to resize an image and put its label on it, returning raw RGB pixels
+async function labelled(input, text, resize, align) {
+  const { data, info } = await sharp(input)
+    .rotate()
+    .resize(resize)
+    .flatten({ background: BACKGROUND })
+    .removeAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  return sharp(data, { raw: info })
+    .composite([{ input: labelOverlay(text, { width: info.width, height: info.height, align }) }])
+    .removeAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+}
+
+// Both photos at the same height next to each other, as a JPEG
+export async function renderSideBySide(beforePath, afterPath, { height = 1080, gap = 12 } = {}) {
+  const [before, after] = await Promise.all([
+    labelled(beforePath, 'Before', { height, withoutEnlargement: true }, 'left'),
+    labelled(afterPath, 'After', { height, withoutEnlargement: true }, 'left')
+  ]);
+
+  // Either photo may be smaller than `height`; the canvas fits the taller one
+  const canvasHeight = Math.max(before.info.height, after.info.height);
+  return sharp({
+    create: {
+      width: before.info.width + gap + after.info.width,
+      height: canvasHeight,
+      channels: 3,
+      background: BACKGROUND
+    }
+  })
+    .composite([
+      { input: before.data, raw: before.info, left: 0, top: Math.round((canvasHeight - before.info.height) / 2) },
+      { input: after.data, raw: after.info, left: before.info.width + gap, top: Math.round((canvasHeight - after.info.height) / 2) }
+    ])
+    .jpeg({ quality: 90 })
+    .toBuffer();
+}
+
+const easeInOut = (t) => (t < 0.5 ? 2 * t * t : 1 - (-2 * t + 2) ** 2 / 2);
+
+// Helper function to draw one wipe frame: the restored photo left of `split`, the original
+// right of it, and a white divider between them
+function wipeFrame(before, after, split) {
+  const { width, height, channels } = after.info;
+  const data = Buffer.from(before.data);
+  const rowBytes = width * channels;
+  const half = Math.max(1, Math.round(width / 400));
+  const dividerStart = Math.max(0, split - half) * channels;
+  const dividerEnd = Math.min(width, split + half) * channels;
+
+  for (let y = 0; y < height; y++) {
+    const row = y * rowBytes;
+    after.data.copy(data, row, row, row + split * channels);
+    data.fill(255, row + dividerStart, row + dividerEnd);
+  }
+  return { data, info: after.info };
+}
+
+// An animated WebP or GIF that wipes from the original to the restored photo and back.
+// The original is cropped to the restored photo's shape, which may differ after the AI's crop.
+// GIFs default to a smaller size, every frame of them is several times larger than in WebP.
+export async function renderWipe(beforePath, afterPath, { format, size = format === 'gif' ? 480 : 640, steps = 16 } = {}) {
+  const after = await labelled(afterPath, 'After', { width: size, height: size, fit: 'inside' }, 'left');
+  const before = await labelled(
+    beforePath,
+    'Before',
+    { width: after.info.width, height: after.info.height, fit: 'cover' },
+    'right'
+  );
+
+  const { width } = after.info;
+  const frames = [];
+  const delays = [];
+  const hold = (frame, ms) => {
+    frames.push(frame);
+    delays.push(ms);
+  };
+
+  hold(wipeFrame(before, after, 0), 900);
+  for (let step = 1; step < steps; step++) {
+    hold(wipeFrame(before, after, Math.round(easeInOut(step / steps) * width)), 60);
+  }
+  hold(wipeFrame(before, after, width), 1600);
+  // Wipe back faster, so the loop starts over on the original
+  for (let step = steps - 2; step > 0; step -= 2) {
+    hold(wipeFrame(before, after, Math.round(easeInOut(step / steps) * width)), 40);
+  }
+
+  return encodeAnimation(frames, { format, delays, quality: 75 });
+}
@@ -0,0 +1,139 @@
+// The public, read-only page behind a shared link: the restored photo with a slider that
+// reveals the original, and downloads of the generated comparison images. The page has no
+// external resources; its inline style and script run under a per-request CSP nonce.
+
+// Helper function to escape text for HTML content and attribute values
+function escapeHtml(value) {
+  return String(value).replace(/[&<>"']/g, (char) => ({
+    '&': '&amp;',
+    '<': '&lt;',
+    '>': '&gt;',
+    '"': '&quot;',
+    "'": '&#39;'
+  })[char]);
+}
+
+// Content-Security-Policy for pages rendered with `nonce`
+export function sharePageCsp(nonce) {
+  return [
+    "default-src 'none'",
+    "img-src 'self'",
+    `style-src 'nonce-${nonce}'`,
+    `script-src 'nonce-${nonce}'`,
+    "base-uri 'none'",
+    "form-action 'none'",
+    "frame-ancestors 'none'"
+  ].join('; ');
+}
+
+const STYLE = `
+  * { box-sizing: border-box; }
+  body { margin: 0; min-height: 100vh; background: #030712; color: #e5e7eb;
+    font-family: system-ui, -apple-system, 'Segoe UI', sans-serif; }
+  main { max-width: 960px; margin: 0 auto; padding: 32px 16px; }
+  h1 { margin: 0 0 4px; font-size: 24px; color: #22d3ee; text-shadow: 0 0 12px rgba(34, 211, 238, 0.5); }
+  p { margin: 0; color: #9ca3af; font-size: 14px; }
+  .compare { position: relative; margin: 24px auto; max-width: 100%; border: 1px solid rgba(34, 211, 238, 0.4);
+    border-radius: 8px; overflow: hidden; box-shadow: 0 0 24px rgba(34, 211, 238, 0.15); user-select: none; }
+  .compare img { display: block; width: 100%; height: auto; }
+  .compare .before { position: absolute; inset: 0; height: 100%; object-fit: cover; clip-path: inset(0 50% 0 0); }
+  .compare .divider { position: absolute; top: 0; bottom: 0; left: 50%; width: 2px; margin-left: -1px;
+    background: #fff; box-shadow: 0 0 8px rgba(0, 0, 0, 0.6); pointer-events: none; }
+  .compare input { position: absolute; inset: 0; width: 100%; height: 100%; margin: 0; opacity: 0; cursor: ew-resize; }
+  .label { position: absolute; bottom: 12px; padding: 2px 10px; border-radius: 4px; font-size: 13px;
+    font-weight: 600; color: #fff; pointer-events: none; }
+  .label.before-label { left: 12px; background: rgba(239, 68, 68, 0.85); }
+  .label.after-label { right: 12px; background: rgba(34, 197, 94, 0.85); }
+  .downloads { display: flex; flex-wrap: wrap; gap: 8px; }
+  .downloads a { padding: 6px 12px; border: 1px solid rgba(34, 211, 238, 0.5); border-radius: 6px;
+    color: #67e8f9; font-size: 13px; text-decoration: none; }
+  .downloads a:hover { background: rgba(34, 211, 238, 0.1); }
+  footer { margin-top: 24px; font-size: 12px; color: #6b7280; }
+`;
+
+// Drag anywhere on the photo to move the divider; the range input also makes it keyboard accessible
+const SCRIPT = `
+  const compare = document.querySelector('.compare');
+  const slider = compare.querySelector('input');
+  const update = () => {
+    compare.querySelector('.before').style.clipPath = 'inset(0 ' + (100 - slider.value) + '% 0 0)';
+    compare.querySelector('.divider').style.left = slider.value + '%';
+  };
+  slider.addEventListener('input', update);
+  update();
+`;
+
+const DOWNLOADS = [
+  ['side-by-side.jpg', 'Side-by-side image'],
+  ['wipe.webp', 'Animated WebP'],
+  ['wipe.gif', 'Animated GIF'],
+  ['before.jpg', 'Original'],
+  ['after.jpg', 'Restored']
+];
+
+function page({ title, head = '', body, nonce }) {
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex">
+<title>${escapeHtml(title)}</title>
+${head}
+<style nonce="${nonce}">${STYLE}</style>
+</head>
+<body>
+<main>
+${body}
+</main>
+</body>
+</html>`;
+}
+
+// The comparison page of an active share. `baseUrl` (e.g. https://example.com) makes the
+// preview image URL absolute for link previews.
+export function renderSharePage(share, { nonce, baseUrl }) {
+  const title = share.title || 'Restored photo';
+  const base = `/s/${share.id}`;
+  const expires = new Date(share.expiresAt).toUTCString();
+
+  const head = [
+    `<meta property="og:title" content="${escapeHtml(title)}">`,
+    '<meta property="og:description" content="Before and after an AI photo restoration">',
+    `<meta property="og:image" content="${escapeHtml(`${baseUrl}${base}/side-by-side.jpg`)}">`,
+    '<meta name="twitter:card" content="summary_large_image">'
+  ].join('\n');
+
+  const body = `
+<h1>${escapeHtml(title)}</h1>
+<p>Drag across the photo to compare the original with the restoration.</p>
+<div class="compare">
+  <img src="${base}/after.jpg" width="${share.width}" height="${share.height}" alt="Restored photo">
+  <img class="before" src="${base}/before.jpg" alt="Original photo">
+  <div class="divider"></div>
+  <span class="label before-label">Before</span>
+  <span class="label after-label">After</span>
+  <input type="range" min="0" max="100" value="50" aria-label="Comparison position">
+</div>
+<div class="downloads">
+  ${DOWNLOADS.map(([name, label]) => `<a href="${base}/${name}" download>${label}</a>`).join('\n  ')}
+</div>
+<footer>Shared with Picture Repair · This link expires ${escapeHtml(expires)}</footer>
+<script nonce="${nonce}">${SCRIPT}</script>`;
+
+  return page({ title, head, body, nonce });
+}
+
+// The page for links that were revoked, have expired or never existed
+export function renderUnavailablePage(status, { nonce }) {
+  const message = {
+    revoked: 'The owner of this photo has stopped sharing it.',
+    expired: 'This link has expired.'
+  }[status] || 'This link does not exist. Check that it was copied completely.';
+
+  return page({
+    title: 'Link unavailable',
+    body: `<h1>Link unavailable</h1>\n<p>${escapeHtml(message)}</p>`,
+    nonce
+  });
+}
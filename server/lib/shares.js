@@ -0,0 +1,225 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import sharp from 'sharp';
+import Database from 'better-sqlite3';
+import { renderSideBySide, renderWipe } from './share-assets.js';
+
+// Public before/after links. Each share keeps its own re-encoded copy of both photos, so it
+// outlives the result cache, and the copies carry no metadata (no GPS position or camera).
+// Shares expire after a chosen number of days or when the owner revokes them; the files are
+// deleted then, the row stays so the link can say why it no longer works.
+
+export const SHARE_EXPIRY_DAYS = [1, 7, 30];
+export const DEFAULT_SHARE_EXPIRY_DAYS = 7;
+
+// Images generated on first request and kept next to the photos
+export const SHARE_ASSETS = {
+  'side-by-side.jpg': { contentType: 'image/jpeg', render: (before, after) => renderSideBySide(before, after) },
+  'wipe.webp': { contentType: 'image/webp', render: (before, after) => renderWipe(before, after, { format: 'webp' }) },
+  'wipe.gif': { contentType: 'image/gif', render: (before, after) => renderWipe(before, after, { format: 'gif' }) }
+};
+
+const SHARE_ID_PATTERN = /^[A-Za-z0-9_-]{22}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS shares (
+    id TEXT PRIMARY KEY,
+    account_id TEXT NOT NULL REFERENCES accounts(id),
+    title TEXT,
+    width INTEGER NOT NULL,
+    height INTEGER NOT NULL,
+    views INTEGER NOT NULL DEFAULT 0,
+    created_at TEXT NOT NULL,
+    expires_at TEXT NOT NULL,
+    revoked_at TEXT,
+    files_removed INTEGER NOT NULL DEFAULT 0
+  );
+
+  CREATE INDEX IF NOT EXISTS shares_account_created ON shares (account_id, created_at);
+`;
+
+// Helper function to tell whether a share can still be viewed
+function shareStatus(row, now = Date.now()) {
+  if (row.revoked_at) return 'revoked';
+  if (Date.parse(row.expires_at) <= now) return 'expired';
+  return 'active';
+}
+
+const toShare = (row) => row && {
+  id: row.id,
+  title: row.title,
+  width: row.width,
+  height: row.height,
+  views: row.views,
+  createdAt: row.created_at,
+  expiresAt: row.expires_at,
+  revokedAt: row.revoked_at,
+  status: shareStatus(row)
+};
+
+// Helper function to re-encode a photo for sharing: upright, at most 2048px, without metadata
+function sharedCopy(inputPath, outputPath) {
+  return sharp(inputPath)
+    .rotate()
+    .resize(2048, 2048, { fit: 'inside', withoutEnlargement: true })
+    .flatten({ background: { r: 255, g: 255, b: 255 } })
+    .jpeg({ quality: 90 })
+    .toFile(outputPath);
+}
+
+export function createShareStore({ dbPath, filesDir, sweepIntervalMs = 60 * 60 * 1000 }) {
+  const db = new Database(dbPath);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  db.exec(SCHEMA);
+
+  const statements = {
+    insertShare: db.prepare(`
+      INSERT INTO shares (id, account_id, title, width, height, created_at, expires_at)
+      VALUES (@id, @accountId, @title, @width, @height, @createdAt, @expiresAt)
+    `),
+    shareById: db.prepare('SELECT * FROM shares WHERE id = ?'),
+    sharesByAccount: db.prepare('SELECT * FROM shares WHERE account_id = ? ORDER BY created_at DESC'),
+    revokeShare: db.prepare(
+      'UPDATE shares SET revoked_at = ? WHERE id = ? AND account_id = ? AND revoked_at IS NULL'
+    ),
+    countView: db.prepare('UPDATE shares SET views = views + 1 WHERE id = ?'),
+    // Revoked shares have their files removed right away, expired ones by the sweep
+    endedWithFiles: db.prepare(
+      'SELECT id FROM shares WHERE files_removed = 0 AND (revoked_at IS NOT NULL OR expires_at <= ?)'
+    ),
+    markFilesRemoved: db.prepare('UPDATE shares SET files_removed = 1 WHERE id = ?')
+  };
+
+  // Assets being generated, so concurrent first requests render them once
+  const rendering = new Map();
+  let sweepTimer = null;
+
+  const shareDir = (id) => path.join(filesDir, id);
+
+  const removeFiles = async (id) => {
+    await fs.rm(shareDir(id), { recursive: true, force: true });
+    statements.markFilesRemoved.run(id);
+  };
+
+  const store = {
+    // Copies both photos into a new share and returns it. `expiresInDays` must be one of
+    // SHARE_EXPIRY_DAYS.
+    async createShare({ accountId, beforePath, afterPath, title, expiresInDays = DEFAULT_SHARE_EXPIRY_DAYS }) {
+      if (!SHARE_EXPIRY_DAYS.includes(expiresInDays)) {
+        const error = new Error(`expiresInDays must be one of: ${SHARE_EXPIRY_DAYS.join(', ')}`);
+        error.code = 'INVALID_EXPIRY';
+        throw error;
+      }
+
+      // 128 random bits, so links can't be guessed or enumerated
+      const id = crypto.randomBytes(16).toString('base64url');
+      const dir = shareDir(id);
+      await fs.mkdir(dir, { recursive: true });
+
+      try {
+        await sharedCopy(beforePath, path.join(dir, 'before.jpg'));
+        const { width, height } = await sharedCopy(afterPath, path.join(dir, 'after.jpg'));
+
+        const now = Date.now();
+        statements.insertShare.run({
+          id,
+          accountId,
+          title: title ? String(title).trim().slice(0, 120) || null : null,
+          width,
+          height,
+          createdAt: new Date(now).toISOString(),
+          expiresAt: new Date(now + expiresInDays * DAY_MS).toISOString()
+        });
+      } catch (error) {
+        await fs.rm(dir, { recursive: true, force: true });
+        throw error;
+      }
+
+      return toShare(statements.shareById.get(id));
+    },
+
+    // Returns the share with its `status` (active, expired or revoked), or null for unknown ids
+    getShare(id) {
+      if (!SHARE_ID_PATTERN.test(id)) return null;
+      return toShare(statements.shareById.get(id)) || null;
+    },
+
+    listShares(accountId) {
+      return statements.sharesByAccount.all(accountId).map(toShare);
+    },
+
+    // Returns false when the share doesn't exist, belongs to another account or is already revoked
+    async revokeShare(id, accountId) {
+      if (statements.revokeShare.run(new Date().toISOString(), id, accountId).changes === 0) {
+        return false;
+      }
+      await removeFiles(id);
+      return true;
+    },
+
+    recordView(id) {
+      statements.countView.run(id);
+    },
+
+    // Path of one of an active share's files: before.jpg, after.jpg or one of SHARE_ASSETS,
+    // which is generated on first use. Returns null for anything else.
+    async filePath(share, name) {
+      const filePath = path.join(shareDir(share.id), name);
+      if (name === 'before.jpg' || name === 'after.jpg') return filePath;
+
+      const asset = SHARE_ASSETS[name];
+      if (!asset) return null;
+
+      try {
+        await fs.access(filePath);
+        return filePath;
+      } catch {
+        // Not generated yet
+      }
+
+      const key = `${share.id}/${name}`;
+      if (!rendering.has(key)) {
+        const render = (async () => {
+          const dir = shareDir(share.id);
+          const buffer = await asset.render(path.join(dir, 'before.jpg'), path.join(dir, 'after.jpg'));
+          // Write then rename so a half-written asset is never served
+          const tmpPath = `${filePath}.tmp`;
+          await fs.writeFile(tmpPath, buffer);
+          await fs.rename(tmpPath, filePath);
+        })().finally(() => rendering.delete(key));
+        rendering.set(key, render);
+      }
+      await rendering.get(key);
+      return filePath;
+    },
+
+    // Deletes the files of expired and revoked shares
+    async sweep() {
+      const ended = statements.endedWithFiles.all(new Date().toISOString());
+      for (const { id } of ended) {
+        await removeFiles(id);
+      }
+      return ended.length;
+    },
+
+    start() {
+      const run = () => store.sweep().catch((error) => console.error('Share sweep error:', error));
+      run();
+      sweepTimer = setInterval(run, sweepIntervalMs);
+      sweepTimer.unref();
+    },
+
+    stop() {
+      clearInterval(sweepTimer);
+    },
+
+    close() {
+      db.close();
+    }
+  };
+
+  return store;
+}
@@ -3,12 +3,37 @@ import multer from 'multer';
 import cors from 'cors';
 import helmet from 'helmet';
 import rateLimit from 'express-rate-limit';
-import sharp from 'sharp';
+import crypto from 'crypto';
 import { v4 as uuidv4 } from 'uuid';
 import fs from 'fs/promises';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import dotenv from 'dotenv';
+import { createRestorationProvider } from './lib/providers/index.js';
+import { createAccountStore } from './lib/accounts.js';
+import { createJobStore, isTerminalStage } from './lib/jobs.js';
+import { describeImageError, imageValidationError } from './lib/image-validation.js';
+import { createResultCache, hashFile, hashKey } from './lib/result-cache.js';
+import { splitScan } from './lib/scan-splitter.js';
+import { SHARE_ASSETS, SHARE_EXPIRY_DAYS, DEFAULT_SHARE_EXPIRY_DAYS, createShareStore } from './lib/shares.js';
+import { renderSharePage, renderUnavailablePage, sharePageCsp } from './lib/share-page.js';
+import {
+  OUTPUT_FORMATS,
+  contentTypeForFile,
+  describeOutputFormats,
+  resolveOutputOptions
+} from './lib/output-formats.js';
+import {
+  analyzeImage,
+  checkQuality,
+  renderRestoration,
+  repairSettingsFromEnv,
+  validateImage
+} from './lib/repair-pipeline.js';
+import {
+  describeRestorationModes,
+  resolveRestorationMode
+} from './lib/restoration-modes.js';
 
 // Load environment variables
 dotenv.config();
@@ -19,34 +44,85 @@ const __dirname = path.dirname(__filename);
 const app = express();
 const PORT = process.env.PORT || 3001;
 
+// Behind a proxy (e.g. a load balancer) client IPs come from X-Forwarded-For
+if (process.env.TRUST_PROXY) {
+  app.set('trust proxy', parseInt(process.env.TRUST_PROXY, 10) || 1);
+}
+
 // Security middleware
 app.use(helmet({
   crossOriginResourcePolicy: { policy: "cross-origin" }
 }));
 
-// CORS configuration for international usage
+// CORS configuration for international usage; CORS_ORIGINS lists the sites that serve the frontend
+// (comma separated), e.g. a Vercel deployment calling this server through VITE_API_URL
+const CORS_ORIGINS = process.env.CORS_ORIGINS
+  ? process.env.CORS_ORIGINS.split(',').map(origin => origin.trim()).filter(Boolean)
+  : process.env.NODE_ENV === 'production'
+    ? ['https://yourdomain.com', 'https://www.yourdomain.com']
+    : ['http://localhost:5173', 'http://localhost:3000'];
+
 app.use(cors({
-  origin: process.env.NODE_ENV === 'production' 
-    ? ['https://yourdomain.com', 'https://www.yourdomain.com'] // Replace with your actual domain
-    : ['http://localhost:5173', 'http://localhost:3000'],
+  origin: CORS_ORIGINS,
   credentials: true,
-  methods: ['GET', 'POST', 'OPTIONS'],
+  methods: ['GET', 'POST', 'DELETE', 'OPTIONS'],
   allowedHeaders: ['Content-Type', 'Authorization']
 }));
 
-// Rate limiting - important for API cost control
-const limiter = rateLimit({
-  windowMs: 15 * 60 * 1000, // 15 minutes
-  max: 10, // Limit each IP to 10 requests per windowMs
+// API cost is controlled by per-account credits; rate limits only guard against bursts.
+// Repairs are limited per account, so users behind one NAT don't share a limit.
+const CREDITS_PER_RESTORATION = parseInt(process.env.CREDITS_PER_RESTORATION, 10) || 1;
+const SIGNUP_CREDITS = Math.max(0, parseInt(process.env.SIGNUP_CREDITS, 10) || 0);
+const REPAIR_RATE_LIMIT = parseInt(process.env.REPAIR_RATE_LIMIT, 10) || 30;
+
+const repairLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: REPAIR_RATE_LIMIT,
+  keyGenerator: (req) => req.auth.account.id,
   message: {
     error: 'Too many image processing requests, please try again later.',
-    retryAfter: '15 minutes'
+    retryAfter: '1 minute'
+  },
+  standardHeaders: true,
+  legacyHeaders: false
+});
+
+// Scan splitting costs no credits and needs no account, but decodes large scans
+const scanLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 20,
+  message: {
+    error: 'Too many scans split, please try again later.',
+    retryAfter: '1 minute'
   },
   standardHeaders: true,
-  legacyHeaders: false,
+  legacyHeaders: false
 });
 
-app.use('/api/', limiter);
+// Creating shared links copies both photos
+const shareLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 20,
+  keyGenerator: (req) => req.auth.account.id,
+  message: {
+    error: 'Too many links shared, please try again later.',
+    retryAfter: '1 minute'
+  },
+  standardHeaders: true,
+  legacyHeaders: false
+});
+
+// Sign-ups are the only other thing limited per IP
+const signupLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 5,
+  message: {
+    error: 'Too many accounts created, please try again later.',
+    retryAfter: '1 hour'
+  },
+  standardHeaders: true,
+  legacyHeaders: false
+});
 
 // Body parsing middleware
 app.use(express.json({ limit: '10mb' }));
@@ -55,6 +131,8 @@ app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 // Create uploads directory if it doesn't exist
 const uploadsDir = path.join(__dirname, 'uploads');
 const processedDir = path.join(__dirname, 'processed');
+const cacheDir = path.join(__dirname, 'cache');
+const sharesDir = path.join(__dirname, 'shares');
 
 try {
   await fs.access(uploadsDir);
@@ -68,6 +146,62 @@ try {
   await fs.mkdir(processedDir, { recursive: true });
 }
 
+try {
+  await fs.access(cacheDir);
+} catch {
+  await fs.mkdir(cacheDir, { recursive: true });
+}
+
+try {
+  await fs.access(sharesDir);
+} catch {
+  await fs.mkdir(sharesDir, { recursive: true });
+}
+
+// Accounts, API keys and credits
+const databasePath = process.env.DATABASE_PATH || path.join(__dirname, 'data', 'picture-repair.db');
+await fs.mkdir(path.dirname(databasePath), { recursive: true });
+
+const accounts = createAccountStore({ dbPath: databasePath, signupCredits: SIGNUP_CREDITS });
+
+// Public before/after links, in the same database; files of expired links are swept hourly
+const shares = createShareStore({ dbPath: databasePath, filesDir: sharesDir });
+shares.start();
+
+// Resolves `Authorization: Bearer prk_...` to the caller's account (req.auth).
+// Other bearer tokens (e.g. the admin token) are left to the routes that use them.
+app.use('/api/', (req, res, next) => {
+  const [scheme, key] = (req.get('Authorization') || '').split(' ');
+  if (scheme !== 'Bearer' || !key?.startsWith('prk_')) {
+    return next();
+  }
+
+  const auth = accounts.authenticate(key);
+  if (!auth) {
+    return res.status(401).json({
+      error: 'Invalid API key',
+      message: 'The API key does not exist or has been revoked'
+    });
+  }
+
+  req.auth = auth;
+  next();
+});
+
+// Helper function to reject requests without an API key
+function requireAccount(req, res, next) {
+  if (!req.auth) {
+    return res.status(401).json({
+      error: 'API key required',
+      message: 'Send your API key as "Authorization: Bearer <key>". Create an account at POST /api/accounts.'
+    });
+  }
+  next();
+}
+
+// Upload limits and the quality gate, shared with the picture-repair CLI
+const { imageLimits: IMAGE_LIMITS, qualityGate: QUALITY_GATE } = repairSettingsFromEnv();
+
 // Multer configuration for file uploads
 const storage = multer.diskStorage({
   destination: (req, file, cb) => {
@@ -79,209 +213,571 @@ const storage = multer.diskStorage({
   }
 });
 
+// The declared MIME type is not trusted; uploads are checked by content once they are saved
 const upload = multer({
   storage,
   limits: {
-    fileSize: 10 * 1024 * 1024, // 10MB limit
+    fileSize: IMAGE_LIMITS.maxBytes,
+    files: 3 // the image, an optional analysis copy and an optional damage mask
+  }
+});
+
+// Flatbed scans hold several prints, so splitting them accepts much larger files than a repair;
+// the photos cut out of a scan are uploaded for repair under the normal limits
+const SCAN_LIMITS = {
+  ...IMAGE_LIMITS,
+  maxBytes: Math.max(IMAGE_LIMITS.maxBytes, (parseFloat(process.env.SCAN_MAX_MB) || 100) * 1024 * 1024),
+  maxDimension: Math.max(IMAGE_LIMITS.maxDimension, parseInt(process.env.SCAN_MAX_DIMENSION, 10) || 24000),
+  maxPixels: Math.max(IMAGE_LIMITS.maxPixels, parseInt(process.env.SCAN_MAX_PIXELS, 10) || 200_000_000)
+};
+
+const scanUpload = multer({
+  storage,
+  limits: {
+    fileSize: SCAN_LIMITS.maxBytes,
     files: 1
-  },
-  fileFilter: (req, file, cb) => {
-    // Check if file is an image
-    if (file.mimetype.startsWith('image/')) {
-      cb(null, true);
-    } else {
-      cb(new Error('Only image files are allowed!'), false);
-    }
   }
 });
 
-// OpenRouter API configuration
-const OPENROUTER_API_KEY = process.env.OPENROUTER_API_KEY;
-const OPENROUTER_API_URL = 'https://openrouter.ai/api/v1/chat/completions';
+// Restoration provider (OpenRouter, or the offline mock provider when no API key is set)
+const restorationProvider = createRestorationProvider();
 
-if (!OPENROUTER_API_KEY) {
-  console.error('❌ OPENROUTER_API_KEY is not set in environment variables');
-  process.exit(1);
+if (restorationProvider.name === 'mock' && !process.env.RESTORATION_PROVIDER) {
+  console.warn('⚠️  OPENROUTER_API_KEY is not set, using the offline mock restoration provider');
 }
 
-// Helper function to convert image to base64
-async function imageToBase64(imagePath) {
-  try {
-    // Optimize image before processing
-    const optimizedBuffer = await sharp(imagePath)
-      .resize(1024, 1024, { 
-        fit: 'inside', 
-        withoutEnlargement: true 
-      })
-      .jpeg({ quality: 85 })
-      .toBuffer();
-    
-    return optimizedBuffer.toString('base64');
-  } catch (error) {
-    throw new Error(`Failed to process image: ${error.message}`);
-  }
+// Cache of AI analyses and processed results, with retention and a disk-usage cap
+const resultCache = createResultCache({
+  indexPath: path.join(cacheDir, 'index.json'),
+  filesDir: processedDir,
+  sweepDirs: [processedDir, uploadsDir],
+  ttlMs: (parseFloat(process.env.CACHE_TTL_HOURS) || 24) * 60 * 60 * 1000,
+  maxBytes: (parseFloat(process.env.CACHE_MAX_MB) || 500) * 1024 * 1024,
+  sweepIntervalMs: (parseFloat(process.env.CACHE_SWEEP_MINUTES) || 10) * 60 * 1000
+});
+
+await resultCache.load();
+resultCache.start();
+
+// Helper function to validate an upload against the server's limits
+function validateUpload(filePath, { formats, limits = IMAGE_LIMITS } = {}) {
+  return validateImage(filePath, { limits, formats });
 }
 
-// Helper function to call OpenRouter API
-async function callOpenRouterAPI(base64Image) {
-  try {
-    const response = await fetch(OPENROUTER_API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${OPENROUTER_API_KEY}`,
-        'HTTP-Referer': process.env.SITE_URL || 'http://localhost:3001',
-        'X-Title': 'Picture Repair App - AI Photo Restoration'
-      },
-      body: JSON.stringify({
-        model: 'anthropic/claude-3-sonnet', // You can change this to other models
-        messages: [
-          {
-            role: 'system',
-            content: `You are an expert in photo restoration and enhancement. Your task is to:
-            1. Analyze the provided image for damage, fading, scratches, or quality issues
-            2. Provide detailed restoration recommendations
-            3. Describe what improvements can be made
-            4. Focus on color correction, noise reduction, sharpening, and damage repair
-            
-            Please provide a comprehensive analysis and restoration plan for the image.`
-          },
-          {
-            role: 'user',
-            content: [
-              { 
-                type: 'text', 
-                text: 'Please analyze this photo and provide a detailed restoration plan. What damage do you see and how would you fix it?' 
-              },
-              { 
-                type: 'image_url', 
-                image_url: { 
-                  url: `data:image/jpeg;base64,${base64Image}` 
-                } 
-              }
-            ]
-          }
-        ],
-        max_tokens: 1000,
-        temperature: 0.7
-      })
-    });
+// Helper function to settle a finished job's credits and record its usage.
+// Credits are taken when the job is submitted; failed or cancelled jobs and results served entirely
+// from the cache are refunded. Returns the credits the job cost.
+function settleCredits(job, { status, cached = false, provider, model, usage }) {
+  const { billing } = job.input;
+  const refund = status !== 'done' || cached;
 
-    if (!response.ok) {
-      const errorData = await response.text();
-      throw new Error(`OpenRouter API error: ${response.status} - ${errorData}`);
+  try {
+    if (refund) {
+      accounts.addCredits(billing.accountId, billing.credits);
     }
-
-    const data = await response.json();
-    return data.choices[0].message.content;
+    accounts.recordUsage({
+      accountId: billing.accountId,
+      apiKeyId: billing.apiKeyId,
+      jobId: job.id,
+      status,
+      credits: refund ? 0 : billing.credits,
+      cached,
+      provider,
+      model,
+      usage
+    });
   } catch (error) {
-    console.error('OpenRouter API Error:', error);
-    throw new Error(`AI processing failed: ${error.message}`);
+    console.error('Billing error:', error);
   }
+
+  return refund ? 0 : billing.credits;
 }
 
-// Helper function to simulate image processing (since AI models can't actually edit images)
-async function processImageWithAI(inputPath, analysisResult) {
-  try {
-    const outputFilename = `processed-${uuidv4()}.jpg`;
-    const outputPath = path.join(processedDir, outputFilename);
-    
-    // Apply basic image enhancements based on AI analysis
-    // This is a simulation - in a real app, you'd use specialized image processing libraries
-    await sharp(inputPath)
-      .resize(2048, 2048, { 
-        fit: 'inside', 
-        withoutEnlargement: true 
-      })
-      .sharpen()
-      .modulate({
-        brightness: 1.1,
-        saturation: 1.2,
-        hue: 0
-      })
-      .jpeg({ quality: 95 })
-      .toFile(outputPath);
-    
-    return {
-      filename: outputFilename,
-      path: outputPath,
-      analysis: analysisResult
-    };
-  } catch (error) {
-    throw new Error(`Image processing failed: ${error.message}`);
+// Helper function to remove a job's uploaded files and damage mask
+async function removeJobUploads({ file, analysisFile, mask }) {
+  for (const uploaded of [file, analysisFile, mask].filter(Boolean)) {
+    try {
+      await fs.unlink(uploaded.path);
+    } catch (cleanupError) {
+      console.error('Cleanup error:', cleanupError);
+    }
   }
 }
 
-// Main API endpoint for image repair
-app.post('/api/repair-image', upload.single('image'), async (req, res) => {
+// Helper function to run the full repair pipeline for a queued job.
+// A cancelled job stops before its next stage and is refunded like a failed one.
+async function runRepairJob(job, setStage, signal) {
+  const { file, analysisFile, mask, mode, model, output } = job.input;
+  // Tokens spent by this job and the models tried; both stay empty when the AI analysis came from the cache
+  let usage = null;
+  let modelAttempts = [];
+
   try {
-    if (!req.file) {
-      return res.status(400).json({
-        error: 'No image file provided',
-        message: 'Please upload an image file'
-      });
-    }
+    console.log(`📸 Processing image: ${file.originalname}`);
 
-    console.log(`📸 Processing image: ${req.file.originalname}`);
-    
-    // Convert image to base64 for AI analysis
-    const base64Image = await imageToBase64(req.file.path);
+    // The analysis only depends on the image it was given, the prompt and the preferred model; the
+    // result also on the rendered image and everything applied after the analysis, so changing a
+    // slider or the format re-uses the AI analysis
+    const imageHash = await hashFile(file.path);
+    const analysisPath = (analysisFile || file).path;
+    const analysisKey = hashKey({
+      image: analysisFile ? await hashFile(analysisFile.path) : imageHash,
+      prompt: mode.prompt,
+      provider: restorationProvider.name,
+      model: model || restorationProvider.model
+    });
+    const resultKey = hashKey({
+      analysis: analysisKey,
+      image: analysisFile ? imageHash : undefined,
+      mask: mask ? await hashFile(mask.path) : null,
+      mode: { id: mode.id, parameters: mode.parameters },
+      output
+    });
+
+    const cachedResult = await resultCache.getResult(resultKey);
+    if (cachedResult) {
+      console.log('♻️  Serving cached result');
+      settleCredits(job, { status: 'done', cached: true, provider: cachedResult.provider, model: cachedResult.model });
+      return {
+        ...cachedResult,
+        originalFilename: file.originalname,
+        cached: true,
+        usage: null,
+        modelAttempts: [],
+        creditsCharged: 0
+      };
+    }
     
-    // Get AI analysis
-    console.log('🤖 Analyzing image with AI...');
-    const analysisResult = await callOpenRouterAPI(base64Image);
+    signal.throwIfAborted();
+    setStage('analyzing');
+    let analysisResult = resultCache.getAnalysis(analysisKey);
+    if (!analysisResult) {
+      // Get AI analysis
+      console.log('🤖 Analyzing image with AI...');
+      // Which models were tried only matters for this run, so it stays out of the cache
+      const { attempts, ...analysis } = await analyzeImage(restorationProvider, analysisPath, {
+        prompt: mode.prompt,
+        model,
+        signal
+      });
+      analysisResult = analysis;
+      usage = analysis.usage;
+      modelAttempts = attempts;
+      resultCache.setAnalysis(analysisKey, analysisResult);
+    } else {
+      console.log('♻️  Using cached AI analysis');
+    }
     
     // Process image based on AI analysis
+    signal.throwIfAborted();
     console.log('🔧 Processing image...');
-    const processedResult = await processImageWithAI(req.file.path, analysisResult);
-    
-    // Clean up original uploaded file
-    await fs.unlink(req.file.path);
-    
-    // Return processed image URL
-    const processedImageUrl = `/api/processed/${processedResult.filename}`;
+    setStage('enhancing');
+    // The file is named after the result's cache key
+    const processedFilename = `${resultKey}${OUTPUT_FORMATS[output.format].extension}`;
+    const processedPath = path.join(processedDir, processedFilename);
+    const processedResult = await renderRestoration(file.path, analysisResult, {
+      maskPath: mask?.path,
+      mode,
+      output,
+      outputPath: processedPath
+    });
     
+    // Refuse restorations that made the photo worse; the failure refunds the credits like any
+    // other failed job
+    const metrics = await checkQuality(file.path, processedPath, { ...QUALITY_GATE, mode });
+    console.log(`📏 Quality score ${metrics.score.before} → ${metrics.score.after}`);
+
     console.log('✅ Image processing completed successfully');
     
-    res.json({
-      success: true,
-      processedImageUrl,
+    const result = {
+      processedImageUrl: `/api/processed/${processedFilename}`,
       analysis: processedResult.analysis,
-      originalFilename: req.file.originalname,
-      processedFilename: processedResult.filename
+      report: processedResult.report,
+      plan: processedResult.plan,
+      planFallbacks: processedResult.planFallbacks,
+      provider: processedResult.provider,
+      model: processedResult.model,
+      requestedModel: model,
+      mode: processedResult.mode,
+      output: processedResult.output,
+      inpaintedPixels: processedResult.inpaintedPixels,
+      metrics,
+      originalFilename: file.originalname,
+      processedFilename
+    };
+    await resultCache.setResult(resultKey, processedFilename, result);
+
+    const creditsCharged = settleCredits(job, {
+      status: 'done',
+      provider: result.provider,
+      model: result.model,
+      usage
+    });
+    return { ...result, cached: false, usage, modelAttempts, creditsCharged };
+  } catch (error) {
+    if (signal.aborted) {
+      console.log(`🛑 Repair cancelled: ${file.originalname}`);
+    } else {
+      console.error('❌ Image processing error:', error);
+    }
+    settleCredits(job, {
+      status: signal.aborted ? 'cancelled' : 'failed',
+      provider: restorationProvider.name,
+      model: model || restorationProvider.model,
+      usage
+    });
+    throw error;
+  } finally {
+    await removeJobUploads(job.input);
+  }
+}
+
+// Repair jobs run in the background so uploads return immediately. Jobs cancelled while
+// still queued are refunded here, as they never reach runRepairJob.
+const repairJobs = createJobStore({
+  worker: runRepairJob,
+  onCancel: (job) => {
+    settleCredits(job, { status: 'cancelled' });
+    removeJobUploads(job.input);
+  },
+  concurrency: parseInt(process.env.JOB_CONCURRENCY, 10) || 2
+});
+
+// Main API endpoint for image repair - queues a job and returns its id
+// The image is rendered at its own size. An optional `analysisImage` (a downsized copy of the same
+// photo) is what the AI analyzes instead, so full-resolution originals aren't needed for that.
+// The optional `mask` field is a PNG of the same photo where white marks damage to inpaint.
+// `mode` and `parameters` (a JSON object) select the restoration mode and its slider values.
+// `format`, `quality`, `keepMetadata` and `captureDate` (EXIF format) control the output file.
+const repairUpload = upload.fields([
+  { name: 'image', maxCount: 1 },
+  { name: 'analysisImage', maxCount: 1 },
+  { name: 'mask', maxCount: 1 }
+]);
+
+app.post('/api/repair-image', requireAccount, repairLimiter, repairUpload, async (req, res, next) => {
+  const file = req.files?.image?.[0];
+  const analysisFile = req.files?.analysisImage?.[0];
+  const mask = req.files?.mask?.[0];
+
+  const removeUploads = () => {
+    for (const uploaded of [file, analysisFile, mask].filter(Boolean)) {
+      fs.unlink(uploaded.path).catch((cleanupError) => console.error('Cleanup error:', cleanupError));
+    }
+  };
+
+  const rejectUpload = (body, status = 400) => {
+    removeUploads();
+    return res.status(status).json(body);
+  };
+
+  if (!file) {
+    return rejectUpload({
+      error: 'No image file provided',
+      message: 'Please upload an image file'
     });
+  }
 
+  try {
+    await validateUpload(file.path);
+    if (analysisFile) {
+      await validateUpload(analysisFile.path).catch((error) => {
+        error.message = `Analysis image: ${error.message}`;
+        throw error;
+      });
+    }
+    if (mask) {
+      await validateUpload(mask.path, { formats: ['png', 'jpeg', 'webp'] }).catch((error) => {
+        error.message = `Damage mask: ${error.message}`;
+        throw error;
+      });
+    }
   } catch (error) {
-    console.error('❌ Image processing error:', error);
-    
-    // Clean up uploaded file if it exists
-    if (req.file) {
+    if (!error.code) {
+      removeUploads();
+      return next(error);
+    }
+    const { status, body } = describeImageError(error);
+    return rejectUpload(body, status);
+  }
+
+  let mode;
+  try {
+    const parameters = req.body.parameters ? JSON.parse(req.body.parameters) : {};
+    mode = resolveRestorationMode(req.body.mode || undefined, parameters);
+  } catch (error) {
+    return rejectUpload({
+      error: 'Invalid restoration mode',
+      message: error.message
+    });
+  }
+
+  // The preferred model is tried first; the other configured models remain as fallbacks
+  const model = req.body.model || null;
+  if (model && !restorationProvider.hasModel(model)) {
+    return rejectUpload({
+      error: 'Unknown model',
+      code: 'UNKNOWN_MODEL',
+      message: `"${model}" is not one of the configured models. See GET /api/models.`
+    });
+  }
+
+  let output;
+  try {
+    output = resolveOutputOptions({
+      format: req.body.format,
+      quality: req.body.quality,
+      keepMetadata: req.body.keepMetadata,
+      captureDate: req.body.captureDate
+    });
+  } catch (error) {
+    return rejectUpload({
+      error: 'Invalid output format',
+      message: error.message
+    });
+  }
+
+  const { account, apiKeyId } = req.auth;
+  if (!accounts.debitCredits(account.id, CREDITS_PER_RESTORATION)) {
+    return rejectUpload({
+      error: 'Insufficient credits',
+      message: `A restoration costs ${CREDITS_PER_RESTORATION} credit(s) and your balance is ${accounts.getAccount(account.id).credits}`
+    }, 402);
+  }
+
+  const billing = { accountId: account.id, apiKeyId, credits: CREDITS_PER_RESTORATION };
+  const job = repairJobs.submit(
+    { file, analysisFile, mask, mode, model, output, billing },
+    { originalFilename: file.originalname, mode: mode.id },
+    { owner: account.id }
+  );
+
+  res.status(202).json({
+    success: true,
+    jobId: job.id,
+    stage: job.stage,
+    credits: accounts.getAccount(account.id).credits,
+    statusUrl: `/api/jobs/${job.id}`,
+    eventsUrl: `/api/jobs/${job.id}/events`
+  });
+});
+
+// Split a flatbed scan into the photos on it, each straightened and with the scanner border
+// trimmed. Send `regions` (JSON) to re-extract photos from adjusted rectangles instead.
+app.post('/api/scans/split', scanLimiter, scanUpload.single('image'), async (req, res, next) => {
+  const file = req.file;
+  if (!file) {
+    return res.status(400).json({
+      error: 'No image file provided',
+      message: 'Please upload a scan'
+    });
+  }
+
+  try {
+    await validateUpload(file.path, { limits: SCAN_LIMITS });
+
+    let regions;
+    if (req.body.regions) {
       try {
-        await fs.unlink(req.file.path);
-      } catch (cleanupError) {
-        console.error('Cleanup error:', cleanupError);
+        regions = JSON.parse(req.body.regions);
+      } catch {
+        regions = null;
+      }
+      if (!Array.isArray(regions) || regions.length === 0 || regions.length > 50) {
+        return res.status(400).json({
+          error: 'Invalid regions',
+          code: 'INVALID_REGION',
+          message: 'regions must be a JSON array of 1 to 50 rectangles'
+        });
       }
     }
-    
-    res.status(500).json({
-      error: 'Image processing failed',
-      message: error.message,
-      details: process.env.NODE_ENV === 'development' ? error.stack : undefined
+
+    const scan = await splitScan(file.path, { regions });
+    console.log(`🗂️  Split scan ${file.originalname} into ${scan.photos.length} photo(s)`);
+
+    res.json({
+      success: true,
+      width: scan.width,
+      height: scan.height,
+      photos: scan.photos.map((photo) => ({
+        region: photo.region,
+        width: photo.width,
+        height: photo.height,
+        image: `data:image/jpeg;base64,${photo.buffer.toString('base64')}`
+      }))
+    });
+  } catch (error) {
+    if (error.code === 'INVALID_REGION') {
+      return res.status(400).json({ error: 'Invalid regions', code: error.code, message: error.message });
+    }
+    if (error.code) {
+      const { status, body } = describeImageError(error);
+      return res.status(status).json(body);
+    }
+    next(error);
+  } finally {
+    fs.unlink(file.path).catch((cleanupError) => console.error('Cleanup error:', cleanupError));
+  }
+});
+
+// Create an account with the sign-up credits; the response holds its first API key,
+// which is never shown again
+app.post('/api/accounts', signupLimiter, (req, res) => {
+  try {
+    const { account, apiKey } = accounts.createAccount({ email: req.body.email, name: req.body.name });
+    console.log(`👤 Account created: ${account.email}`);
+    res.status(201).json({ account, apiKey });
+  } catch (error) {
+    res.status(error.code === 'ACCOUNT_EXISTS' ? 409 : 400).json({
+      error: error.code === 'ACCOUNT_EXISTS' ? 'Account already exists' : 'Invalid account',
+      message: error.message
+    });
+  }
+});
+
+// The caller's account, credit balance and API keys
+app.get('/api/account', requireAccount, (req, res) => {
+  const { account, apiKeyId } = req.auth;
+  res.json({
+    account: accounts.getAccount(account.id),
+    apiKeyId,
+    keys: accounts.listApiKeys(account.id),
+    creditsPerRestoration: CREDITS_PER_RESTORATION
+  });
+});
+
+// Token, cost and credit totals plus the most recent restorations
+app.get('/api/account/usage', requireAccount, (req, res) => {
+  const limit = Math.min(200, Math.max(1, parseInt(req.query.limit, 10) || 50));
+  res.json(accounts.getUsage(req.auth.account.id, { limit }));
+});
+
+app.post('/api/account/keys', requireAccount, (req, res) => {
+  const apiKey = accounts.createApiKey(req.auth.account.id, req.body.label);
+  res.status(201).json({ apiKey });
+});
+
+app.delete('/api/account/keys/:id', requireAccount, (req, res) => {
+  if (!accounts.revokeApiKey(req.auth.account.id, req.params.id)) {
+    return res.status(404).json({
+      error: 'API key not found',
+      message: 'The API key does not exist or has already been revoked'
+    });
+  }
+  res.json({ success: true });
+});
+
+// Available restoration modes and their tunable parameters
+app.get('/api/modes', (req, res) => {
+  res.json({ modes: describeRestorationModes() });
+});
+
+// Configured models in failover order, with their timeouts and circuit breaker state
+app.get('/api/models', (req, res) => {
+  res.json({ models: restorationProvider.listModels() });
+});
+
+// Output formats this server can encode
+app.get('/api/formats', (req, res) => {
+  res.json({ formats: describeOutputFormats() });
+});
+
+// Repair job status
+app.get('/api/jobs/:id', (req, res) => {
+  const job = repairJobs.get(req.params.id);
+  if (!job) {
+    return res.status(404).json({
+      error: 'Job not found',
+      message: 'The requested repair job does not exist or has expired'
+    });
+  }
+
+  res.json(job);
+});
+
+// Cancel a repair job. Queued jobs are taken out of the queue and refunded; running jobs stop
+// before their next stage (an AI request in flight is aborted) and are refunded as well.
+// Only the account that submitted the job can cancel it.
+app.delete('/api/jobs/:id', requireAccount, (req, res) => {
+  const job = repairJobs.cancel(req.params.id, { owner: req.auth.account.id });
+  if (!job) {
+    return res.status(404).json({
+      error: 'Job not found',
+      message: 'The requested repair job does not exist or has expired'
+    });
+  }
+
+  if (job.stage === 'done' || job.stage === 'failed') {
+    return res.status(409).json({
+      error: 'Job already finished',
+      code: 'JOB_FINISHED',
+      message: `The repair job has already ${job.stage === 'done' ? 'completed' : 'failed'}`,
+      job
+    });
+  }
+
+  // A running job reports `cancelled` once it has stopped
+  res.status(job.stage === 'cancelled' ? 200 : 202).json(job);
+});
+
+// Repair job stage changes as server-sent events
+app.get('/api/jobs/:id/events', (req, res) => {
+  const job = repairJobs.get(req.params.id);
+  if (!job) {
+    return res.status(404).json({
+      error: 'Job not found',
+      message: 'The requested repair job does not exist or has expired'
     });
   }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive'
+  });
+
+  const send = (state) => res.write(`data: ${JSON.stringify(state)}\n\n`);
+  send(job);
+
+  if (isTerminalStage(job.stage)) {
+    return res.end();
+  }
+
+  // Comment lines keep proxies from closing an idle stream
+  const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), 15000);
+
+  const close = () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  };
+
+  const unsubscribe = repairJobs.subscribe(job.id, (state) => {
+    send(state);
+    if (isTerminalStage(state.stage)) {
+      close();
+      res.end();
+    }
+  });
+
+  req.on('close', close);
 });
 
-// Serve processed images
+// Serve processed images. `?download=<name>` sends the file as an attachment with that name.
 app.get('/api/processed/:filename', async (req, res) => {
   try {
-    const filename = req.params.filename;
+    const filename = path.basename(req.params.filename);
     const filePath = path.join(processedDir, filename);
     
     // Check if file exists
     await fs.access(filePath);
+    // Serving a result counts as using it, not just repeating the repair
+    resultCache.touchFile(filename);
     
     // Set appropriate headers
-    res.setHeader('Content-Type', 'image/jpeg');
+    if (typeof req.query.download === 'string' && req.query.download) {
+      res.attachment(path.basename(req.query.download));
+    }
+    res.setHeader('Content-Type', contentTypeForFile(filename));
     res.setHeader('Cache-Control', 'public, max-age=86400'); // Cache for 24 hours
     
     // Send file
@@ -294,6 +790,176 @@ app.get('/api/processed/:filename', async (req, res) => {
   }
 });
 
+// Share a before/after pair under a public link. Send the original as `image` and the
+// restored file's `processedFilename`; `title` and `expiresInDays` (1, 7 or 30) are optional.
+app.post('/api/shares', requireAccount, shareLimiter, upload.single('image'), async (req, res, next) => {
+  const file = req.file;
+  if (!file) {
+    return res.status(400).json({
+      error: 'No image file provided',
+      message: 'Please upload the original photo'
+    });
+  }
+
+  try {
+    const expiresInDays = req.body.expiresInDays
+      ? Number(req.body.expiresInDays)
+      : DEFAULT_SHARE_EXPIRY_DAYS;
+    if (!SHARE_EXPIRY_DAYS.includes(expiresInDays)) {
+      return res.status(400).json({
+        error: 'Invalid expiry',
+        code: 'INVALID_EXPIRY',
+        message: `expiresInDays must be one of: ${SHARE_EXPIRY_DAYS.join(', ')}`
+      });
+    }
+
+    const processedPath = path.join(processedDir, path.basename(String(req.body.processedFilename || '')));
+    try {
+      await fs.access(processedPath);
+    } catch {
+      return res.status(404).json({
+        error: 'Restored image not found',
+        code: 'RESULT_NOT_FOUND',
+        message: 'The restored image does not exist anymore, repair the photo again to share it'
+      });
+    }
+
+    try {
+      await validateUpload(file.path);
+    } catch (error) {
+      if (!error.code) throw error;
+      const { status, body } = describeImageError(error);
+      return res.status(status).json(body);
+    }
+
+    const share = await shares.createShare({
+      accountId: req.auth.account.id,
+      beforePath: file.path,
+      afterPath: processedPath,
+      title: req.body.title,
+      expiresInDays
+    });
+    console.log(`🔗 Shared link created: ${share.id}`);
+    res.status(201).json({ share });
+  } catch (error) {
+    next(error);
+  } finally {
+    fs.unlink(file.path).catch((cleanupError) => console.error('Cleanup error:', cleanupError));
+  }
+});
+
+// The caller's shared links, newest first, including expired and revoked ones
+app.get('/api/shares', requireAccount, (req, res) => {
+  res.json({ shares: shares.listShares(req.auth.account.id) });
+});
+
+// Revoke a shared link; its page and images stop working immediately
+app.delete('/api/shares/:id', requireAccount, async (req, res) => {
+  if (!(await shares.revokeShare(req.params.id, req.auth.account.id))) {
+    return res.status(404).json({
+      error: 'Shared link not found',
+      message: 'The shared link does not exist or has already been revoked'
+    });
+  }
+  res.json({ success: true });
+});
+
+// Public comparison page of a shared link
+app.get('/s/:id', (req, res) => {
+  const nonce = crypto.randomBytes(16).toString('base64');
+  const share = shares.getShare(req.params.id);
+
+  res.setHeader('Content-Security-Policy', sharePageCsp(nonce));
+  res.setHeader('X-Robots-Tag', 'noindex');
+  res.type('html');
+
+  if (share?.status !== 'active') {
+    return res.status(share ? 410 : 404).send(renderUnavailablePage(share?.status, { nonce }));
+  }
+
+  shares.recordView(share.id);
+  res.setHeader('Cache-Control', 'no-store');
+  res.send(renderSharePage(share, { nonce, baseUrl: `${req.protocol}://${req.get('host')}` }));
+});
+
+// Photos and generated comparison images of a shared link
+app.get('/s/:id/:file', async (req, res, next) => {
+  const share = shares.getShare(req.params.id);
+  if (share?.status !== 'active') {
+    return res.status(share ? 410 : 404).json({
+      error: 'Shared link unavailable',
+      message: share ? `The shared link has been ${share.status}` : 'The shared link does not exist'
+    });
+  }
+
+  const name = req.params.file;
+  if (!['before.jpg', 'after.jpg'].includes(name) && !SHARE_ASSETS[name]) {
+    return res.status(404).json({
+      error: 'Not found',
+      message: `Shared links have before.jpg, after.jpg and ${Object.keys(SHARE_ASSETS).join(', ')}`
+    });
+  }
+
+  try {
+    const filePath = await shares.filePath(share, name);
+    res.setHeader('Content-Type', SHARE_ASSETS[name]?.contentType || 'image/jpeg');
+    res.setHeader('X-Robots-Tag', 'noindex');
+    // Revoking has to take effect, so images are only cached briefly
+    res.setHeader('Cache-Control', 'public, max-age=300');
+    res.sendFile(filePath);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Helper function to guard admin endpoints with the ADMIN_TOKEN bearer token.
+// Admin endpoints are disabled when no token is configured.
+function requireAdmin(req, res, next) {
+  const token = process.env.ADMIN_TOKEN;
+  if (!token) {
+    return res.status(404).json({
+      error: 'Not found',
+      message: 'The requested endpoint does not exist'
+    });
+  }
+
+  const expected = crypto.createHash('sha256').update(`Bearer ${token}`).digest();
+  const provided = crypto.createHash('sha256').update(req.get('Authorization') || '').digest();
+  if (!crypto.timingSafeEqual(expected, provided)) {
+    return res.status(401).json({
+      error: 'Unauthorized',
+      message: 'A valid admin token is required'
+    });
+  }
+
+  next();
+}
+
+// Cache hit rates, storage use and retention activity
+app.get('/api/admin/stats', requireAdmin, async (req, res) => {
+  res.json(await resultCache.stats());
+});
+
+// Top up an account's credits
+app.post('/api/admin/accounts/:id/credits', requireAdmin, (req, res) => {
+  const amount = Number(req.body.amount);
+  if (!Number.isInteger(amount) || amount <= 0) {
+    return res.status(400).json({
+      error: 'Invalid amount',
+      message: 'amount must be a positive whole number of credits'
+    });
+  }
+
+  try {
+    res.json({ account: accounts.addCredits(req.params.id, amount) });
+  } catch (error) {
+    res.status(404).json({
+      error: 'Account not found',
+      message: error.message
+    });
+  }
+});
+
 // Health check endpoint
 app.get('/api/health', (req, res) => {
   res.json({
@@ -304,6 +970,16 @@ app.get('/api/health', (req, res) => {
   });
 });
 
+// Helper function to describe the caller's remaining credits
+function describeQuota(accountId) {
+  const { credits } = accounts.getAccount(accountId);
+  return {
+    credits,
+    creditsPerRestoration: CREDITS_PER_RESTORATION,
+    restorationsRemaining: Math.floor(credits / CREDITS_PER_RESTORATION)
+  };
+}
+
 // API info endpoint
 app.get('/api/info', (req, res) => {
   res.json({
@@ -311,15 +987,51 @@ app.get('/api/info', (req, res) => {
     description: 'AI-powered photo restoration service',
     version: '1.0.0',
     endpoints: {
-      'POST /api/repair-image': 'Upload and repair an image',
+      'POST /api/accounts': 'Create an account and its first API key',
+      'GET /api/account': 'Your account, credit balance and API keys',
+      'GET /api/account/usage': 'Your restorations, tokens, cost and credits used, including failed jobs',
+      'POST /api/account/keys': 'Create another API key',
+      'DELETE /api/account/keys/:id': 'Revoke an API key',
+      'POST /api/repair-image': 'Upload an image (and optional damage mask) and queue a repair job (costs credits)',
+      'POST /api/scans/split': 'Split a flatbed scan into straightened, trimmed photos (free)',
+      'GET /api/modes': 'Restoration modes and their parameters',
+      'GET /api/models': 'AI models in failover order and their availability',
+      'GET /api/formats': 'Output formats and quality ranges',
+      'GET /api/jobs/:id': 'Repair job stage and result',
+      'GET /api/jobs/:id/events': 'Repair job stage changes (server-sent events)',
+      'DELETE /api/jobs/:id': 'Cancel a queued or running repair job and refund its credits',
       'GET /api/processed/:filename': 'Download processed image',
+      'POST /api/shares': 'Share a before/after pair under a public link that expires',
+      'GET /api/shares': 'Your shared links',
+      'DELETE /api/shares/:id': 'Revoke a shared link',
+      'GET /s/:id': 'Public before/after comparison page of a shared link',
+      'GET /s/:id/:file': 'before.jpg, after.jpg, side-by-side.jpg, wipe.webp or wipe.gif of a shared link',
+      'GET /api/admin/stats': 'Cache and storage statistics (requires ADMIN_TOKEN)',
+      'POST /api/admin/accounts/:id/credits': 'Add credits to an account (requires ADMIN_TOKEN)',
       'GET /api/health': 'Health check',
       'GET /api/info': 'API information'
     },
     limits: {
-      fileSize: '10MB',
-      rateLimit: '10 requests per 15 minutes per IP'
-    }
+      fileSize: `${Math.round(IMAGE_LIMITS.maxBytes / (1024 * 1024))}MB`,
+      maxBytes: IMAGE_LIMITS.maxBytes,
+      maxDimension: IMAGE_LIMITS.maxDimension,
+      maxPixels: IMAGE_LIMITS.maxPixels,
+      scans: {
+        maxBytes: SCAN_LIMITS.maxBytes,
+        maxDimension: SCAN_LIMITS.maxDimension,
+        maxPixels: SCAN_LIMITS.maxPixels
+      },
+      formats: 'JPEG, PNG, WebP, TIFF, GIF (not animated) and HEIC',
+      rateLimit: `${REPAIR_RATE_LIMIT} repairs per minute per account`
+    },
+    qualityGate: QUALITY_GATE,
+    pricing: {
+      creditsPerRestoration: CREDITS_PER_RESTORATION,
+      signupCredits: SIGNUP_CREDITS,
+      cachedRepeatsFree: true
+    },
+    // Only present when the request carries an API key
+    quota: req.auth ? describeQuota(req.auth.account.id) : null
   });
 });
 
@@ -329,10 +1041,12 @@ app.use((error, req, res, next) => {
   
   if (error instanceof multer.MulterError) {
     if (error.code === 'LIMIT_FILE_SIZE') {
-      return res.status(400).json({
-        error: 'File too large',
-        message: 'Image file must be smaller than 10MB'
-      });
+      const { maxBytes } = req.path === '/api/scans/split' ? SCAN_LIMITS : IMAGE_LIMITS;
+      const { status, body } = describeImageError(imageValidationError(
+        'FILE_TOO_LARGE',
+        `Image file must be smaller than ${Math.round(maxBytes / (1024 * 1024))}MB`
+      ));
+      return res.status(status).json(body);
     }
   }
   
@@ -354,18 +1068,24 @@ app.use('*', (req, res) => {
 app.listen(PORT, () => {
   console.log(`🚀 Picture Repair API Server running on port ${PORT}`);
   console.log(`📍 Environment: ${process.env.NODE_ENV || 'development'}`);
-  console.log(`🔑 OpenRouter API: ${OPENROUTER_API_KEY ? '✅ Configured' : '❌ Missing'}`);
+  console.log(`🤖 Restoration provider: ${restorationProvider.name} (${restorationProvider.listModels().map((entry) => entry.id).join(' → ')})`);
   console.log(`📊 Health check: http://localhost:${PORT}/api/health`);
   console.log(`📖 API info: http://localhost:${PORT}/api/info`);
 });
 
 // Graceful shutdown
-process.on('SIGTERM', () => {
+process.on('SIGTERM', async () => {
   console.log('🛑 SIGTERM received, shutting down gracefully');
+  await resultCache.flush();
+  shares.close();
+  accounts.close();
   process.exit(0);
 });
 
-process.on('SIGINT', () => {
+process.on('SIGINT', async () => {
   console.log('🛑 SIGINT received, shutting down gracefully');
+  await resultCache.flush();
+  shares.close();
+  accounts.close();
   process.exit(0);
 });
\ No newline at end of file
@@ -0,0 +1,119 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import { createAccountStore } from '../lib/accounts.js';
+import { tempDir } from './helpers.js';
+
+async function openStore(t, options = {}) {
+  const store = createAccountStore({ dbPath: path.join(await tempDir(t), 'accounts.db'), ...options });
+  t.after(() => store.close());
+  return store;
+}
+
+const usage = { promptTokens: 1200, completionTokens: 300, totalTokens: 1500, cost: 0.002 };
+
+test('signing up creates an account with its first API key', async (t) => {
+  const store = await openStore(t, { signupCredits: 5 });
+  const { account, apiKey } = store.createAccount({ email: ' Ada@Example.com ', name: 'Ada' });
+
+  assert.equal(account.email, 'ada@example.com');
+  assert.equal(account.credits, 5);
+  assert.match(apiKey.key, /^prk_/);
+  assert.equal(apiKey.prefix, apiKey.key.slice(0, 10));
+
+  assert.throws(() => store.createAccount({ email: 'ada@example.com' }), { code: 'ACCOUNT_EXISTS' });
+  assert.throws(() => store.createAccount({ email: 'not-an-email' }), /valid email/);
+});
+
+test('new accounts get no credits unless a sign-up grant is configured', async (t) => {
+  const store = await openStore(t);
+  const { account } = store.createAccount({ email: 'ada@example.com' });
+
+  assert.equal(account.credits, 0);
+  assert.equal(store.debitCredits(account.id, 1), false);
+});
+
+test('API keys authenticate until they are revoked', async (t) => {
+  const store = await openStore(t);
+  const { account, apiKey } = store.createAccount({ email: 'ada@example.com' });
+  const second = store.createApiKey(account.id, 'CLI');
+
+  assert.equal(store.authenticate(apiKey.key).account.id, account.id);
+  assert.equal(store.authenticate(second.key).apiKeyId, second.id);
+  assert.equal(store.authenticate('prk_unknown'), null);
+  assert.equal(store.authenticate('sk-something-else'), null);
+
+  assert.equal(store.revokeApiKey(account.id, second.id), true);
+  assert.equal(store.revokeApiKey(account.id, second.id), false);
+  assert.equal(store.authenticate(second.key), null);
+  assert.ok(store.listApiKeys(account.id).find((key) => key.id === second.id).revokedAt);
+});
+
+test('credits are never overspent', async (t) => {
+  const store = await openStore(t, { signupCredits: 3 });
+  const { account } = store.createAccount({ email: 'ada@example.com' });
+
+  assert.equal(store.debitCredits(account.id, 2), true);
+  assert.equal(store.debitCredits(account.id, 2), false);
+  assert.equal(store.getAccount(account.id).credits, 1);
+
+  assert.equal(store.addCredits(account.id, 10).credits, 11);
+  assert.throws(() => store.addCredits('missing', 1), /does not exist/);
+});
+
+test('usage is recorded per key with token and cost totals', async (t) => {
+  const store = await openStore(t);
+  const { account, apiKey } = store.createAccount({ email: 'ada@example.com' });
+  const second = store.createApiKey(account.id, 'CLI');
+
+  store.recordUsage({ accountId: account.id, apiKeyId: apiKey.id, jobId: 'j1', status: 'done', credits: 1, provider: 'openrouter', model: 'm', usage });
+  store.recordUsage({ accountId: account.id, apiKeyId: second.id, jobId: 'j2', status: 'done', credits: 1, provider: 'openrouter', model: 'm', usage });
+  store.recordUsage({ accountId: account.id, apiKeyId: second.id, jobId: 'j3', status: 'done', credits: 0, cached: true });
+
+  const report = store.getUsage(account.id);
+  assert.equal(report.totals.restorations, 3);
+  assert.equal(report.totals.totalTokens, 3000);
+  assert.equal(report.totals.cost, 0.004);
+  assert.deepEqual(
+    report.byKey.map((row) => [row.apiKeyId, row.restorations, row.totalTokens]).sort(),
+    [[apiKey.id, 1, 1500], [second.id, 2, 1500]].sort()
+  );
+  assert.equal(report.recent[0].jobId, 'j3');
+  assert.equal(report.recent[0].cached, true);
+});
+
+test('tokens and cost of failed jobs count towards the totals', async (t) => {
+  const store = await openStore(t);
+  const { account, apiKey } = store.createAccount({ email: 'ada@example.com' });
+
+  store.recordUsage({ accountId: account.id, apiKeyId: apiKey.id, jobId: 'j1', status: 'done', credits: 1, usage });
+  // Analysed, then refused by the quality gate: refunded, but the tokens were spent
+  store.recordUsage({ accountId: account.id, apiKeyId: apiKey.id, jobId: 'j2', status: 'failed', credits: 0, usage });
+  // Failed before the model answered
+  store.recordUsage({ accountId: account.id, apiKeyId: apiKey.id, jobId: 'j3', status: 'failed', credits: 0 });
+
+  const report = store.getUsage(account.id);
+  assert.equal(report.totals.jobs, 3);
+  assert.equal(report.totals.restorations, 1);
+  assert.equal(report.totals.credits, 1);
+  assert.equal(report.totals.totalTokens, 3000);
+  assert.equal(report.totals.cost, 0.004);
+  assert.deepEqual(report.byKey.map((row) => [row.jobs, row.restorations, row.totalTokens]), [[3, 1, 3000]]);
+
+  assert.deepEqual(Object.keys(report.byStatus).sort(), ['done', 'failed']);
+  assert.equal(report.byStatus.done.jobs, 1);
+  assert.equal(report.byStatus.failed.jobs, 2);
+  assert.equal(report.byStatus.failed.restorations, 0);
+  assert.equal(report.byStatus.failed.totalTokens, 1500);
+  assert.equal(report.byStatus.failed.cost, 0.002);
+});
+
+test('an account without usage reports zero totals', async (t) => {
+  const store = await openStore(t);
+  const { account } = store.createAccount({ email: 'ada@example.com' });
+
+  const report = store.getUsage(account.id);
+  assert.deepEqual(report.totals, { jobs: 0, restorations: 0, credits: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0 });
+  assert.deepEqual(report.byKey, []);
+  assert.deepEqual(report.byStatus, {});
+});
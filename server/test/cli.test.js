@@ -0,0 +1,88 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFile } from 'child_process';
+import fs from 'fs/promises';
+import path from 'path';
+import { promisify } from 'util';
+import { SAMPLES, SERVER_DIR, tempDir } from './helpers.js';
+
+const CLI = path.join(SERVER_DIR, 'bin', 'picture-repair.js');
+
+// Helper function to run picture-repair offline with the mock provider; resolves with the exit
+// code and output instead of rejecting on a non-zero exit
+async function runCli(args) {
+  const env = { ...process.env, RESTORATION_PROVIDER: 'mock', OPENROUTER_API_KEY: '', QUALITY_GATE: 'off' };
+  try {
+    const { stdout, stderr } = await promisify(execFile)(process.execPath, [CLI, ...args], { env, timeout: 60 * 1000 });
+    return { code: 0, stdout, stderr };
+  } catch (error) {
+    if (typeof error.code !== 'number') throw error;
+    return { code: error.code, stdout: error.stdout, stderr: error.stderr };
+  }
+}
+
+async function makeInputTree(t) {
+  const root = await tempDir(t);
+  const input = path.join(root, 'scans');
+  await fs.mkdir(path.join(input, 'family'), { recursive: true });
+  await fs.copyFile(SAMPLES[0], path.join(input, 'grandpa.jpg'));
+  await fs.copyFile(SAMPLES[2], path.join(input, 'family', 'uncle.jpg'));
+  await fs.writeFile(path.join(input, 'notes.txt'), 'not an image');
+  return { input, output: path.join(root, 'restored') };
+}
+
+test('restores a directory tree into a mirrored output tree with sidecars and a report', async (t) => {
+  const { input, output } = await makeInputTree(t);
+  const { code } = await runCli([input, output, '--mode', 'denoise', '--format', 'png']);
+  assert.equal(code, 0);
+
+  for (const stem of ['grandpa', path.join('family', 'uncle')]) {
+    await fs.access(path.join(output, `${stem}.png`));
+    const sidecar = JSON.parse(await fs.readFile(path.join(output, `${stem}.json`), 'utf8'));
+    assert.equal(sidecar.restoredFile, `${path.basename(stem)}.png`);
+    assert.equal(sidecar.provider, 'mock');
+    assert.equal(sidecar.mode.id, 'denoise');
+    assert.ok(sidecar.metrics.score.after > 0);
+  }
+  await assert.rejects(fs.access(path.join(output, 'notes.png')));
+
+  const report = JSON.parse(await fs.readFile(path.join(output, 'picture-repair-report.json'), 'utf8'));
+  assert.equal(report.counts.total, 2);
+  assert.equal(report.counts.restored, 2);
+});
+
+test('a second run skips what is already restored unless forced', async (t) => {
+  const { input, output } = await makeInputTree(t);
+  await runCli([input, output]);
+
+  const again = await runCli([input, output]);
+  assert.equal(again.code, 0);
+  let report = JSON.parse(await fs.readFile(path.join(output, 'picture-repair-report.json'), 'utf8'));
+  assert.deepEqual([report.counts.restored, report.counts.skipped], [0, 2]);
+
+  await runCli([input, output, '--force']);
+  report = JSON.parse(await fs.readFile(path.join(output, 'picture-repair-report.json'), 'utf8'));
+  assert.deepEqual([report.counts.restored, report.counts.skipped], [2, 0]);
+});
+
+test('broken images fail on their own and make the run exit non-zero', async (t) => {
+  const { input, output } = await makeInputTree(t);
+  await fs.writeFile(path.join(input, 'broken.jpg'), Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0, 0x10, 0x4a, 0x46]));
+
+  const { code, stdout } = await runCli([input, output]);
+  assert.equal(code, 1);
+  assert.match(stdout, /broken\.jpg/);
+
+  const report = JSON.parse(await fs.readFile(path.join(output, 'picture-repair-report.json'), 'utf8'));
+  assert.deepEqual([report.counts.restored, report.counts.failed], [2, 1]);
+});
+
+test('invalid options are usage errors', async () => {
+  const { code, stderr } = await runCli(['only-one-dir']);
+  assert.equal(code, 2);
+  assert.match(stderr, /--help/);
+
+  const modes = await runCli(['--list-modes']);
+  assert.equal(modes.code, 0);
+  assert.match(modes.stdout, /scratch-removal/);
+});
@@ -0,0 +1,162 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createCircuitBreaker } from '../lib/circuit-breaker.js';
+import { createFailoverProvider } from '../lib/providers/failover.js';
+import { createRestorationProvider } from '../lib/providers/index.js';
+
+// Helper function for a provider that plays back a list of outcomes: an Error is thrown,
+// anything else is returned as the analysis
+function scriptedProvider(id, outcomes) {
+  const calls = [];
+  return {
+    calls,
+    name: 'scripted',
+    model: id,
+    async analyzeImage(request) {
+      calls.push(request);
+      const outcome = outcomes.length > 1 ? outcomes.shift() : outcomes[0];
+      if (outcome instanceof Error) throw outcome;
+      return { summary: `${id} says ${outcome}`, model: id };
+    }
+  };
+}
+
+function upstreamError(status, retryable = true) {
+  return Object.assign(new Error(`Upstream ${status}`), { code: 'PROVIDER_ERROR', status, retryable });
+}
+
+const fast = { retries: 2, baseDelayMs: 1, maxDelayMs: 5 };
+
+test('RESTORATION_MODELS lists the models in failover order with their timeouts', () => {
+  const provider = createRestorationProvider({
+    OPENROUTER_API_KEY: 'test-key',
+    RESTORATION_MODELS: 'vendor/model-a=30, vendor/model-b, mock',
+    MODEL_TIMEOUT_SECONDS: '45'
+  });
+
+  assert.deepEqual(
+    provider.listModels().map(({ id, provider: name, timeoutMs, default: isDefault }) => ({ id, name, timeoutMs, isDefault })),
+    [
+      { id: 'vendor/model-a', name: 'openrouter', timeoutMs: 30000, isDefault: true },
+      { id: 'vendor/model-b', name: 'openrouter', timeoutMs: 45000, isDefault: false },
+      { id: 'mock/canned-analysis', name: 'mock', timeoutMs: 45000, isDefault: false }
+    ]
+  );
+  assert.ok(provider.hasModel('vendor/model-b'));
+  assert.ok(!provider.hasModel('vendor/model-c'));
+});
+
+test('retryable failures are retried on the same model', async () => {
+  const primary = scriptedProvider('a', [upstreamError(429), 'ok']);
+  const provider = createFailoverProvider([{ id: 'a', provider: primary }], fast);
+
+  const result = await provider.analyzeImage({ imageBase64: 'x' });
+  assert.equal(result.summary, 'a says ok');
+  assert.equal(primary.calls.length, 2);
+  assert.deepEqual(result.attempts.map((attempt) => attempt.outcome), ['error', 'success']);
+});
+
+test('a model that keeps failing is replaced by the next one', async () => {
+  const primary = scriptedProvider('a', [upstreamError(503)]);
+  const backup = scriptedProvider('b', ['ok']);
+  const provider = createFailoverProvider([
+    { id: 'a', provider: primary },
+    { id: 'b', provider: backup }
+  ], fast);
+
+  const result = await provider.analyzeImage({ imageBase64: 'x' });
+  assert.equal(result.model, 'b');
+  assert.equal(primary.calls.length, 3);
+  assert.deepEqual(result.attempts.map((attempt) => `${attempt.model}:${attempt.outcome}`), ['a:error', 'a:error', 'a:error', 'b:success']);
+});
+
+test('non-retryable failures move on without retrying', async () => {
+  const primary = scriptedProvider('a', [upstreamError(400, false)]);
+  const backup = scriptedProvider('b', ['ok']);
+  const provider = createFailoverProvider([
+    { id: 'a', provider: primary },
+    { id: 'b', provider: backup }
+  ], fast);
+
+  await provider.analyzeImage({ imageBase64: 'x' });
+  assert.equal(primary.calls.length, 1);
+});
+
+test('the preferred model is tried first and the others remain fallbacks', async () => {
+  const first = scriptedProvider('a', ['ok']);
+  const second = scriptedProvider('b', ['ok']);
+  const provider = createFailoverProvider([
+    { id: 'a', provider: first },
+    { id: 'b', provider: second }
+  ], fast);
+
+  const result = await provider.analyzeImage({ imageBase64: 'x', model: 'b' });
+  assert.equal(result.model, 'b');
+  assert.equal(result.requestedModel, 'b');
+  assert.equal(first.calls.length, 0);
+  assert.equal(second.calls[0].model, undefined, 'the model choice is not passed on to the provider');
+
+  await assert.rejects(provider.analyzeImage({ imageBase64: 'x', model: 'c' }), { code: 'UNKNOWN_MODEL' });
+});
+
+test('when every model fails the error lists what was tried', async () => {
+  const provider = createFailoverProvider([
+    { id: 'a', provider: scriptedProvider('a', [upstreamError(500)]) },
+    { id: 'b', provider: scriptedProvider('b', [upstreamError(502, false)]) }
+  ], fast);
+
+  await assert.rejects(provider.analyzeImage({ imageBase64: 'x' }), (error) => {
+    assert.equal(error.code, 'MODELS_UNAVAILABLE');
+    assert.match(error.message, /a failed \(500\)/);
+    assert.match(error.message, /b failed \(502\)/);
+    assert.equal(error.attempts.length, 4);
+    return true;
+  });
+});
+
+test('an open circuit skips the model until its cooldown has passed', async () => {
+  const primary = scriptedProvider('a', [upstreamError(503, false)]);
+  const backup = scriptedProvider('b', ['ok']);
+  const provider = createFailoverProvider([
+    { id: 'a', provider: primary },
+    { id: 'b', provider: backup }
+  ], { ...fast, breaker: { failureThreshold: 2, cooldownMs: 60 * 1000 } });
+
+  await provider.analyzeImage({ imageBase64: 'x' });
+  await provider.analyzeImage({ imageBase64: 'x' });
+  const result = await provider.analyzeImage({ imageBase64: 'x' });
+
+  assert.equal(primary.calls.length, 2);
+  assert.equal(result.attempts[0].outcome, 'skipped');
+  assert.equal(provider.listModels()[0].state, 'open');
+});
+
+test('a half-open circuit closes again after a successful trial', () => {
+  let now = 0;
+  const breaker = createCircuitBreaker({ failureThreshold: 1, cooldownMs: 1000, now: () => now });
+
+  breaker.recordFailure();
+  assert.equal(breaker.canRequest(), false);
+  now = 1000;
+  assert.equal(breaker.canRequest(), true);
+  assert.equal(breaker.describe().state, 'half-open');
+
+  breaker.recordSuccess();
+  assert.equal(breaker.describe().state, 'closed');
+});
+
+test('a cancelled request is neither retried, failed over nor counted against the model', async () => {
+  const controller = new AbortController();
+  controller.abort();
+  const primary = scriptedProvider('a', [Object.assign(new Error('This operation was aborted'), { name: 'AbortError' })]);
+  const backup = scriptedProvider('b', ['ok']);
+  const provider = createFailoverProvider(
+    [{ id: 'a', provider: primary }, { id: 'b', provider: backup }],
+    { ...fast, breaker: { failureThreshold: 1 } }
+  );
+
+  await assert.rejects(provider.analyzeImage({ imageBase64: 'x', signal: controller.signal }), { name: 'AbortError' });
+  assert.equal(primary.calls.length, 1);
+  assert.equal(backup.calls.length, 0);
+  assert.equal(provider.listModels()[0].state, 'closed');
+});
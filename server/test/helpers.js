@@ -0,0 +1,18 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+// Shared fixtures: the sample photos bundled with the frontend and throwaway directories
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+export const SERVER_DIR = path.join(__dirname, '..');
+export const SAMPLES = [1, 2, 3].map((n) => path.join(SERVER_DIR, '..', 'public', 'samples', `sample${n}_before.jpg`));
+
+// Helper function to create an empty directory that is removed when the test finishes
+export async function tempDir(t) {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'picture-repair-test-'));
+  t.after(() => fs.rm(dir, { recursive: true, force: true }));
+  return dir;
+}
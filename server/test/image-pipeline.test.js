@@ -0,0 +1,32 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import sharp from 'sharp';
+import { DEFAULT_RESTORATION_PLAN } from '../lib/restoration-plan.js';
+import { applyRestorationPlan } from '../lib/image-pipeline.js';
+import { SAMPLES } from './helpers.js';
+
+const [sample] = SAMPLES;
+
+// Helper function to render the default plan and read the size of the result
+async function renderedSize(input, options) {
+  const { pipeline } = await applyRestorationPlan(input, DEFAULT_RESTORATION_PLAN, options);
+  const { info } = await pipeline.raw().toBuffer({ resolveWithObject: true });
+  return [info.width, info.height];
+}
+
+test('photos larger than maxSize are rendered at their own size', async () => {
+  const large = await sharp(sample).resize({ width: 2600 }).jpeg().toBuffer();
+  const { width, height } = await sharp(large).metadata();
+
+  assert.deepEqual(await renderedSize(large, { maxSize: 2048 }), [width, height]);
+  assert.deepEqual(await renderedSize(large, { maxSize: 2048, scale: 2 }), [width, height]);
+});
+
+test('upscaling stops at maxSize on the longest edge', async () => {
+  const { width, height } = await sharp(sample).metadata();
+  assert.ok(height > width);
+
+  assert.deepEqual(await renderedSize(sample, { scale: 2, maxSize: 4096 }), [width * 2, height * 2]);
+  const [, cappedHeight] = await renderedSize(sample, { scale: 2, maxSize: 500 });
+  assert.equal(cappedHeight, 500);
+});
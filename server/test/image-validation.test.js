@@ -0,0 +1,236 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import path from 'path';
+import zlib from 'zlib';
+import sharp from 'sharp';
+import { encodeAnimation } from '../lib/animation.js';
+import { DEFAULT_IMAGE_LIMITS, describeImageError, sniffImageType, validateImageBuffer, validateImageFile } from '../lib/image-validation.js';
+import { tempDir } from './helpers.js';
+
+const WIDTH = 64;
+const HEIGHT = 40;
+
+// Helper function to encode a small grey still in one of sharp's output formats
+function still(format, options = {}, { width = WIDTH, height = HEIGHT, channels = 3 } = {}) {
+  return sharp({ create: { width, height, channels, background: { r: 128, g: 96, b: 64, alpha: 0.5 } } })
+    .toFormat(format, options)
+    .toBuffer();
+}
+
+// Helper function for an ISO-BMFF box; `full` adds the version and flags of a full box
+function box(type, payload = Buffer.alloc(0), { full = false } = {}) {
+  const body = Buffer.concat([full ? Buffer.alloc(4) : Buffer.alloc(0), payload]);
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(8 + body.length, 0);
+  header.write(type, 4, 'latin1');
+  return Buffer.concat([header, body]);
+}
+
+// Helper function for the boxes of a HEIC file up to the image size; sharp has no HEVC encoder
+function heic({ brand = 'heic', compatible = brand, width = WIDTH, height = HEIGHT } = {}) {
+  const ispe = Buffer.alloc(8);
+  ispe.writeUInt32BE(width, 0);
+  ispe.writeUInt32BE(height, 4);
+  return Buffer.concat([
+    box('ftyp', Buffer.from(`${brand}\0\0\0\0mif1${compatible}`, 'latin1')),
+    box('meta', box('iprp', box('ipco', box('ispe', ispe, { full: true }))), { full: true }),
+    box('mdat', Buffer.alloc(16))
+  ]);
+}
+
+// Helper function for a PNG chunk with its checksum
+function pngChunk(type, payload) {
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(payload.length, 0);
+  header.write(type, 4, 'latin1');
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(zlib.crc32(Buffer.concat([header.subarray(4), payload])), 0);
+  return Buffer.concat([header, payload, crc]);
+}
+
+// Helper function to give a PNG a new size in its header, e.g. a decompression bomb's
+function withPngSize(png, width, height) {
+  const ihdr = Buffer.from(png.subarray(16, 29));
+  ihdr.writeUInt32BE(width, 0);
+  ihdr.writeUInt32BE(height, 4);
+  return Buffer.concat([png.subarray(0, 8), pngChunk('IHDR', ihdr), png.subarray(33)]);
+}
+
+// Helper function to turn a PNG into an APNG by adding the animation control chunk after IHDR
+function apng(png, frames = 2) {
+  const actl = Buffer.alloc(8);
+  actl.writeUInt32BE(frames, 0);
+  return Buffer.concat([png.subarray(0, 33), pngChunk('acTL', actl), png.subarray(33)]);
+}
+
+// Helper function for a two-frame animation encoded like the restored animations are
+async function animation(format) {
+  const frames = await Promise.all([0, 255].map((shade) =>
+    sharp({ create: { width: WIDTH, height: HEIGHT, channels: 3, background: { r: shade, g: shade, b: shade } } })
+      .raw()
+      .toBuffer({ resolveWithObject: true })
+  ));
+  return encodeAnimation(frames, { format, delays: [100, 100] });
+}
+
+const rejects = (buffer, code, options) => assert.throws(() => validateImageBuffer(buffer, options), { code });
+
+test('every supported format is recognised from its magic bytes and measured from its header', async () => {
+  const files = {
+    jpeg: await still('jpeg'),
+    png: await still('png'),
+    webp: await still('webp'),
+    tiff: await still('tiff'),
+    gif: await still('gif'),
+    heic: heic()
+  };
+
+  for (const [format, buffer] of Object.entries(files)) {
+    assert.equal(sniffImageType(buffer), format);
+    assert.deepEqual(validateImageBuffer(buffer), {
+      format,
+      mimeType: `image/${format}`,
+      width: WIDTH,
+      height: HEIGHT
+    }, format);
+  }
+});
+
+test('the three WebP bitstreams and big-endian TIFFs are measured', async () => {
+  const webps = [
+    await still('webp'),
+    await still('webp', { lossless: true }),
+    await still('webp', {}, { channels: 4 })
+  ];
+  assert.deepEqual(webps.map((file) => file.toString('latin1', 12, 16)), ['VP8 ', 'VP8L', 'VP8X']);
+  for (const file of webps) {
+    const { width, height } = validateImageBuffer(file);
+    assert.deepEqual([width, height], [WIDTH, HEIGHT]);
+  }
+
+  // Byte order mark, version 42, directory at 8 holding the width and height as SHORTs
+  const tiff = Buffer.alloc(8 + 2 + 2 * 12 + 4);
+  tiff.write('MM\0*', 0, 'latin1');
+  tiff.writeUInt32BE(8, 4);
+  tiff.writeUInt16BE(2, 8);
+  [[256, WIDTH], [257, HEIGHT]].forEach(([tag, value], index) => {
+    const entry = 10 + index * 12;
+    tiff.writeUInt16BE(tag, entry);
+    tiff.writeUInt16BE(3, entry + 2);
+    tiff.writeUInt32BE(1, entry + 4);
+    tiff.writeUInt16BE(value, entry + 8);
+  });
+  assert.deepEqual(validateImageBuffer(tiff), { format: 'tiff', mimeType: 'image/tiff', width: WIDTH, height: HEIGHT });
+});
+
+test('files that are not images are refused before their headers are read', async () => {
+  rejects(Buffer.from('just some text that is long enough'), 'NOT_AN_IMAGE');
+  rejects(Buffer.from([0xff, 0xd8, 0xff]), 'NOT_AN_IMAGE');
+  rejects(Buffer.alloc(0), 'NOT_AN_IMAGE');
+  // An ISO-BMFF file that isn't HEIC, e.g. an MP4 video
+  rejects(box('ftyp', Buffer.from('isom\0\0\0\0mp41', 'latin1')), 'NOT_AN_IMAGE');
+
+  rejects(await still('gif'), 'UNSUPPORTED_FORMAT', { formats: ['png', 'jpeg', 'webp'] });
+});
+
+test('truncated files are reported as corrupted', async () => {
+  const files = {
+    jpeg: await still('jpeg'),
+    png: await still('png'),
+    webp: await still('webp'),
+    tiff: await still('tiff'),
+    gif: await still('gif'),
+    heic: heic()
+  };
+
+  // Only the formats with an end marker can tell a missing last byte; TIFF and HEIC are read
+  // up to their image size
+  const endMarked = ['jpeg', 'png', 'webp', 'gif'];
+
+  for (const [format, buffer] of Object.entries(files)) {
+    const lengths = [16, Math.floor(buffer.length / 2), ...(endMarked.includes(format) ? [buffer.length - 1] : [])];
+    for (const length of lengths) {
+      assert.throws(() => validateImageBuffer(buffer.subarray(0, length)), { code: 'CORRUPTED_IMAGE' }, `${format} cut to ${length} bytes`);
+    }
+  }
+});
+
+test('damaged headers are reported as corrupted', async () => {
+  const png = await still('png');
+  const flipped = Buffer.from(png);
+  flipped[17] ^= 0xff;
+  assert.throws(() => validateImageBuffer(flipped), { code: 'CORRUPTED_IMAGE', message: /checksum/ });
+
+  // Garbage between the first segment and the next marker
+  const jpeg = await still('jpeg');
+  const firstSegmentEnd = 4 + jpeg.readUInt16BE(4);
+  assert.throws(
+    () => validateImageBuffer(Buffer.concat([jpeg.subarray(0, firstSegmentEnd), Buffer.from('garbage!'), jpeg.subarray(firstSegmentEnd)])),
+    { code: 'CORRUPTED_IMAGE', message: /invalid marker/ }
+  );
+
+  const gif = Buffer.from(await still('gif'));
+  gif[gif.length - 1] = 0x42;
+  rejects(gif, 'CORRUPTED_IMAGE');
+
+  rejects(withPngSize(png, 0, HEIGHT), 'CORRUPTED_IMAGE');
+  rejects(heic({ width: 0 }), 'CORRUPTED_IMAGE');
+});
+
+test('animated GIF, APNG, WebP and HEIC sequences are refused', async () => {
+  const gif = await animation('gif');
+  const webp = await animation('webp');
+  assert.equal(sniffImageType(gif), 'gif');
+  assert.equal(sniffImageType(webp), 'webp');
+
+  rejects(gif, 'ANIMATED_IMAGE');
+  rejects(webp, 'ANIMATED_IMAGE');
+  rejects(apng(await still('png')), 'ANIMATED_IMAGE');
+  // Bursts and HEIC animations are image sequences
+  rejects(heic({ brand: 'msf1', compatible: 'hevc' }), 'ANIMATED_IMAGE');
+
+  // A one-frame APNG is a still image
+  assert.equal(validateImageBuffer(apng(await still('png'), 1)).format, 'png');
+});
+
+test('files over maxBytes are refused before they are parsed', async () => {
+  const jpeg = await still('jpeg');
+  const limits = { ...DEFAULT_IMAGE_LIMITS, maxBytes: jpeg.length - 1 };
+
+  rejects(jpeg, 'FILE_TOO_LARGE', { limits });
+  rejects(Buffer.alloc(jpeg.length), 'FILE_TOO_LARGE', { limits });
+  assert.equal(validateImageBuffer(jpeg, { limits: { ...limits, maxBytes: jpeg.length } }).format, 'jpeg');
+});
+
+test('images over maxDimension or maxPixels are refused from their headers alone', async () => {
+  const png = await still('png');
+
+  rejects(png, 'DIMENSIONS_TOO_LARGE', { limits: { ...DEFAULT_IMAGE_LIMITS, maxDimension: WIDTH - 1 } });
+  assert.equal(validateImageBuffer(png, { limits: { ...DEFAULT_IMAGE_LIMITS, maxDimension: WIDTH } }).width, WIDTH);
+  rejects(png, 'TOO_MANY_PIXELS', { limits: { ...DEFAULT_IMAGE_LIMITS, maxPixels: WIDTH * HEIGHT - 1 } });
+  assert.equal(validateImageBuffer(png, { limits: { ...DEFAULT_IMAGE_LIMITS, maxPixels: WIDTH * HEIGHT } }).width, WIDTH);
+
+  // A decompression bomb: a tiny file claiming 10000×10000 pixels
+  const bomb = withPngSize(png, 10000, 10000);
+  assert.ok(bomb.length < 1024);
+  rejects(bomb, 'TOO_MANY_PIXELS');
+  rejects(withPngSize(png, 20000, 100), 'DIMENSIONS_TOO_LARGE');
+  rejects(heic({ width: 8000, height: 8000 }), 'TOO_MANY_PIXELS');
+});
+
+test('files are validated from disk and errors map to HTTP responses', async (t) => {
+  const dir = await tempDir(t);
+  const filePath = path.join(dir, 'photo.png');
+  await fs.writeFile(filePath, await still('png'));
+
+  assert.equal((await validateImageFile(filePath)).mimeType, 'image/png');
+
+  await fs.writeFile(filePath, 'not an image at all');
+  const error = await validateImageFile(filePath).catch((rejection) => rejection);
+  assert.deepEqual(describeImageError(error), {
+    status: 400,
+    body: { error: 'Not a supported image', code: 'NOT_AN_IMAGE', message: error.message }
+  });
+  assert.equal(describeImageError({ code: 'FILE_TOO_LARGE', message: 'x' }).status, 413);
+});
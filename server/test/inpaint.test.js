@@ -0,0 +1,84 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import sharp from 'sharp';
+import { inpaintInWorker, inpaintRaw, loadDamageMask } from '../lib/inpaint.js';
+
+// Helper function for a raw RGB image whose pixels come from `colour(x, y)`
+function rawImage(width, height, colour) {
+  const data = Buffer.alloc(width * height * 3);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      data.set(colour(x, y), (y * width + x) * 3);
+    }
+  }
+  return { data, info: { width, height, channels: 3 } };
+}
+
+// Helper function for a mask of the pixels where `marked(x, y)` holds
+function maskOf(width, height, marked) {
+  const mask = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (marked(x, y)) mask[y * width + x] = 1;
+    }
+  }
+  return mask;
+}
+
+const pixel = (data, width, x, y) => [...data.subarray((y * width + x) * 3, (y * width + x) * 3 + 3)];
+
+test('a damaged spot is filled with the colour around it', () => {
+  // The damage itself is white, the photo around it a flat blue
+  const { data, info } = rawImage(80, 60, (x, y) => ((x - 40) ** 2 + (y - 30) ** 2 < 400 ? [255, 255, 255] : [30, 60, 200]));
+  const output = inpaintRaw(data, info, maskOf(80, 60, (x, y) => (x - 40) ** 2 + (y - 30) ** 2 < 400));
+
+  assert.deepEqual(pixel(output, 80, 40, 30), [30, 60, 200]);
+  assert.deepEqual(pixel(output, 80, 25, 30), [30, 60, 200]);
+  assert.deepEqual(pixel(output, 80, 5, 5), [30, 60, 200]);
+});
+
+test('a scratch across a gradient is bridged from both sides', () => {
+  const { data, info } = rawImage(100, 40, (x) => [x * 2, 100, 255 - x * 2]);
+  const scratch = maskOf(100, 40, (x) => x >= 45 && x < 55);
+  const output = inpaintRaw(data, info, scratch);
+
+  for (let x = 45; x < 55; x++) {
+    const [red] = pixel(output, 100, x, 20);
+    assert.ok(red >= 88 && red <= 110, `red ${red} at x=${x}`);
+  }
+  // Undamaged pixels are left alone
+  assert.deepEqual(pixel(output, 100, 10, 20), [20, 100, 235]);
+});
+
+test('an image that is damaged everywhere keeps its content', () => {
+  const { data, info } = rawImage(20, 20, () => [90, 90, 90]);
+  const output = inpaintRaw(data, info, maskOf(20, 20, () => true));
+  assert.deepEqual(output, data);
+});
+
+test('large marks are filled on a worker thread with the same result', async () => {
+  const { data, info } = rawImage(400, 300, (x, y) => [(x * 7) % 256, (y * 5) % 256, (x + y) % 256]);
+  const mask = maskOf(400, 300, (x, y) => (x - 200) ** 2 + (y - 150) ** 2 < 120 ** 2);
+
+  let ticks = 0;
+  const timer = setInterval(() => ticks++, 1);
+  const output = await inpaintInWorker(data, info, mask);
+  clearInterval(timer);
+
+  assert.ok(Buffer.isBuffer(output));
+  assert.deepEqual(output, inpaintRaw(data, info, mask));
+  assert.ok(ticks > 0, 'the event loop kept running');
+});
+
+test('the damage mask is scaled to the photo and grown by a pixel', async () => {
+  // A 10×10 mask with one marked pixel, drawn over a 20×20 photo
+  const input = Buffer.alloc(100);
+  input[5 * 10 + 5] = 255;
+  const maskPng = await sharp(input, { raw: { width: 10, height: 10, channels: 1 } }).png().toBuffer();
+
+  const { mask, count } = await loadDamageMask(maskPng, 20, 20);
+  assert.equal(mask.length, 400);
+  assert.ok(count >= 4 * 3, `${count} pixels marked`);
+  assert.equal(mask.reduce((total, value) => total + value, 0), count);
+  assert.equal(mask[0], 0);
+});
@@ -0,0 +1,92 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createJobStore } from '../lib/jobs.js';
+
+// Helper function for a promise that can be settled from outside
+function deferred() {
+  let resolve;
+  const promise = new Promise((done) => { resolve = done; });
+  return { promise, resolve };
+}
+
+// Helper function to wait until a job reaches the given stage
+function stageReached(store, id, stage) {
+  return new Promise((resolve) => {
+    const unsubscribe = store.subscribe(id, (job) => {
+      if (job.stage === stage) {
+        unsubscribe();
+        resolve(job);
+      }
+    });
+  });
+}
+
+test('a queued job is taken out of the queue and handed to onCancel', async () => {
+  const release = deferred();
+  const started = [];
+  const cancelled = [];
+  const store = createJobStore({
+    concurrency: 1,
+    worker: async (job) => {
+      started.push(job.input.name);
+      await release.promise;
+      return { name: job.input.name };
+    },
+    onCancel: (job) => cancelled.push(job.input.name)
+  });
+
+  const first = store.submit({ name: 'first' }, {}, { owner: 'alice' });
+  const second = store.submit({ name: 'second' }, {}, { owner: 'alice' });
+
+  const job = store.cancel(second.id, { owner: 'alice' });
+  assert.equal(job.stage, 'cancelled');
+  assert.equal(job.error.code, 'CANCELLED');
+  assert.equal(job.owner, undefined);
+  assert.deepEqual(cancelled, ['second']);
+
+  const done = stageReached(store, first.id, 'done');
+  release.resolve();
+  await done;
+  assert.deepEqual(started, ['first']);
+  assert.equal(store.get(second.id).stage, 'cancelled');
+});
+
+test('only the owner can cancel a job', () => {
+  const store = createJobStore({ concurrency: 0, worker: async () => ({}) });
+  const job = store.submit({}, {}, { owner: 'alice' });
+
+  assert.equal(store.cancel(job.id, { owner: 'mallory' }), null);
+  assert.equal(store.cancel(job.id), null);
+  assert.equal(store.cancel('no-such-job', { owner: 'alice' }), null);
+  assert.equal(store.get(job.id).stage, 'queued');
+});
+
+test('a running job is aborted and ends as cancelled, not failed', async () => {
+  const started = deferred();
+  const store = createJobStore({
+    worker: (job, setStage, signal) => new Promise((resolve, reject) => {
+      setStage('analyzing');
+      started.resolve();
+      signal.addEventListener('abort', () => reject(signal.reason));
+    })
+  });
+
+  const { id } = store.submit({}, {}, { owner: 'alice' });
+  await started.promise;
+
+  const cancelled = stageReached(store, id, 'cancelled');
+  // The worker decides when it stops, so the job is still running right after the request
+  assert.equal(store.cancel(id, { owner: 'alice' }).stage, 'analyzing');
+  const job = await cancelled;
+  assert.equal(job.error.code, 'CANCELLED');
+});
+
+test('cancelling a finished job leaves it unchanged', async () => {
+  const store = createJobStore({ worker: async () => ({ ok: true }) });
+  const { id } = store.submit({}, {}, { owner: 'alice' });
+  await stageReached(store, id, 'done');
+
+  const job = store.cancel(id, { owner: 'alice' });
+  assert.equal(job.stage, 'done');
+  assert.deepEqual(job.result, { ok: true });
+});
@@ -0,0 +1,31 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createRestorationProvider } from '../lib/providers/index.js';
+import { createMockProvider } from '../lib/providers/mock.js';
+
+test('the mock provider answers offline with a valid, deterministic analysis', async () => {
+  const provider = createMockProvider();
+  const first = await provider.analyzeImage({ imageBase64: 'aGVsbG8=' });
+  const second = await provider.analyzeImage({ imageBase64: 'aGVsbG8=' });
+
+  assert.deepEqual(first, second);
+  assert.equal(first.provider, 'mock');
+  assert.deepEqual(first.fallbacks, []);
+  assert.ok(first.summary.length > 0);
+  assert.ok(first.report.damages.length > 0);
+  assert.deepEqual(first.usage, { promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0 });
+});
+
+test('without an API key the configured provider is the mock', async () => {
+  const provider = createRestorationProvider({});
+  assert.equal(provider.name, 'mock');
+  assert.deepEqual(provider.listModels().map((model) => model.id), ['mock/canned-analysis']);
+
+  const result = await provider.analyzeImage({ imageBase64: 'aGVsbG8=' });
+  assert.equal(result.provider, 'mock');
+  assert.deepEqual(result.attempts.map((attempt) => attempt.outcome), ['success']);
+});
+
+test('an unknown RESTORATION_PROVIDER is a configuration error', () => {
+  assert.throws(() => createRestorationProvider({ RESTORATION_PROVIDER: 'magic' }), /Unknown RESTORATION_PROVIDER/);
+});
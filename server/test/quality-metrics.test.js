@@ -0,0 +1,167 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import path from 'path';
+import sharp from 'sharp';
+import { DEFAULT_RESTORATION_PLAN } from '../lib/restoration-plan.js';
+import { applyRestorationPlan } from '../lib/image-pipeline.js';
+import { DEFAULT_QUALITY_GOAL, measureImage, qualityScore } from '../lib/quality-metrics.js';
+import { createMockProvider } from '../lib/providers/mock.js';
+import { analyzeImage, checkQuality, renderRestoration } from '../lib/repair-pipeline.js';
+import { RESTORATION_MODES, resolveRestorationMode } from '../lib/restoration-modes.js';
+import { SAMPLES, tempDir } from './helpers.js';
+
+const JPEG = { format: 'jpeg', quality: 90, keepMetadata: false };
+
+// Helper function to write a degraded copy of a sample, as a stand-in for a restoration gone wrong
+async function degrade(file, outputPath, transform) {
+  await transform(sharp(file)).jpeg({ quality: 90 }).toFile(outputPath);
+  return outputPath;
+}
+
+test('normal restorations of the bundled samples pass the gate in every mode', async (t) => {
+  const dir = await tempDir(t);
+  const provider = createMockProvider();
+
+  for (const [index, sample] of SAMPLES.entries()) {
+    const analysis = await analyzeImage(provider, sample, {});
+    for (const id of Object.keys(RESTORATION_MODES)) {
+      const mode = resolveRestorationMode(id);
+      const outputPath = path.join(dir, `sample${index + 1}-${id}.jpg`);
+      await renderRestoration(sample, analysis, { mode, output: JPEG, outputPath });
+
+      const metrics = await checkQuality(sample, outputPath, { mode });
+      assert.ok(
+        metrics.score.after >= metrics.score.before,
+        `sample${index + 1} in ${id} scored ${metrics.score.before} → ${metrics.score.after}`
+      );
+    }
+  }
+});
+
+test('the pipeline\'s sharpening and a median filter are not scored as noise', async () => {
+  for (const sample of SAMPLES) {
+    const original = await measureImage(sample);
+    const render = async (plan) => {
+      const { pipeline } = await applyRestorationPlan(sample, { ...DEFAULT_RESTORATION_PLAN, ...plan });
+      return measureImage(await pipeline.jpeg({ quality: 90 }).toBuffer(), { size: original });
+    };
+
+    const sharpened = await render({ sharpen: 1 });
+    const median = await measureImage(await sharp(sample).median(5).jpeg({ quality: 90 }).toBuffer(), { size: original });
+    assert.ok(sharpened.sharpness > original.sharpness);
+    // The cleanest sample is already at the JPEG noise floor, so allow a hair of slack
+    assert.ok(median.noise < original.noise + 0.05, `median noise ${median.noise} against ${original.noise}`);
+
+    for (const [id, { qualityGoal: goal }] of Object.entries(RESTORATION_MODES)) {
+      assert.ok(
+        qualityScore(sharpened, goal) > qualityScore(original, goal),
+        `sharpening scored ${qualityScore(original, goal)} → ${qualityScore(sharpened, goal)} in ${id}`
+      );
+    }
+  }
+});
+
+test('added grain raises the noise estimate', async (t) => {
+  const dir = await tempDir(t);
+  const [sample] = SAMPLES;
+  const { width, height } = await sharp(sample).metadata();
+  const grain = await sharp({ create: { width, height, channels: 3, noise: { type: 'gaussian', mean: 128, sigma: 30 } } }).png().toBuffer();
+  const original = await measureImage(sample);
+  const grainy = await measureImage(
+    await degrade(sample, path.join(dir, 'grainy.jpg'), (image) => image.composite([{ input: grain, blend: 'overlay' }])),
+    { size: original }
+  );
+
+  assert.ok(grainy.noise > original.noise * 2, `grainy noise ${grainy.noise} against ${original.noise}`);
+});
+
+test('results that ruin the photo are refused in every mode and deleted', async (t) => {
+  const dir = await tempDir(t);
+  const [sample] = SAMPLES;
+  const { width, height } = await sharp(sample).metadata();
+  const grain = await sharp({ create: { width, height, channels: 3, noise: { type: 'gaussian', mean: 128, sigma: 40 } } }).png().toBuffer();
+  const ruined = {
+    blurred: (image) => image.blur(3),
+    blownOut: (image) => image.linear(1.8, 0),
+    grainy: (image) => image.composite([{ input: grain, blend: 'overlay' }]),
+    flattened: (image) => image.linear(0.3, 90)
+  };
+
+  for (const [name, transform] of Object.entries(ruined)) {
+    for (const id of Object.keys(RESTORATION_MODES)) {
+      const outputPath = await degrade(sample, path.join(dir, `${name}-${id}.jpg`), transform);
+      await assert.rejects(
+        checkQuality(sample, outputPath, { mode: resolveRestorationMode(id) }),
+        { code: 'QUALITY_REGRESSION' },
+        `${name} should be refused in ${id}`
+      );
+      await assert.rejects(fs.access(outputPath), `${name} result should be deleted`);
+    }
+  }
+});
+
+test('cropped and rotated results are measured at their own aspect ratio, not stretched', async (t) => {
+  const dir = await tempDir(t);
+  // Vertical stripes 4 pixels wide over a gentle gradient: stretching either axis changes the
+  // Laplacian a lot, cropping along the stripes doesn't change it at all
+  const width = 480, height = 320;
+  const data = Buffer.alloc(width * height * 3);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = ((x >> 2) & 1 ? 190 : 40) + Math.round(y / height * 50);
+      data.fill(value, (y * width + x) * 3, (y * width + x) * 3 + 3);
+    }
+  }
+  const original = path.join(dir, 'stripes.png');
+  await sharp(data, { raw: { width, height, channels: 3 } }).png().toFile(original);
+
+  const reshaped = {
+    rotated: { transform: (image) => image.rotate(90), size: [height, width] },
+    cropped: { transform: (image) => image.extract({ left: 160, top: 0, width: 160, height }), size: [160, height] }
+  };
+
+  for (const [name, { transform, size }] of Object.entries(reshaped)) {
+    const outputPath = path.join(dir, `${name}.png`);
+    await transform(sharp(original)).png().toFile(outputPath);
+
+    const metrics = await checkQuality(original, outputPath, { mode: resolveRestorationMode('auto') });
+    assert.deepEqual([metrics.after.width, metrics.after.height], size, name);
+    assert.equal(metrics.score.after, metrics.score.before, name);
+  }
+});
+
+test('the gate can be turned off', async (t) => {
+  const dir = await tempDir(t);
+  const [sample] = SAMPLES;
+  const outputPath = await degrade(sample, path.join(dir, 'blurred.jpg'), (image) => image.blur(3));
+
+  const metrics = await checkQuality(sample, outputPath, { enabled: false });
+  assert.ok(metrics.score.after < metrics.score.before);
+  assert.ok(metrics.worse.includes('sharpness'));
+  await fs.access(outputPath);
+});
+
+test('the score weighs the metrics by the goal', () => {
+  const smooth = { sharpness: 50, noise: 0.2, dynamicRange: 0.8, clippedHighlights: 0, clippedShadows: 0 };
+  const detailed = { sharpness: 2000, noise: 2, dynamicRange: 0.8, clippedHighlights: 0, clippedShadows: 0 };
+  const denoiseGoal = RESTORATION_MODES.denoise.qualityGoal;
+  const upscaleGoal = RESTORATION_MODES['upscale-2x'].qualityGoal;
+
+  assert.ok(qualityScore(smooth, denoiseGoal) - qualityScore(detailed, denoiseGoal) >
+    qualityScore(smooth, upscaleGoal) - qualityScore(detailed, upscaleGoal));
+  assert.equal(qualityScore(smooth), qualityScore(smooth, DEFAULT_QUALITY_GOAL));
+
+  // Clipping always counts against the image
+  assert.ok(qualityScore({ ...smooth, clippedHighlights: 0.3 }, denoiseGoal) < qualityScore(smooth, denoiseGoal) - 10);
+});
+
+test('brightening keeps the highlights of a light photo', async () => {
+  const light = SAMPLES[1];
+  const before = await measureImage(light);
+  const { pipeline } = await applyRestorationPlan(light, { ...DEFAULT_RESTORATION_PLAN, exposure: 1, sharpen: 0 });
+  const after = await measureImage(await pipeline.png().toBuffer(), { maxPixels: before.width * before.height });
+
+  assert.ok(after.clippedHighlights < 0.01, `clipped highlights ${after.clippedHighlights}`);
+  assert.ok(after.dynamicRange > 0.3);
+});
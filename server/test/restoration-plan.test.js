@@ -0,0 +1,100 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  DEFAULT_RESTORATION_PLAN,
+  normalizeRestorationPlan,
+  parseRestorationResponse
+} from '../lib/restoration-plan.js';
+
+test('a valid plan is kept as it is', () => {
+  const raw = {
+    exposure: 0.5,
+    whiteBalance: { temperature: -0.3, tint: 0.1 },
+    denoise: 0.4,
+    sharpen: 0.2,
+    contrast: { amount: 0.3, pivot: 0.45, autoLevels: true },
+    tone: 'sepia',
+    rotation: -2.5,
+    crop: { left: 0.1, top: 0.05, width: 0.8, height: 0.9 }
+  };
+
+  const { plan, fallbacks } = normalizeRestorationPlan(raw);
+  assert.deepEqual(plan, raw);
+  assert.deepEqual(fallbacks, []);
+});
+
+test('out-of-range numbers are clamped to the schema limits', () => {
+  const { plan, fallbacks } = normalizeRestorationPlan({
+    ...DEFAULT_RESTORATION_PLAN,
+    exposure: 4,
+    denoise: -1,
+    rotation: 720,
+    contrast: { amount: 3, pivot: 0.5, autoLevels: false }
+  });
+
+  assert.equal(plan.exposure, 1.5);
+  assert.equal(plan.denoise, 0);
+  assert.equal(plan.rotation, 180);
+  assert.equal(plan.contrast.amount, 1);
+  assert.deepEqual(fallbacks, []);
+});
+
+test('missing and malformed fields fall back to the defaults and are reported', () => {
+  const { plan, fallbacks } = normalizeRestorationPlan({
+    exposure: 'bright',
+    whiteBalance: { temperature: Number.NaN },
+    tone: 'technicolor',
+    contrast: { amount: 0.2, autoLevels: 'yes' }
+  });
+
+  assert.equal(plan.exposure, DEFAULT_RESTORATION_PLAN.exposure);
+  assert.equal(plan.whiteBalance.temperature, 0);
+  assert.equal(plan.tone, 'color');
+  assert.equal(plan.contrast.amount, 0.2);
+  assert.equal(plan.contrast.autoLevels, false);
+  for (const field of ['exposure', 'whiteBalance.temperature', 'tone', 'contrast.autoLevels', 'sharpen']) {
+    assert.ok(fallbacks.includes(field), `${field} should be reported as a fallback`);
+  }
+});
+
+test('a plan that is not an object becomes the default plan', () => {
+  for (const raw of [null, undefined, 'brighten it', 42]) {
+    assert.deepEqual(normalizeRestorationPlan(raw).plan, DEFAULT_RESTORATION_PLAN);
+  }
+});
+
+test('crops that are too small or incomplete are dropped', () => {
+  assert.equal(normalizeRestorationPlan({ crop: { left: 0, top: 0, width: 0.1, height: 0.9 } }).plan.crop, null);
+  const incomplete = normalizeRestorationPlan({ crop: { left: 0.1, top: 0.1 } });
+  assert.equal(incomplete.plan.crop, null);
+  assert.ok(incomplete.fallbacks.includes('crop'));
+});
+
+test('crops reaching past the image are shrunk to fit', () => {
+  const { plan } = normalizeRestorationPlan({ crop: { left: 0.5, top: 0.3, width: 0.9, height: 0.9 } });
+  assert.deepEqual(plan.crop, { left: 0.5, top: 0.3, width: 0.5, height: 0.7 });
+});
+
+test('the JSON plan is found inside prose and code fences', () => {
+  const content = 'Here is the plan:\n```json\n' + JSON.stringify({
+    summary: 'Faded print',
+    plan: { exposure: 0.3, tone: 'grayscale' },
+    report: { damages: [] }
+  }) + '\n```\nLet me know if you need more.';
+
+  const result = parseRestorationResponse(content);
+  assert.equal(result.summary, 'Faded print');
+  assert.equal(result.plan.exposure, 0.3);
+  assert.equal(result.plan.tone, 'grayscale');
+  assert.ok(Array.isArray(result.report.damages));
+});
+
+test('a reply without JSON keeps the text as the summary and uses the default plan', () => {
+  const result = parseRestorationResponse('  The photo looks fine to me.  ');
+  assert.equal(result.summary, 'The photo looks fine to me.');
+  assert.deepEqual(result.plan, DEFAULT_RESTORATION_PLAN);
+  assert.deepEqual(result.fallbacks, ['plan']);
+
+  assert.deepEqual(parseRestorationResponse('{ not json }').fallbacks, ['plan']);
+  assert.equal(parseRestorationResponse(null).summary, '');
+});
@@ -0,0 +1,123 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import path from 'path';
+import { createResultCache, hashFile, hashKey } from '../lib/result-cache.js';
+import { tempDir } from './helpers.js';
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Helper function for a cache in a fresh directory, with a helper to write result files
+async function setup(t, options = {}) {
+  const dir = await tempDir(t);
+  const filesDir = path.join(dir, 'processed');
+  await fs.mkdir(filesDir);
+  const cache = createResultCache({ indexPath: path.join(dir, 'index.json'), filesDir, sweepDirs: [filesDir], ...options });
+  const writeResult = async (name, bytes = 100) => {
+    await fs.writeFile(path.join(filesDir, name), Buffer.alloc(bytes));
+    return name;
+  };
+  return { dir, filesDir, cache, writeResult };
+}
+
+test('keys depend on the content, not on where it came from', async (t) => {
+  const dir = await tempDir(t);
+  await fs.writeFile(path.join(dir, 'a.jpg'), 'same bytes');
+  await fs.writeFile(path.join(dir, 'b.jpg'), 'same bytes');
+
+  assert.equal(await hashFile(path.join(dir, 'a.jpg')), await hashFile(path.join(dir, 'b.jpg')));
+  assert.equal(hashKey({ mode: 'auto', strength: 1 }), hashKey({ mode: 'auto', strength: 1 }));
+  assert.notEqual(hashKey({ mode: 'auto', strength: 1 }), hashKey({ mode: 'auto', strength: 0.5 }));
+});
+
+test('analyses and results are returned on a hit and counted', async (t) => {
+  const { cache, writeResult } = await setup(t);
+
+  assert.equal(cache.getAnalysis('a1'), null);
+  cache.setAnalysis('a1', { summary: 'Faded' });
+  assert.deepEqual(cache.getAnalysis('a1'), { summary: 'Faded' });
+
+  assert.equal(await cache.getResult('r1'), null);
+  await cache.setResult('r1', await writeResult('r1.jpg'), { processedFilename: 'r1.jpg' });
+  assert.deepEqual(await cache.getResult('r1'), { processedFilename: 'r1.jpg' });
+
+  const stats = await cache.stats();
+  assert.deepEqual([stats.analyses.hits, stats.analyses.misses], [1, 1]);
+  assert.deepEqual([stats.results.hits, stats.results.misses, stats.results.entries], [1, 1, 1]);
+  assert.equal(stats.storage.cachedBytes, 100);
+});
+
+test('a result whose file has gone is a miss and is dropped', async (t) => {
+  const { cache, filesDir, writeResult } = await setup(t);
+  await cache.setResult('r1', await writeResult('r1.jpg'), {});
+  await fs.unlink(path.join(filesDir, 'r1.jpg'));
+
+  assert.equal(await cache.getResult('r1'), null);
+  assert.equal((await cache.stats()).results.entries, 0);
+});
+
+test('the least recently used results are evicted past the size cap', async (t) => {
+  const { cache, filesDir, writeResult } = await setup(t, { maxBytes: 250 });
+  await cache.setResult('old', await writeResult('old.jpg'), {});
+  await sleep(5);
+  await cache.setResult('used', await writeResult('used.jpg'), {});
+  await sleep(5);
+  await cache.getResult('old');
+  await sleep(5);
+  await cache.setResult('new', await writeResult('new.jpg'), {});
+
+  assert.equal(await cache.getResult('used'), null);
+  assert.ok(await cache.getResult('old'));
+  assert.ok(await cache.getResult('new'));
+  assert.deepEqual((await fs.readdir(filesDir)).sort(), ['new.jpg', 'old.jpg']);
+  assert.equal((await cache.stats()).retention.evicted, 1);
+});
+
+test('the sweep expires unused entries and removes orphaned files', async (t) => {
+  const { cache, filesDir, writeResult } = await setup(t, { ttlMs: 100 });
+  cache.setAnalysis('a1', {});
+  await cache.setResult('r1', await writeResult('r1.jpg'), {});
+  await writeResult('orphan.jpg');
+  await sleep(150);
+
+  await cache.sweep();
+  assert.equal(cache.getAnalysis('a1'), null);
+  assert.equal(await cache.getResult('r1'), null);
+  assert.deepEqual(await fs.readdir(filesDir), []);
+
+  const { retention } = await cache.stats();
+  assert.equal(retention.expired, 2);
+  assert.equal(retention.orphansRemoved, 1);
+});
+
+test('serving a result file keeps it from expiring or being evicted', async (t) => {
+  const { cache, filesDir, writeResult } = await setup(t, { ttlMs: 400, maxBytes: 250 });
+  await cache.setResult('served', await writeResult('served.jpg'), {});
+  await cache.setResult('idle', await writeResult('idle.jpg'), {});
+  await sleep(250);
+  assert.equal(cache.touchFile('served.jpg'), true);
+  assert.equal(cache.touchFile('unknown.jpg'), false);
+
+  // The file just served is the most recently used one, so the cap evicts the other
+  await cache.setResult('new', await writeResult('new.jpg'), {});
+  assert.deepEqual((await fs.readdir(filesDir)).sort(), ['new.jpg', 'served.jpg']);
+
+  await sleep(250);
+  await cache.sweep();
+  assert.deepEqual((await fs.readdir(filesDir)).sort(), ['new.jpg', 'served.jpg']);
+
+  // Touching is not a cache hit
+  assert.equal((await cache.stats()).results.hits, 0);
+});
+
+test('the index survives a restart', async (t) => {
+  const { dir, filesDir, cache, writeResult } = await setup(t);
+  cache.setAnalysis('a1', { summary: 'Scratched' });
+  await cache.setResult('r1', await writeResult('r1.jpg'), { processedFilename: 'r1.jpg' });
+  await cache.flush();
+
+  const reopened = createResultCache({ indexPath: path.join(dir, 'index.json'), filesDir });
+  await reopened.load();
+  assert.deepEqual(reopened.getAnalysis('a1'), { summary: 'Scratched' });
+  assert.deepEqual(await reopened.getResult('r1'), { processedFilename: 'r1.jpg' });
+});
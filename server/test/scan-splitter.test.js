@@ -0,0 +1,84 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import sharp from 'sharp';
+import { detectPhotos, normalizeRegion, splitScan } from '../lib/scan-splitter.js';
+import { SAMPLES } from './helpers.js';
+
+// Helper function to lay photos on a white "scanner glass", each rotated by its own skew
+async function makeScan(placements, { width = 1600, height = 1200 } = {}) {
+  const layers = [];
+  for (const { file, width: photoWidth, angle, left, top } of placements) {
+    const photo = await sharp(file)
+      .resize({ width: photoWidth })
+      .rotate(angle, { background: { r: 255, g: 255, b: 255, alpha: 0 } })
+      .png()
+      .toBuffer();
+    layers.push({ input: photo, left, top });
+  }
+
+  return sharp({ create: { width, height, channels: 3, background: { r: 250, g: 250, b: 248 } } })
+    .composite(layers)
+    .jpeg({ quality: 92 })
+    .toBuffer();
+}
+
+test('two skewed photos on a scan are found in reading order with their skew', async () => {
+  const scan = await makeScan([
+    { file: SAMPLES[0], width: 500, angle: 4, left: 80, top: 120 },
+    { file: SAMPLES[2], width: 460, angle: -6, left: 900, top: 200 }
+  ]);
+
+  const { width, height, regions } = await detectPhotos(scan);
+  assert.equal(width, 1600);
+  assert.equal(height, 1200);
+  assert.equal(regions.length, 2);
+
+  const [left, right] = regions;
+  assert.ok(left.centerX < right.centerX, 'photos side by side are ordered left to right');
+  assert.ok(Math.abs(left.angle - 4) < 1.5, `left photo skew ${left.angle}`);
+  assert.ok(Math.abs(right.angle + 6) < 1.5, `right photo skew ${right.angle}`);
+  assert.ok(Math.abs(left.width - 500) < 30, `left photo width ${left.width}`);
+});
+
+test('each photo is cut out upright without the scanner border', async () => {
+  const scan = await makeScan([
+    { file: SAMPLES[0], width: 500, angle: 5, left: 100, top: 100 },
+    { file: SAMPLES[0], width: 420, angle: -3, left: 900, top: 150 }
+  ]);
+
+  const { photos } = await splitScan(scan);
+  assert.equal(photos.length, 2);
+
+  const expected = [];
+  for (const [file, width] of [[SAMPLES[0], 500], [SAMPLES[0], 420]]) {
+    const metadata = await sharp(file).metadata();
+    expected.push({ width, height: Math.round(width * metadata.height / metadata.width) });
+  }
+  for (const [index, photo] of photos.entries()) {
+    // Straightened and trimmed: about the size of the photo that was laid down
+    assert.ok(Math.abs(photo.width - expected[index].width) < 25, `photo ${index} width ${photo.width}`);
+    assert.ok(Math.abs(photo.height - expected[index].height) < 25, `photo ${index} height ${photo.height}`);
+
+    // No white wedges of glass left in the corners
+    for (const [left, top] of [[0, 0], [photo.width - 8, 0], [0, photo.height - 8], [photo.width - 8, photo.height - 8]]) {
+      const { channels } = await sharp(photo.buffer).extract({ left, top, width: 8, height: 8 }).stats();
+      assert.ok(channels[0].mean < 240, `photo ${index} corner at ${left},${top} is ${channels[0].mean}`);
+    }
+  }
+});
+
+test('a scan with nothing on it is treated as a single photo', async () => {
+  const blank = await sharp({ create: { width: 800, height: 600, channels: 3, background: '#fafafa' } }).jpeg().toBuffer();
+  const { regions } = await detectPhotos(blank);
+  assert.deepEqual(regions, [{ centerX: 400, centerY: 300, width: 800, height: 600, angle: 0 }]);
+});
+
+test('edited regions are checked against the scan', () => {
+  assert.deepEqual(
+    normalizeRegion({ centerX: '100.04', centerY: 80, width: 120.4, height: 90.6, angle: 1.234 }, 400, 300),
+    { centerX: 100, centerY: 80, width: 120, height: 91, angle: 1.23 }
+  );
+  assert.throws(() => normalizeRegion({ centerX: 10, centerY: 10, width: 8, height: 40, angle: 0 }, 400, 300), { code: 'INVALID_REGION' });
+  assert.throws(() => normalizeRegion({ centerX: 500, centerY: 10, width: 40, height: 40, angle: 0 }, 400, 300), { code: 'INVALID_REGION' });
+  assert.throws(() => normalizeRegion({ centerX: 10, centerY: 10, width: 40 }, 400, 300), { code: 'INVALID_REGION' });
+});
@@ -1,6 +1,51 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { Upload, Download, Image as ImageIcon, Sparkles, ArrowRight, Check, Loader2, Zap } from 'lucide-react';
-import CompareImage from 'react-compare-image';
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import { Upload, Download, Image as ImageIcon, Sparkles, ArrowRight, Check, Loader2, Zap, X, Brush, History as HistoryIcon, Columns2, Coins, KeyRound, Gift, RotateCcw, Link2, WifiOff, Bell } from 'lucide-react';
+import AccountPanel from './components/AccountPanel';
+import BatchToolbar from './components/BatchToolbar';
+import CompareViewer, { ComparePair } from './components/CompareViewer';
+import DamageRegions from './components/DamageRegions';
+import DamageReportPanel from './components/DamageReportPanel';
+import HistoryPanel from './components/HistoryPanel';
+import MaskEditor from './components/MaskEditor';
+import ModelSelect from './components/ModelSelect';
+import OutputSettings from './components/OutputSettings';
+import QualityMetricsPanel from './components/QualityMetricsPanel';
+import RestorationSettings from './components/RestorationSettings';
+import ScanPhotoControls from './components/ScanPhotoControls';
+import ShareDialog from './components/ShareDialog';
+import VersionList from './components/VersionList';
+import { AccountDetails, Pricing, fetchAccount, fetchPricing, getApiKey } from './lib/account';
+import { RepairError, STAGE_LABELS, cancelRepairJob, fetchRepairJob, submitRepairJob, watchRepairJob } from './lib/repairJobs';
+import { HistoryEntry, deleteHistoryEntry, getHistory, putHistoryEntry } from './lib/historyDb';
+import { historyEntryToImage, historySignature, persistImage } from './lib/historySync';
+import { buildRestoredZip, restoredFilename } from './lib/batchDownload';
+import {
+  OutputFormat,
+  OutputSettings as OutputOptions,
+  fetchOutputFormats,
+  loadOutputSettings,
+  saveOutputSettings
+} from './lib/outputFormats';
+import { ModelInfo, describeAttempts, fetchModels, loadModelChoice, saveModelChoice, shortModelName } from './lib/models';
+import { readPhotoMetadata } from './lib/photoMetadata';
+import { loadSplitScans, rotateRegion, saveSplitScans, scanPhotoFilename, splitPhotoToFile, splitScan } from './lib/scanSplit';
+import { QUALITY_REGRESSION, QUALITY_REGRESSION_ERROR } from './lib/qualityMetrics';
+import { fetchShares } from './lib/shares';
+import { UPLOAD_ERRORS, isUploadErrorCode } from './lib/uploadErrors';
+import { isNetworkError, scheduleRetry } from './lib/outbox';
+import { notificationPermission, notify, requestNotificationPermission } from './lib/pwa';
+import { ORIGINAL, newVersion, preferVersion, removeVersion } from './lib/versions';
+import { DEFAULT_PREPROCESS_OPTIONS, UPLOAD_EDGE_OPTIONS, UploadLimits, fetchUploadLimits, fitsUploadLimits, formatBytes, preprocessImage } from './lib/preprocess';
+import {
+  DEFAULT_SETTINGS,
+  RestorationMode,
+  RestorationPreset,
+  RestorationSettings as Settings,
+  fetchRestorationModes,
+  loadPresets,
+  savePresets
+} from './lib/restorationModes';
+import type { UploadedImage } from './types';
 
 // 添加OpenRouter API相关接口
 interface OpenRouterResponse {
@@ -8,15 +53,6 @@ interface OpenRouterResponse {
   error?: string;
 }
 
-interface UploadedImage {
-  id: string;
-  file: File;
-  preview: string;
-  processed?: string;
-  status: 'uploaded' | 'processing' | 'completed' | 'error';
-  error?: string;
-}
-
 const sampleImages = [
   {
     before: '/samples/sample1_before.jpg',
@@ -38,10 +74,127 @@ const sampleImages = [
 function App() {
   const [images, setImages] = useState<UploadedImage[]>([]);
   const [dragActive, setDragActive] = useState(false);
-  // 移除API密钥相关状态，因为现在使用后端API
-  const [isProcessing, setIsProcessing] = useState(false);
+  // 批量队列：同时处理的数量、暂停状态，以及每个进行中任务的AbortController
+  const [maxConcurrent, setMaxConcurrent] = useState(2);
+  const [queuePaused, setQueuePaused] = useState(false);
+  const [isZipping, setIsZipping] = useState(false);
+  const [maskEditorId, setMaskEditorId] = useState<string | null>(null);
+  const [compareId, setCompareId] = useState<string | null>(null);
+  const [comparePair, setComparePair] = useState<ComparePair | undefined>(undefined);
+  const [shareId, setShareId] = useState<string | null>(null);
+  // 展开了损伤报告的图片，展开时在修复前的图片上显示损伤区域
+  const [expandedReports, setExpandedReports] = useState<Set<string>>(new Set());
+  // 修复模式、参数和用户预设
+  const [modes, setModes] = useState<RestorationMode[]>([]);
+  const [settings, setSettings] = useState<Settings>(DEFAULT_SETTINGS);
+  const [presets, setPresets] = useState<RestorationPreset[]>(loadPresets);
+  const [uploadMaxEdge, setUploadMaxEdge] = useState(DEFAULT_PREPROCESS_OPTIONS.maxEdge);
+  // 服务器的上传限制：决定能否上传原始文件按原始分辨率渲染
+  const [uploadLimits, setUploadLimits] = useState<UploadLimits | null>(null);
+  // 开启后把拖入的平板扫描件拆分成单独的照片
+  const [splitScans, setSplitScans] = useState(loadSplitScans);
+  // 输出格式、质量和元数据选项
+  const [outputFormats, setOutputFormats] = useState<OutputFormat[]>([]);
+  const [outputSettings, setOutputSettings] = useState<OutputOptions>(loadOutputSettings);
+  // AI模型列表和用户选择的模型（null表示自动）
+  const [models, setModels] = useState<ModelInfo[]>([]);
+  const [modelChoice, setModelChoice] = useState<string | null>(loadModelChoice);
+  // 修复历史：每张图片上次写入IndexedDB时的签名，以及按顺序执行的写入链
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [historyVersion, setHistoryVersion] = useState(0);
+  // 账户额度：没有API密钥时为null
+  const [account, setAccount] = useState<AccountDetails | null>(null);
+  const [accountOpen, setAccountOpen] = useState(false);
+  const [pricing, setPricing] = useState<Pricing | null>(null);
+  // 网络状态和通知权限：断网时提交的修复进入离线发件箱
+  const [online, setOnline] = useState(() => navigator.onLine);
+  const [notifications, setNotifications] = useState(notificationPermission);
+  const persistedRef = useRef(new Map<string, string>());
+  const persistChainRef = useRef(Promise.resolve());
+  const restoredRef = useRef(false);
+  const controllersRef = useRef(new Map<string, AbortController>());
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  useEffect(() => {
+    fetchRestorationModes()
+      .then(setModes)
+      .catch((error) => console.error('Error loading restoration modes:', error));
+    fetchOutputFormats()
+      .then(setOutputFormats)
+      .catch((error) => console.error('Error loading output formats:', error));
+    fetchPricing()
+      .then(setPricing)
+      .catch((error) => console.error('Error loading pricing:', error));
+    fetchUploadLimits()
+      .then(setUploadLimits)
+      .catch((error) => console.error('Error loading upload limits:', error));
+  }, []);
+
+  const refreshModels = useCallback(() => {
+    fetchModels()
+      .then(setModels)
+      .catch((error) => console.error('Error loading models:', error));
+  }, []);
+
+  useEffect(() => {
+    refreshModels();
+  }, [refreshModels]);
+
+  const refreshAccount = useCallback(() => {
+    if (!getApiKey()) {
+      setAccount(null);
+      return;
+    }
+    fetchAccount()
+      .then(setAccount)
+      .catch((error) => {
+        console.error('Error loading account:', error);
+        // 断网时保留上次的账户信息，不显示为未登录
+        if (!isNetworkError(error)) setAccount(null);
+      });
+  }, []);
+
+  useEffect(() => {
+    refreshAccount();
+  }, [refreshAccount]);
+
+  const updateOutputSettings = (next: OutputOptions) => {
+    setOutputSettings(next);
+    saveOutputSettings(next);
+  };
+
+  const updateModelChoice = (next: string | null) => {
+    setModelChoice(next);
+    saveModelChoice(next);
+  };
+
+  const updateSplitScans = (next: boolean) => {
+    setSplitScans(next);
+    saveSplitScans(next);
+  };
+
+  const updatePresets = (next: RestorationPreset[]) => {
+    setPresets(next);
+    savePresets(next);
+  };
+
+  const savePreset = (name: string) => {
+    updatePresets([
+      ...presets.filter((preset: RestorationPreset) => preset.name !== name),
+      { id: Math.random().toString(36).substr(2, 9), name, ...settings }
+    ]);
+  };
+
+  const deletePreset = (id: string) => {
+    updatePresets(presets.filter((preset: RestorationPreset) => preset.id !== id));
+  };
+
+  const updateImage = useCallback((id: string, patch: Partial<UploadedImage>) => {
+    setImages((prev: UploadedImage[]) => prev.map((img: UploadedImage) => 
+      img.id === id ? { ...img, ...patch } : img
+    ));
+  }, []);
+
   const handleDrag = (e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
@@ -61,20 +214,109 @@ function App() {
     handleFiles(files);
   };
 
+  // 在Worker中摆正、缩小并重新编码，原始文件保留在file中
+  const prepareUpload = (id: string, file: File) => {
+    preprocessImage(file, { ...DEFAULT_PREPROCESS_OPTIONS, maxEdge: uploadMaxEdge })
+      .then((prepared) => {
+        const uploadFile = new File([prepared.blob], file.name, { type: prepared.blob.type });
+        updateImage(id, {
+          status: 'uploaded',
+          preview: URL.createObjectURL(prepared.blob),
+          captureDate: prepared.captureDate,
+          upload: {
+            file: uploadFile,
+            width: prepared.width,
+            height: prepared.height,
+            originalWidth: prepared.originalWidth,
+            originalHeight: prepared.originalHeight
+          }
+        });
+      })
+      .catch((error) => {
+        // 浏览器无法解码时（例如HEIC）直接上传原始文件
+        console.error('Error preparing image:', error);
+        readPhotoMetadata(file).then(({ captureDate }) => {
+          updateImage(id, { status: 'uploaded', preview: URL.createObjectURL(file), captureDate });
+        });
+      });
+  };
+
+  // 把扫描件换成拆分出的照片卡片，每张照片单独修复；没有检测到照片或拆分失败时按普通照片处理，
+  // 拆分失败的原因显示在卡片上
+  const expandScan = async (id: string, file: File) => {
+    try {
+      const { photos } = await splitScan(file, undefined, uploadLimits?.maxScanBytes);
+      if (photos.length === 0) {
+        prepareUpload(id, file);
+        return;
+      }
+
+      const children: UploadedImage[] = await Promise.all(photos.map(async (photo, index) => ({
+        id: Math.random().toString(36).substr(2, 9),
+        file: await splitPhotoToFile(photo, scanPhotoFilename(file.name, index, photos.length)),
+        preview: '',
+        status: 'preparing' as const,
+        scan: { file, region: photo.region, index, count: photos.length }
+      })));
+      setImages((prev: UploadedImage[]) => prev.flatMap((img: UploadedImage) => img.id === id ? children : [img]));
+      children.forEach((child) => prepareUpload(child.id, child.file));
+    } catch (error) {
+      console.error('Error splitting scan:', error);
+      updateImage(id, {
+        scanError: {
+          message: error instanceof Error ? error.message : 'The scan could not be split into photos.',
+          code: (error as { code?: string }).code
+        }
+      });
+      prepareUpload(id, file);
+    }
+  };
+
+  // 用户转动照片后，从原始扫描件重新提取；之前标记的损伤遮罩不再对齐，一并清除
+  const rotateScanPhoto = async (image: UploadedImage, degrees: number) => {
+    if (!image.scan) return;
+    const scan = image.scan;
+    updateImage(image.id, { status: 'preparing' });
+
+    try {
+      const { photos } = await splitScan(scan.file, [rotateRegion(scan.region, degrees)]);
+      const file = await splitPhotoToFile(photos[0], image.file.name);
+      updateImage(image.id, {
+        file,
+        scan: { ...scan, region: photos[0].region },
+        mask: undefined,
+        error: undefined,
+        errorCode: undefined
+      });
+      prepareUpload(image.id, file);
+    } catch (error) {
+      console.error('Error adjusting scan photo:', error);
+      updateImage(image.id, { status: 'uploaded' });
+      alert(error instanceof Error ? error.message : 'Could not adjust the photo. Please try again.');
+    }
+  };
+
+  // 丢弃误检测的区域，同时从修复历史中删除
+  const discardImage = (id: string) => {
+    setImages((prev: UploadedImage[]) => prev.filter((img: UploadedImage) => img.id !== id));
+    persistedRef.current.delete(id);
+    persistChainRef.current = persistChainRef.current
+      .then(() => deleteHistoryEntry(id))
+      .then(() => setHistoryVersion((version: number) => version + 1))
+      .catch((error) => console.error('Error deleting history:', error));
+  };
+
   const handleFiles = (files: File[]) => {
     files.forEach(file => {
       if (file.type.startsWith('image/')) {
-        const reader = new FileReader();
-        reader.onload = (e) => {
-          const newImage: UploadedImage = {
-            id: Math.random().toString(36).substr(2, 9),
-            file,
-            preview: e.target?.result as string,
-            status: 'uploaded'
-          };
-          setImages((prev: UploadedImage[]) => [...prev, newImage]);
-        };
-        reader.readAsDataURL(file);
+        const id = Math.random().toString(36).substr(2, 9);
+        setImages((prev: UploadedImage[]) => [...prev, { id, file, preview: '', status: 'preparing' }]);
+
+        if (splitScans) {
+          expandScan(id, file);
+        } else {
+          prepareUpload(id, file);
+        }
       }
     });
   };
@@ -86,91 +328,399 @@ function App() {
     }
   };
 
-  const processImage = async (id: string) => {
-    setImages((prev: UploadedImage[]) => prev.map((img: UploadedImage) => 
-      img.id === id ? { ...img, status: 'processing' } : img
-    ));
-    setIsProcessing(true);
-
-    const image = images.find((img: UploadedImage) => img.id === id);
-    if (!image) return;
+  // 传入resumeJobId时不重新提交，继续跟踪页面刷新前或断网前已提交的任务
+  // 网络错误不算失败：图片进入离线发件箱，恢复连接后自动重新提交
+  const processImage = useCallback(async (image: UploadedImage, resumeJobId?: string) => {
+    const id = image.id;
+    const controller = new AbortController();
+    controllersRef.current.set(id, controller);
+    updateImage(id, {
+      status: 'processing',
+      stage: resumeJobId ? image.stage : 'queued',
+      error: undefined,
+      errorCode: undefined
+    });
 
+    let jobId = resumeJobId;
     try {
-      // 将图片转换为base64
-      const base64Image = image.preview.split(',')[1];
-      
-      // 调用我们的Vercel API端点
-      const response = await fetch('/api/openrouter', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          imageBase64: base64Image,
-          prompt: 'Restore this photo, fix any damage, enhance colors, and improve quality.'
-        })
-      });
+      // 断网期间服务器可能已经清理了之前的任务，这时重新提交
+      if (jobId && image.outbox) {
+        jobId = await fetchRepairJob(jobId, controller.signal)
+          .then((job) => job.id)
+          .catch((error) => {
+            if (isNetworkError(error)) throw error;
+            return undefined;
+          });
+      }
+      if (!jobId) {
+        // 提交修复任务，接口立即返回任务ID
+        const submit = (file: File, analysisImage?: File) => submitRepairJob(file, {
+          analysisImage,
+          mask: image.mask,
+          settings: image.settings,
+          model: image.model,
+          output: image.output,
+          captureDate: image.captureDate,
+          signal: controller.signal
+        });
+        // 原始文件在服务器限制之内时按原始分辨率渲染，缩小的副本只给AI分析
+        const { upload } = image;
+        const submitted = upload && fitsUploadLimits(image.file, upload.originalWidth, upload.originalHeight, uploadLimits)
+          ? await submit(image.file, upload.file).catch((error) => {
+              // 服务器拒绝原始文件时（例如扩展名与内容不符）改为只上传缩小的副本
+              if (isUploadErrorCode((error as RepairError).code)) return submit(upload.file);
+              throw error;
+            })
+          : await submit(upload?.file || image.file);
+        jobId = submitted.jobId;
+        updateImage(id, { jobId, stage: submitted.stage });
+        refreshAccount();
+      }
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(`API error: ${response.statusText}, ${JSON.stringify(errorData)}`);
+      // 通过SSE跟踪任务阶段
+      const job = await watchRepairJob(
+        jobId,
+        (update) => updateImage(id, { stage: update.stage }),
+        controller.signal
+      );
+
+      if (job.stage === 'failed' || !job.result) {
+        throw Object.assign(new Error(job.error?.message || 'Image processing failed'), { code: job.error?.code });
       }
 
-      const data = await response.json();
-      
-      // 处理返回的数据
-      if (data.success && data.data) {
-        // 确保返回的数据是完整的base64图像URL
-        const processedImageData = data.data.startsWith('data:') 
-          ? data.data 
-          : `data:image/jpeg;base64,${data.data}`;
-        
-        setImages((prev: UploadedImage[]) => prev.map((img: UploadedImage) => 
-          img.id === id ? { 
-            ...img, 
-            status: 'completed',
-            processed: processedImageData
-          } : img
-        ));
-        
-        // 如果有AI分析结果，可以在这里处理
-        if (data.analysis) {
-          console.log('AI Analysis:', data.analysis);
+      // 每次完成都新增一个版本，并设为首选版本；设置没变时服务器返回同一个结果，直接选中已有的版本
+      const result = job.result;
+      setImages((prev: UploadedImage[]) => prev.map((img: UploadedImage) => {
+        if (img.id !== id) return img;
+        const same = img.versions?.find((version) => version.result.processedFilename === result.processedFilename);
+        if (same) {
+          return { ...img, status: 'completed', outbox: undefined, ...preferVersion(img, same.id) };
         }
-      } else {
-        throw new Error('Invalid API response');
+        const version = newVersion(img, result);
+        return {
+          ...img,
+          status: 'completed',
+          outbox: undefined,
+          versions: [...(img.versions ?? []), version],
+          preferredVersionId: version.id,
+          processed: version.processed,
+          result
+        };
+      }));
+      // 缓存命中和失败的任务会退还额度
+      refreshAccount();
+      if (image.outbox) {
+        notify('Photo restored', { body: `${image.file.name} finished after being queued offline.`, tag: id });
       }
     } catch (error) {
+      // 已取消的任务由cancelImage负责重置状态
+      if (controller.signal.aborted) return;
+
+      if (isNetworkError(error)) {
+        console.warn('Network unavailable, keeping the repair in the outbox:', error);
+        setImages((prev: UploadedImage[]) => prev.map((img: UploadedImage) => img.id === id ? {
+          ...img,
+          status: 'offline',
+          stage: undefined,
+          outbox: scheduleRetry(img.outbox, jobId)
+        } : img));
+        return;
+      }
+
       console.error('Error processing image:', error);
-      setImages((prev: UploadedImage[]) => prev.map((img: UploadedImage) => 
-        img.id === id ? { 
-          ...img, 
-          status: 'error',
-          error: error instanceof Error ? error.message : 'Unknown error'
-        } : img
-      ));
+      if (image.outbox) {
+        notify('Photo repair failed', { body: `${image.file.name} could not be restored after being queued offline.`, tag: id });
+      }
+      const code = (error as RepairError).code;
+      // 重新修复失败时保留之前的版本，错误显示在版本列表上方
+      setImages((prev: UploadedImage[]) => prev.map((img: UploadedImage) => img.id === id ? {
+        ...img,
+        status: img.versions?.length ? 'completed' : 'error',
+        outbox: undefined,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        errorCode: isUploadErrorCode(code) || code === QUALITY_REGRESSION ? code : undefined
+      } : img));
+    } finally {
+      controllersRef.current.delete(id);
+    }
+  }, [updateImage, refreshAccount, uploadLimits]);
+
+  // 队列调度：未暂停时，按顺序启动排队的图片，直到达到并发上限
+  useEffect(() => {
+    if (queuePaused) return;
+
+    const running = images.filter((img: UploadedImage) => img.status === 'processing').length;
+    const next = images
+      .filter((img: UploadedImage) => img.status === 'queued')
+      .slice(0, Math.max(0, maxConcurrent - running));
+
+    next.forEach((img: UploadedImage) => processImage(img, img.outbox?.jobId));
+  }, [images, queuePaused, maxConcurrent, processImage]);
+
+  // 离线发件箱中的图片重新排队，调度器会接着处理它们
+  const requeueOffline = useCallback((due: (img: UploadedImage) => boolean) => {
+    setImages((prev: UploadedImage[]) => prev.map((img: UploadedImage) =>
+      img.status === 'offline' && due(img) ? { ...img, status: 'queued' } : img
+    ));
+  }, []);
+
+  // 恢复连接时立即重新提交发件箱中的全部图片
+  useEffect(() => {
+    const goOnline = () => {
+      setOnline(true);
+      requeueOffline(() => true);
+    };
+    const goOffline = () => setOnline(false);
+    window.addEventListener('online', goOnline);
+    window.addEventListener('offline', goOffline);
+    return () => {
+      window.removeEventListener('online', goOnline);
+      window.removeEventListener('offline', goOffline);
+    };
+  }, [requeueOffline]);
+
+  // 浏览器的在线状态并不总是可靠，到了退避时间也会重试；仍然失败时等待时间加倍
+  useEffect(() => {
+    const waiting = images
+      .filter((img: UploadedImage) => img.status === 'offline')
+      .map((img: UploadedImage) => img.outbox?.nextAttemptAt ?? 0);
+    if (waiting.length === 0) return;
+
+    const timer = setTimeout(() => {
+      if (navigator.onLine) {
+        requeueOffline((img: UploadedImage) => (img.outbox?.nextAttemptAt ?? 0) <= Date.now());
+      }
+    }, Math.max(0, Math.min(...waiting) - Date.now()));
+    return () => clearTimeout(timer);
+  }, [images, requeueOffline]);
+
+  // 状态变化时写入修复历史，准备中的图片还没有可保存的内容
+  useEffect(() => {
+    images.forEach((image: UploadedImage) => {
+      if (image.status === 'preparing') return;
+      const signature = historySignature(image);
+      if (persistedRef.current.get(image.id) === signature) return;
+      persistedRef.current.set(image.id, signature);
+
+      persistChainRef.current = persistChainRef.current
+        .then(() => persistImage(image))
+        .then(() => setHistoryVersion((version: number) => version + 1))
+        .catch((error) => console.error('Error saving history:', error));
+    });
+  }, [images]);
+
+  // 页面加载时恢复未完成的图片：排队的重新排队，离线发件箱中的继续等待，处理中的继续跟踪，服务器上已不存在的任务标记为中断
+  useEffect(() => {
+    if (restoredRef.current) return;
+    restoredRef.current = true;
+
+    const restore = async () => {
+      const entries = await getHistory();
+      const unfinished = entries
+        .filter((entry: HistoryEntry) => entry.status === 'queued' || entry.status === 'processing' || entry.status === 'offline')
+        .reverse();
+
+      for (const entry of unfinished) {
+        if (entry.status === 'queued' || entry.status === 'offline') {
+          setImages((prev: UploadedImage[]) => [...prev, historyEntryToImage(entry)]);
+          continue;
+        }
+
+        // 断网时无法确认任务是否还在，先放进离线发件箱，恢复连接后接着跟踪
+        if (!navigator.onLine) {
+          const image = historyEntryToImage(entry);
+          setImages((prev: UploadedImage[]) => [...prev, {
+            ...image,
+            status: 'offline',
+            outbox: { attempts: 0, nextAttemptAt: Date.now(), jobId: entry.jobId }
+          }]);
+          continue;
+        }
+
+        const job = entry.jobId ? await fetchRepairJob(entry.jobId).catch(() => null) : null;
+        if (job) {
+          const image = historyEntryToImage(entry);
+          setImages((prev: UploadedImage[]) => [...prev, image]);
+          processImage(image, job.id);
+        } else {
+          await putHistoryEntry({ ...entry, status: 'interrupted', updatedAt: Date.now() });
+        }
+      }
+      setHistoryVersion((version: number) => version + 1);
+    };
+
+    restore().catch((error) => console.error('Error restoring history:', error));
+  }, [processImage]);
+
+  // 从历史记录重新打开：已在工作区中的图片直接滚动到对应卡片，compare时直接打开对比查看器
+  const reopenFromHistory = (entry: HistoryEntry, compare = false) => {
+    setHistoryOpen(false);
+    if (!images.some((img: UploadedImage) => img.id === entry.id)) {
+      const image = historyEntryToImage(entry);
+      persistedRef.current.set(image.id, historySignature(image));
+      setImages((prev: UploadedImage[]) => [...prev, image]);
+    }
+    if (compare) {
+      openCompare(entry.id);
+      return;
+    }
+    setTimeout(() => {
+      document.getElementById(`image-${entry.id}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }, 100);
+  };
+
+  // 加入队列时记录当前的修复设置，之后修改设置不会影响已排队的图片
+  // 修复需要API密钥，还没有时先打开账户面板；rerun时已完成的图片用当前设置再修复一个版本
+  const queueImages = (ids: string[], rerun = false) => {
+    if (!getApiKey()) {
+      setAccountOpen(true);
+      return;
+    }
+    setImages((prev: UploadedImage[]) => prev.map((img: UploadedImage) => 
+      ids.includes(img.id) && (img.status === 'uploaded' || img.status === 'error' || (rerun && img.status === 'completed'))
+        ? { ...img, status: 'queued', stage: undefined, error: undefined, errorCode: undefined, outbox: undefined, settings, output: outputSettings, model: modelChoice }
+        : img
+    ));
+  };
+
+  // 链接可能已在账户面板中撤销或已过期，打开分享对话框时刷新它的状态和浏览次数
+  const openShareDialog = (image: UploadedImage) => {
+    setShareId(image.id);
+    if (!image.share || !account) return;
+    const sharedId = image.share.id;
+    fetchShares()
+      .then((shares) => {
+        const latest = shares.find((share) => share.id === sharedId);
+        if (latest) updateImage(image.id, { share: latest });
+      })
+      .catch((error) => console.error('Error loading shared links:', error));
+  };
+
+  // 选择首选版本；删除版本前先确认，删除后历史记录中的对应图片也会移除
+  const preferImageVersion = (image: UploadedImage, versionId: string) => {
+    updateImage(image.id, preferVersion(image, versionId));
+  };
+
+  const deleteImageVersion = (image: UploadedImage, versionId: string) => {
+    const version = image.versions?.find((item) => item.id === versionId);
+    if (!version || !confirm(`Delete v${version.number} (${version.result.mode.label})?`)) return;
+    updateImage(image.id, removeVersion(image, versionId));
+  };
+
+  // 与首选版本对比；对比的就是首选版本时与原始照片对比
+  const compareVersion = (image: UploadedImage, versionId: string) => {
+    const preferred = versionId === image.preferredVersionId;
+    setComparePair({
+      imageId: image.id,
+      left: preferred ? ORIGINAL : versionId,
+      right: preferred ? versionId : image.preferredVersionId ?? versionId
+    });
+    setCompareId(image.id);
+  };
+
+  const openCompare = (id: string) => {
+    setComparePair(undefined);
+    setCompareId(id);
+  };
+
+  const retryOfflineImage = (id: string) => {
+    requeueOffline((img: UploadedImage) => img.id === id);
+  };
+
+  const enableNotifications = () => {
+    requestNotificationPermission()
+      .then(setNotifications)
+      .catch((error) => console.error('Error requesting notification permission:', error));
+  };
+
+  const repairAll = () => {
+    queueImages(images.map((img: UploadedImage) => img.id));
+  };
+
+  // 停止跟踪任务，同时在服务器上取消它，退还的额度随后刷新
+  const cancelImage = (id: string) => {
+    controllersRef.current.get(id)?.abort();
+    controllersRef.current.delete(id);
+    const jobId = images.find((img: UploadedImage) => img.id === id)?.jobId;
+    if (jobId) {
+      cancelRepairJob(jobId)
+        .then(refreshAccount)
+        .catch((error) => console.error('Error cancelling repair job:', error));
+    }
+    setImages((prev: UploadedImage[]) => prev.map((img: UploadedImage) => 
+      img.id === id && (img.status === 'queued' || img.status === 'processing' || img.status === 'offline')
+        ? { ...img, status: img.versions?.length ? 'completed' : 'uploaded', stage: undefined, jobId: undefined, outbox: undefined }
+        : img
+    ));
+  };
+
+  const cancelAll = () => {
+    images
+      .filter((img: UploadedImage) => img.status === 'queued' || img.status === 'processing' || img.status === 'offline')
+      .forEach((img: UploadedImage) => cancelImage(img.id));
+    setQueuePaused(false);
+  };
+
+  const downloadAllAsZip = async () => {
+    setIsZipping(true);
+    try {
+      const zip = await buildRestoredZip(images);
+      const url = URL.createObjectURL(zip);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `restored_photos_${new Date().toISOString().slice(0, 10)}.zip`;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (error) {
+      console.error('ZIP download error:', error);
+      alert(error instanceof Error ? error.message : 'ZIP download failed. Please try again.');
     } finally {
-      setIsProcessing(false);
+      setIsZipping(false);
     }
   };
 
-  const downloadImage = (image: UploadedImage) => {
-    console.log('Downloading image:', image);
-    console.log('Processed data available:', !!image.processed);
-    console.log('Processed data type:', typeof image.processed);
-    
-    const link = document.createElement('a');
-    const imageData = image.processed || image.preview;
-    link.href = imageData;
-    link.download = `restored_${image.file.name}`;
-    
-    // 添加错误处理
-    link.onerror = (e) => {
-      console.error('Download error:', e);
+  const toggleReport = (id: string) => {
+    setExpandedReports((prev: Set<string>) => {
+      const next = new Set(prev);
+      if (!next.delete(id)) next.add(id);
+      return next;
+    });
+  };
+
+  const maskEditorImage = images.find((img: UploadedImage) => img.id === maskEditorId);
+  const shareImage = images.find((img: UploadedImage) => img.id === shareId);
+  const comparableImages = images.filter((img: UploadedImage) => img.status === 'completed' && img.processed);
+
+  const countStatus = (status: UploadedImage['status']) =>
+    images.filter((img: UploadedImage) => img.status === status).length;
+  const offlineCount = countStatus('offline');
+  const batchCounts = {
+    ready: countStatus('uploaded'),
+    queued: countStatus('queued') + countStatus('offline'),
+    processing: countStatus('processing'),
+    completed: countStatus('completed'),
+    failed: countStatus('error')
+  };
+
+  // 下载实际的修复结果，文件名的扩展名与服务器输出的格式一致
+  const downloadImage = async (image: UploadedImage) => {
+    if (!image.processed) return;
+
+    try {
+      const response = await fetch(image.processed);
+      if (!response.ok) {
+        throw new Error(`Download failed: ${response.statusText}`);
+      }
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = restoredFilename(image);
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (error) {
+      console.error('Download error:', error);
       alert('Download failed. Please try again.');
-    };
-    
-    link.click();
+    }
   };
 
 
@@ -200,6 +750,20 @@ function App() {
               <a href="#features" className="text-gray-300 hover:text-pink-400 transition-colors duration-300 hover:drop-shadow-[0_0_8px_rgba(236,72,153,0.8)]">Features</a>
               <a href="#gallery" className="text-gray-300 hover:text-cyan-400 transition-colors duration-300 hover:drop-shadow-[0_0_8px_rgba(34,211,238,0.8)]">Gallery</a>
               <a href="#pricing" className="text-gray-300 hover:text-purple-400 transition-colors duration-300 hover:drop-shadow-[0_0_8px_rgba(168,85,247,0.8)]">Pricing</a>
+              <button
+                onClick={() => setAccountOpen(true)}
+                className="inline-flex items-center text-gray-300 hover:text-purple-400 transition-colors duration-300 hover:drop-shadow-[0_0_8px_rgba(168,85,247,0.8)]"
+              >
+                <Coins className="w-4 h-4 mr-1" />
+                {account ? `${account.account.credits} credits` : 'Sign in'}
+              </button>
+              <button
+                onClick={() => setHistoryOpen(true)}
+                className="inline-flex items-center text-gray-300 hover:text-pink-400 transition-colors duration-300 hover:drop-shadow-[0_0_8px_rgba(236,72,153,0.8)]"
+              >
+                <HistoryIcon className="w-4 h-4 mr-1" />
+                History
+              </button>
             </nav>
           </div>
         </div>
@@ -258,6 +822,27 @@ function App() {
                   <Upload className="w-5 h-5 mr-2" />
                   Select Photos
                 </button>
+                <label className="block mt-4 text-sm text-gray-400" title="Size of the copy the AI analyzes. Originals within the server's limits are still restored at full resolution">
+                  Upload size
+                  <select
+                    value={uploadMaxEdge}
+                    onChange={(e) => setUploadMaxEdge(Number(e.target.value))}
+                    className="ml-2 bg-black/70 border border-cyan-500/50 rounded-lg px-2 py-1 text-white focus:outline-none focus:border-pink-500"
+                  >
+                    {UPLOAD_EDGE_OPTIONS.map((edge) => (
+                      <option key={edge} value={edge}>{edge}px max edge</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="inline-flex items-center mt-3 text-sm text-gray-400" title="Detects each photo on a flatbed scan, straightens it and trims the scanner border">
+                  <input
+                    type="checkbox"
+                    checked={splitScans}
+                    onChange={(e) => updateSplitScans(e.target.checked)}
+                    className="mr-2 accent-pink-500"
+                  />
+                  Split multi-photo scans
+                </label>
               </div>
             </div>
           </div>
@@ -269,18 +854,106 @@ function App() {
         <section className="relative z-10 px-4 sm:px-6 lg:px-8 pb-20">
           <div className="max-w-7xl mx-auto">
             <h3 className="text-3xl font-bold text-white mb-8 text-center drop-shadow-[0_0_15px_rgba(255,255,255,0.3)]">Your Photos</h3>
+            {modes.length > 0 && (
+              <RestorationSettings
+                modes={modes}
+                settings={settings}
+                presets={presets}
+                onChange={setSettings}
+                onSavePreset={savePreset}
+                onDeletePreset={deletePreset}
+              />
+            )}
+            {models.length > 1 && (
+              <ModelSelect
+                models={models}
+                value={modelChoice}
+                onChange={updateModelChoice}
+                onRefresh={refreshModels}
+              />
+            )}
+            {outputFormats.length > 0 && (
+              <OutputSettings
+                formats={outputFormats}
+                settings={outputSettings}
+                onChange={updateOutputSettings}
+              />
+            )}
+            {(!online || offlineCount > 0) && (
+              <div className="mb-6 flex flex-wrap items-center gap-3 p-4 rounded-xl border border-amber-500/40 bg-amber-500/10 text-sm text-amber-200">
+                <WifiOff className="w-5 h-5 flex-shrink-0 text-amber-400" />
+                <p className="flex-1 min-w-[12rem]">
+                  {!online && 'You are offline. Repairs you start now are kept in the outbox. '}
+                  {offlineCount > 0
+                    ? `${offlineCount} ${offlineCount === 1 ? 'repair is' : 'repairs are'} waiting in the outbox and will be sent automatically when the connection returns.`
+                    : 'They will be sent automatically when the connection returns.'}
+                </p>
+                {offlineCount > 0 && notifications === 'default' && (
+                  <button
+                    onClick={enableNotifications}
+                    className="inline-flex items-center px-3 py-1.5 border border-amber-500/50 rounded-lg text-xs text-amber-200 hover:bg-amber-500/10 transition-colors"
+                  >
+                    <Bell className="w-3 h-3 mr-1" />
+                    Notify me when they finish
+                  </button>
+                )}
+              </div>
+            )}
+            <BatchToolbar
+              counts={batchCounts}
+              maxConcurrent={maxConcurrent}
+              paused={queuePaused}
+              isZipping={isZipping}
+              onMaxConcurrentChange={setMaxConcurrent}
+              onRepairAll={repairAll}
+              onTogglePause={() => setQueuePaused((paused: boolean) => !paused)}
+              onCancelAll={cancelAll}
+              onDownloadZip={downloadAllAsZip}
+            />
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
               {images.map((image) => (
-                <div key={image.id} className="bg-black/50 backdrop-blur-sm rounded-2xl border border-cyan-500/30 shadow-lg shadow-cyan-500/20 overflow-hidden hover:border-pink-500/50 hover:shadow-pink-500/30 transition-all duration-300">
+                <div key={image.id} id={`image-${image.id}`} className="bg-black/50 backdrop-blur-sm rounded-2xl border border-cyan-500/30 shadow-lg shadow-cyan-500/20 overflow-hidden hover:border-pink-500/50 hover:shadow-pink-500/30 transition-all duration-300">
                   <div className="aspect-square relative overflow-hidden">
                     <div className="flex h-full">
                       {/* Before Image */}
                       <div className="w-1/2 relative border-r border-cyan-500/30">
-                        <img
-                          src={image.preview}
-                          alt="Before restoration"
-                          className="w-full h-full object-cover"
-                        />
+                        {image.preview && (
+                          <img
+                            src={image.preview}
+                            alt="Before restoration"
+                            className="w-full h-full object-cover"
+                          />
+                        )}
+                        {/* 已标记的损伤区域 */}
+                        {image.mask && (
+                          <div
+                            className="absolute inset-0 bg-pink-500/70 pointer-events-none"
+                            style={{
+                              maskImage: `url(${image.mask})`,
+                              WebkitMaskImage: `url(${image.mask})`,
+                              maskSize: 'cover',
+                              WebkitMaskSize: 'cover',
+                              maskPosition: 'center',
+                              WebkitMaskPosition: 'center'
+                            }}
+                          />
+                        )}
+                        {expandedReports.has(image.id) && image.result?.report && (
+                          <DamageRegions
+                            damages={image.result.report.damages}
+                            width={image.upload?.width}
+                            height={image.upload?.height}
+                          />
+                        )}
+                        {(image.status === 'uploaded' || image.status === 'error' || image.status === 'completed') && (
+                          <button
+                            onClick={() => setMaskEditorId(image.id)}
+                            className="absolute top-2 left-2 inline-flex items-center px-2 py-1 bg-black/70 backdrop-blur-sm border border-pink-500/50 rounded text-xs text-pink-300 hover:bg-pink-500/20 transition-colors"
+                          >
+                            <Brush className="w-3 h-3 mr-1" />
+                            {image.mask ? 'Edit damage' : 'Mark damage'}
+                          </button>
+                        )}
                         <div className="absolute bottom-2 left-2 px-2 py-1 bg-red-500/80 backdrop-blur-sm rounded text-xs font-medium text-white">
                           Before
                         </div>
@@ -288,13 +961,15 @@ function App() {
                       
                       {/* After Image */}
                       <div className="w-1/2 relative">
-                        <img
-                          src={image.processed || image.preview}
-                          alt="After restoration"
-                          className={`w-full h-full object-cover transition-all duration-500 ${
-                            image.status === 'completed' ? 'filter-none' : 'filter grayscale blur-sm'
-                          }`}
-                        />
+                        {(image.processed || image.preview) && (
+                          <img
+                            src={image.processed || image.preview}
+                            alt="After restoration"
+                            className={`w-full h-full object-cover transition-all duration-500 ${
+                              image.status === 'completed' ? 'filter-none' : 'filter grayscale blur-sm'
+                            }`}
+                          />
+                        )}
                         <div className={`absolute bottom-2 right-2 px-2 py-1 backdrop-blur-sm rounded text-xs font-medium text-white ${
                           image.status === 'completed' ? 'bg-green-500/80' : 'bg-gray-500/80'
                         }`}>
@@ -308,7 +983,23 @@ function App() {
                               {image.status === 'processing' ? (
                                 <>
                                   <Loader2 className="w-6 h-6 animate-spin mx-auto mb-2 text-pink-400 drop-shadow-[0_0_10px_rgba(236,72,153,0.8)]" />
-                                  <p className="text-xs text-cyan-400 drop-shadow-[0_0_8px_rgba(34,211,238,0.8)]">Processing...</p>
+                                  <p className="text-xs text-cyan-400 drop-shadow-[0_0_8px_rgba(34,211,238,0.8)]">
+                                    {STAGE_LABELS[image.stage || 'queued']}...
+                                  </p>
+                                </>
+                              ) : image.status === 'preparing' ? (
+                                <>
+                                  <Loader2 className="w-6 h-6 animate-spin mx-auto mb-2 text-cyan-400" />
+                                  <p className="text-xs text-cyan-400">Preparing...</p>
+                                </>
+                              ) : image.status === 'queued' ? (
+                                <p className="text-xs text-purple-300">
+                                  {queuePaused ? 'Queued (paused)' : 'Queued'}
+                                </p>
+                              ) : image.status === 'offline' ? (
+                                <>
+                                  <WifiOff className="w-6 h-6 mx-auto mb-2 text-amber-400" />
+                                  <p className="text-xs text-amber-300">Queued offline</p>
                                 </>
                               ) : (
                                 <p className="text-xs text-gray-400">Waiting to process</p>
@@ -335,25 +1026,148 @@ function App() {
                         {image.file.name}
                       </span>
                       <span className={`px-3 py-1 rounded-full text-xs font-medium border ${
-                        image.status === 'uploaded' ? 'bg-cyan-500/20 text-cyan-400 border-cyan-500/50' :
+                        image.status === 'uploaded' || image.status === 'preparing' ? 'bg-cyan-500/20 text-cyan-400 border-cyan-500/50' :
+                        image.status === 'queued' ? 'bg-purple-500/20 text-purple-300 border-purple-500/50' :
+                        image.status === 'offline' ? 'bg-amber-500/20 text-amber-300 border-amber-500/50' :
                         image.status === 'processing' ? 'bg-yellow-500/20 text-yellow-400 border-yellow-500/50' :
+                        image.status === 'error' ? 'bg-red-500/20 text-red-400 border-red-500/50' :
                         'bg-green-500/20 text-green-400 border-green-500/50'
                       }`}>
-                        {image.status === 'uploaded' ? 'Ready' :
-                         image.status === 'processing' ? 'Processing' : 'Completed'}
+                        {image.status === 'preparing' ? 'Preparing' :
+                         image.status === 'uploaded' ? 'Ready' :
+                         image.status === 'queued' ? 'Queued' :
+                         image.status === 'offline' ? 'Queued offline' :
+                         image.status === 'processing' ? STAGE_LABELS[image.stage || 'queued'] :
+                         image.status === 'error' ? 'Failed' : 'Completed'}
                       </span>
                     </div>
                     
+                    {image.upload && (
+                      <p className="-mt-2 mb-4 text-xs text-gray-500">
+                        {formatBytes(image.file.size)} → <span className="text-cyan-400">{formatBytes(image.upload.file.size)}</span>
+                        {' · '}
+                        {image.upload.originalWidth}×{image.upload.originalHeight} → {image.upload.width}×{image.upload.height}
+                        {' · '}
+                        {fitsUploadLimits(image.file, image.upload.originalWidth, image.upload.originalHeight, uploadLimits)
+                          ? 'restored at full resolution'
+                          : 'restored at upload size'}
+                      </p>
+                    )}
+
+                    {image.scanError && (
+                      <div className="-mt-2 mb-4 p-3 rounded-lg bg-amber-500/10 border border-amber-500/30 text-amber-300 text-xs">
+                        <p className="font-semibold">Scan not split: restoring it as a single photo</p>
+                        <p>{image.scanError.message}</p>
+                        {isUploadErrorCode(image.scanError.code) && (
+                          <p className="mt-1 text-amber-300/70">{UPLOAD_ERRORS[image.scanError.code].hint}</p>
+                        )}
+                      </div>
+                    )}
+
+                    {image.scan && (image.status === 'uploaded' || image.status === 'error' || image.status === 'preparing') && (
+                      <ScanPhotoControls
+                        scan={image.scan}
+                        busy={image.status === 'preparing'}
+                        onRotate={(degrees) => rotateScanPhoto(image, degrees)}
+                        onDiscard={() => discardImage(image.id)}
+                      />
+                    )}
+
+                    {(image.result?.mode || image.settings) && (
+                      <p className="-mt-2 mb-4 text-xs text-gray-500">
+                        Mode: <span className="text-purple-300">
+                          {image.result?.mode.label ||
+                           modes.find((mode: RestorationMode) => mode.id === image.settings?.mode)?.label ||
+                           image.settings?.mode}
+                        </span>
+                        {image.result?.output && (
+                          <> · Format: <span className="text-purple-300">{image.result.output.format.toUpperCase()}</span></>
+                        )}
+                        {image.result?.model && (
+                          <>
+                            {' · '}Model:{' '}
+                            <span
+                              className="text-purple-300"
+                              title={image.result.modelAttempts?.length ? describeAttempts(image.result.modelAttempts) : image.result.model}
+                            >
+                              {shortModelName(image.result.model)}
+                            </span>
+                            {image.result.modelAttempts?.[0] && image.result.modelAttempts[0].model !== image.result.model && (
+                              <span className="text-yellow-400"> (fallback)</span>
+                            )}
+                          </>
+                        )}
+                        {image.result?.cached && (
+                          <> · <span className="text-green-400" title="Identical request, served from the server cache">Cached</span></>
+                        )}
+                      </p>
+                    )}
+
+                    {/* 重新修复失败或被中断时，之前的版本仍然可用 */}
+                    {image.status === 'completed' && image.error && (
+                      <div className="mb-4 p-3 rounded-lg bg-red-500/20 border border-red-500/30 text-red-400 text-xs">
+                        <p className="font-semibold">
+                          {image.errorCode === QUALITY_REGRESSION ? QUALITY_REGRESSION_ERROR.title : 'Repairing again failed'}
+                        </p>
+                        <p>{image.error}</p>
+                        {image.errorCode === QUALITY_REGRESSION && (
+                          <p className="mt-1 text-red-300/80">{QUALITY_REGRESSION_ERROR.hint}</p>
+                        )}
+                      </div>
+                    )}
+
+                    {image.versions && image.versions.length > 1 && (
+                      <VersionList
+                        image={image}
+                        busy={image.status !== 'completed'}
+                        onPrefer={(versionId) => preferImageVersion(image, versionId)}
+                        onCompare={(versionId) => compareVersion(image, versionId)}
+                        onDelete={(versionId) => deleteImageVersion(image, versionId)}
+                      />
+                    )}
+
+                    {image.status === 'completed' && (
+                      <button
+                        onClick={() => queueImages([image.id], true)}
+                        title="Repair again with the current settings, keeping this result as a version"
+                        className="mb-4 inline-flex items-center text-xs text-cyan-400 hover:text-cyan-300 transition-colors"
+                      >
+                        <RotateCcw className="w-3 h-3 mr-1" />
+                        Repair again with current settings
+                      </button>
+                    )}
+
                     <div className="flex space-x-3">
                       {image.status === 'uploaded' && (
                         <button
-                          onClick={() => processImage(image.id)}
+                          onClick={() => queueImages([image.id])}
                           className="flex-1 inline-flex items-center justify-center px-4 py-2 bg-gradient-to-r from-pink-500 to-purple-500 text-white font-medium rounded-lg hover:from-pink-600 hover:to-purple-600 transition-all duration-300 shadow-lg shadow-pink-500/30 hover:shadow-pink-500/50"
                         >
                           <Sparkles className="w-4 h-4 mr-2" />
                           Repair Photo
                         </button>
                       )}
+
+                      {image.status === 'offline' && (
+                        <button
+                          onClick={() => retryOfflineImage(image.id)}
+                          title={image.outbox ? `Next automatic attempt ${new Date(image.outbox.nextAttemptAt).toLocaleTimeString()}` : undefined}
+                          className="flex-1 inline-flex items-center justify-center px-4 py-2 border border-amber-500/50 text-amber-300 font-medium rounded-lg hover:bg-amber-500/10 transition-colors"
+                        >
+                          <RotateCcw className="w-4 h-4 mr-2" />
+                          Retry now
+                        </button>
+                      )}
+
+                      {(image.status === 'queued' || image.status === 'processing' || image.status === 'offline') && (
+                        <button
+                          onClick={() => cancelImage(image.id)}
+                          className="flex-1 inline-flex items-center justify-center px-4 py-2 border border-red-500/50 text-red-400 font-medium rounded-lg hover:bg-red-500/10 transition-colors"
+                        >
+                          <X className="w-4 h-4 mr-2" />
+                          Cancel
+                        </button>
+                      )}
                       
                       {image.status === 'completed' && (
                         <button
@@ -364,19 +1178,72 @@ function App() {
                           Download
                         </button>
                       )}
+
+                      {image.status === 'completed' && image.processed && (
+                        <button
+                          onClick={() => openCompare(image.id)}
+                          title="Open full-screen comparison"
+                          className="inline-flex items-center justify-center px-4 py-2 border border-cyan-500/50 text-cyan-300 font-medium rounded-lg hover:bg-cyan-500/10 transition-colors"
+                        >
+                          <Columns2 className="w-4 h-4 mr-2" />
+                          Compare
+                        </button>
+                      )}
+
+                      {image.status === 'completed' && image.result && (
+                        <button
+                          onClick={() => openShareDialog(image)}
+                          title="Share a before/after link"
+                          className="inline-flex items-center justify-center px-4 py-2 border border-cyan-500/50 text-cyan-300 font-medium rounded-lg hover:bg-cyan-500/10 transition-colors"
+                        >
+                          <Link2 className="w-4 h-4 mr-2" />
+                          Share
+                        </button>
+                      )}
                     </div>
                   </div>
 
+                  {image.status === 'completed' && image.result?.metrics && (
+                    <QualityMetricsPanel metrics={image.result.metrics} />
+                  )}
+
+                  {image.status === 'completed' && (
+                    <DamageReportPanel
+                      image={image}
+                      expanded={expandedReports.has(image.id)}
+                      onToggle={() => toggleReport(image.id)}
+                    />
+                  )}
+
                   {/* Add error handling */}
+                  {/* 上传被拒绝时显示原因和处理建议，重试同一个文件没有意义；质量不合格时可以换一种模式重试 */}
                   {image.status === 'error' && (
                     <div className="p-4 bg-red-500/20 border-t border-red-500/30 text-red-400 text-sm">
-                      <p>Error: {image.error || 'Failed to process image'}</p>
-                      <button
-                        onClick={() => processImage(image.id)}
-                        className="mt-2 px-3 py-1 bg-red-500/30 hover:bg-red-500/50 rounded text-white text-xs transition-colors"
-                      >
-                        Try Again
-                      </button>
+                      {isUploadErrorCode(image.errorCode) ? (
+                        <>
+                          <p className="font-semibold">{UPLOAD_ERRORS[image.errorCode].title}</p>
+                          <p>{image.error}</p>
+                          <p className="mt-1 text-xs text-red-300/80">{UPLOAD_ERRORS[image.errorCode].hint}</p>
+                        </>
+                      ) : (
+                        <>
+                          {image.errorCode === QUALITY_REGRESSION ? (
+                            <>
+                              <p className="font-semibold">{QUALITY_REGRESSION_ERROR.title}</p>
+                              <p>{image.error}</p>
+                              <p className="mt-1 text-xs text-red-300/80">{QUALITY_REGRESSION_ERROR.hint}</p>
+                            </>
+                          ) : (
+                            <p>Error: {image.error || 'Failed to process image'}</p>
+                          )}
+                          <button
+                            onClick={() => queueImages([image.id])}
+                            className="mt-2 px-3 py-1 bg-red-500/30 hover:bg-red-500/50 rounded text-white text-xs transition-colors"
+                          >
+                            Try Again
+                          </button>
+                        </>
+                      )}
                     </div>
                   )}
                 </div>
@@ -477,6 +1344,70 @@ function App() {
         </div>
       </section>
 
+      {/* Pricing Section */}
+      <section id="pricing" className="relative z-10 py-20 px-4 sm:px-6 lg:px-8 bg-black/30 backdrop-blur-sm border-y border-purple-500/20">
+        <div className="max-w-7xl mx-auto">
+          <div className="text-center mb-16">
+            <h3 className="text-3xl md:text-4xl font-bold text-white mb-4 drop-shadow-[0_0_15px_rgba(255,255,255,0.3)]">
+              Simple Credit Pricing
+            </h3>
+            <p className="text-xl text-gray-300 max-w-3xl mx-auto">
+              Every account gets an API key and a credit balance. You only pay for restorations that succeed.
+            </p>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
+            {[
+              pricing?.signupCredits ? {
+                icon: <Gift className="w-8 h-8" />,
+                title: `${pricing.signupCredits} Free Credits`,
+                description: "Create an account with just your email to get your API key and free credits to start restoring.",
+                gradient: "from-pink-500 to-purple-500",
+                shadow: "shadow-pink-500/50"
+              } : {
+                icon: <KeyRound className="w-8 h-8" />,
+                title: "Your Own API Key",
+                description: "Create an account with just your email to get your API key. Credits are added to your balance by the site's operator.",
+                gradient: "from-pink-500 to-purple-500",
+                shadow: "shadow-pink-500/50"
+              },
+              {
+                icon: <Coins className="w-8 h-8" />,
+                title: `${pricing?.creditsPerRestoration ?? 1} Credit per Photo`,
+                description: "Each restoration is charged when it is queued. Failed restorations are refunded automatically.",
+                gradient: "from-cyan-500 to-blue-500",
+                shadow: "shadow-cyan-500/50"
+              },
+              {
+                icon: <RotateCcw className="w-8 h-8" />,
+                title: "Free Repeats",
+                description: "Repairing the same photo with the same settings again is served from the cache at no cost.",
+                gradient: "from-purple-500 to-indigo-500",
+                shadow: "shadow-purple-500/50"
+              }
+            ].map((plan, index) => (
+              <div key={index} className="text-center group">
+                <div className={`w-16 h-16 bg-gradient-to-br ${plan.gradient} rounded-2xl flex items-center justify-center mx-auto mb-6 text-white group-hover:scale-110 transition-transform duration-300 shadow-lg ${plan.shadow}`}>
+                  {plan.icon}
+                </div>
+                <h4 className="text-xl font-semibold text-white mb-4 drop-shadow-[0_0_8px_rgba(255,255,255,0.3)]">{plan.title}</h4>
+                <p className="text-gray-400 leading-relaxed">{plan.description}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="text-center mt-12">
+            <button
+              onClick={() => setAccountOpen(true)}
+              className="inline-flex items-center px-8 py-4 bg-gradient-to-r from-pink-500 to-purple-500 text-white font-semibold rounded-xl hover:from-pink-600 hover:to-purple-600 transition-all duration-300 shadow-lg shadow-pink-500/30 hover:shadow-pink-500/50"
+            >
+              <KeyRound className="w-5 h-5 mr-2" />
+              {account ? 'View credits & usage' : 'Get your API key'}
+            </button>
+          </div>
+        </div>
+      </section>
+
       {/* Footer */}
       <footer className="relative z-10 bg-black/80 backdrop-blur-md border-t border-pink-500/30 text-white py-12 px-4 sm:px-6 lg:px-8">
         <div className="max-w-7xl mx-auto text-center">
@@ -497,11 +1428,71 @@ function App() {
         </div>
       </footer>
 
+      {/* 损伤标记编辑器 */}
+      {maskEditorImage && (
+        <MaskEditor
+          imageSrc={maskEditorImage.preview}
+          initialMask={maskEditorImage.mask}
+          onSave={(mask) => {
+            updateImage(maskEditorImage.id, { mask });
+            setMaskEditorId(null);
+          }}
+          onClose={() => setMaskEditorId(null)}
+        />
+      )}
+
+      {/* 全屏对比查看器 */}
+      {compareId && (
+        <CompareViewer
+          images={comparableImages}
+          currentId={compareId}
+          initialPair={comparePair}
+          onNavigate={setCompareId}
+          onClose={() => setCompareId(null)}
+        />
+      )}
+
+      {/* 分享链接 */}
+      {shareImage && (
+        <ShareDialog
+          image={shareImage}
+          signedIn={Boolean(account)}
+          onChange={(share) => updateImage(shareImage.id, { share })}
+          onOpenAccount={() => {
+            setShareId(null);
+            setAccountOpen(true);
+          }}
+          onClose={() => setShareId(null)}
+        />
+      )}
+
+      {/* 修复历史 */}
+      {historyOpen && (
+        <HistoryPanel
+          version={historyVersion}
+          onReopen={(entry: HistoryEntry) => reopenFromHistory(entry)}
+          onCompare={(entry: HistoryEntry) => reopenFromHistory(entry, true)}
+          onClose={() => setHistoryOpen(false)}
+        />
+      )}
+
+      {/* 账户、额度和API密钥 */}
+      {accountOpen && (
+        <AccountPanel
+          details={account}
+          onRefresh={refreshAccount}
+          onClose={() => setAccountOpen(false)}
+        />
+      )}
+
       {/* 全局加载状态 */}
-      {isProcessing && (
+      {batchCounts.processing > 0 && (
         <div className="fixed bottom-4 right-4 bg-black/70 backdrop-blur-md border border-pink-500/50 rounded-lg p-3 text-white flex items-center shadow-lg shadow-pink-500/20 z-50">
           <Loader2 className="w-5 h-5 animate-spin mr-2 text-pink-400" />
-          <span>Processing image...</span>
+          <span>
+            Processing {batchCounts.processing} {batchCounts.processing === 1 ? 'image' : 'images'}
+            {batchCounts.queued > 0 && `, ${batchCounts.queued} queued`}...
+          </span>
         </div>
       )}
     </div>
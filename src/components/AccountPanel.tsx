@@ -0,0 +1,363 @@
+import { useEffect, useState } from 'react';
+import { Coins, Copy, ExternalLink, KeyRound, Link2, LogOut, Plus, Trash2, X } from 'lucide-react';
+import {
+  AccountDetails,
+  AccountUsage,
+  NewApiKey,
+  createAccount,
+  createApiKey,
+  fetchUsage,
+  revokeApiKey,
+  saveApiKey
+} from '../lib/account';
+import { ShareLink, fetchShares, revokeShare, shareStatus, shareUrl } from '../lib/shares';
+
+interface AccountPanelProps {
+  // null表示还没有保存API密钥或密钥无效
+  details: AccountDetails | null;
+  onRefresh: () => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-black/70 border border-cyan-500/50 rounded-lg px-3 py-2 text-sm text-white placeholder-gray-500 focus:outline-none focus:border-pink-500';
+const buttonClass = 'inline-flex items-center justify-center px-3 py-2 rounded-lg text-sm font-medium bg-gradient-to-r from-pink-500 to-purple-500 text-white hover:from-pink-600 hover:to-purple-600 disabled:opacity-50 transition-all duration-300';
+
+const formatCost = (cost: number) => `$${cost.toFixed(cost > 0 && cost < 0.01 ? 4 : 2)}`;
+
+// 账户面板：注册或输入API密钥，查看额度和用量，管理API密钥
+function AccountPanel({ details, onRefresh, onClose }: AccountPanelProps) {
+  const [usage, setUsage] = useState<AccountUsage | null>(null);
+  const [shares, setShares] = useState<ShareLink[]>([]);
+  const [email, setEmail] = useState('');
+  const [name, setName] = useState('');
+  const [existingKey, setExistingKey] = useState('');
+  const [keyLabel, setKeyLabel] = useState('');
+  // 新创建的密钥只显示这一次
+  const [revealedKey, setRevealedKey] = useState<NewApiKey | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!details) {
+      setUsage(null);
+      setShares([]);
+      return;
+    }
+    fetchUsage()
+      .then(setUsage)
+      .catch((usageError) => console.error('Error loading usage:', usageError));
+    fetchShares()
+      .then(setShares)
+      .catch((sharesError) => console.error('Error loading shared links:', sharesError));
+  }, [details]);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (actionError) {
+      setError(actionError instanceof Error ? actionError.message : 'Request failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const signUp = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      const { apiKey } = await createAccount(email, name || undefined);
+      saveApiKey(apiKey.key);
+      setRevealedKey(apiKey);
+      onRefresh();
+    });
+  };
+
+  const useExistingKey = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveApiKey(existingKey.trim());
+    setExistingKey('');
+    onRefresh();
+  };
+
+  const addKey = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      setRevealedKey(await createApiKey(keyLabel));
+      setKeyLabel('');
+      onRefresh();
+    });
+  };
+
+  const revokeKey = (id: string) => {
+    const isCurrent = id === details?.apiKeyId;
+    if (isCurrent && !confirm('This is the key this browser uses. Revoke it and sign out?')) return;
+    run(async () => {
+      await revokeApiKey(id);
+      if (isCurrent) saveApiKey(null);
+      onRefresh();
+    });
+  };
+
+  const stopSharing = (id: string) => {
+    if (!confirm('Revoke this link? Anyone who has it will no longer see the photos.')) return;
+    run(async () => {
+      await revokeShare(id);
+      setShares(await fetchShares());
+    });
+  };
+
+  const signOut = () => {
+    saveApiKey(null);
+    setRevealedKey(null);
+    onRefresh();
+  };
+
+  const copyKey = () => {
+    if (revealedKey) navigator.clipboard?.writeText(revealedKey.key);
+  };
+
+  const keyName = (id: string) => {
+    const key = details?.keys.find((item) => item.id === id);
+    return key ? key.label || `${key.prefix}…` : 'Revoked key';
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex justify-end bg-black/60 backdrop-blur-sm" onClick={onClose}>
+      <aside
+        className="w-full max-w-md h-full flex flex-col bg-black/90 border-l border-purple-500/30 shadow-lg shadow-purple-500/20"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-white/10">
+          <div className="flex items-center text-white">
+            <Coins className="w-5 h-5 mr-2 text-purple-400" />
+            <h4 className="text-lg font-semibold">Credits &amp; usage</h4>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label="Close account">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-6 text-sm">
+          {error && (
+            <p className="p-3 rounded-lg border border-red-500/50 bg-red-500/10 text-red-300">{error}</p>
+          )}
+
+          {revealedKey && (
+            <div className="p-3 rounded-xl border border-green-500/50 bg-green-500/10">
+              <p className="text-green-300 mb-2">Your new API key. Store it now, it won't be shown again.</p>
+              <div className="flex items-center gap-2">
+                <code className="flex-1 min-w-0 truncate px-2 py-1 rounded bg-black/70 text-white">{revealedKey.key}</code>
+                <button onClick={copyKey} className="text-gray-300 hover:text-white" aria-label="Copy API key">
+                  <Copy className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          )}
+
+          {!details ? (
+            <>
+              <form onSubmit={signUp} className="space-y-3">
+                <h5 className="text-white font-semibold">Create an account</h5>
+                <input
+                  type="email"
+                  required
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  placeholder="Email"
+                  className={inputClass}
+                />
+                <input
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Name (optional)"
+                  className={inputClass}
+                />
+                <button type="submit" disabled={busy} className={`${buttonClass} w-full`}>
+                  Get an API key
+                </button>
+              </form>
+
+              <form onSubmit={useExistingKey} className="space-y-3 pt-6 border-t border-white/10">
+                <h5 className="text-white font-semibold">Already have an API key?</h5>
+                <input
+                  required
+                  value={existingKey}
+                  onChange={(e) => setExistingKey(e.target.value)}
+                  placeholder="prk_…"
+                  className={inputClass}
+                />
+                <button type="submit" className={`${buttonClass} w-full`}>
+                  <KeyRound className="w-4 h-4 mr-2" />
+                  Use this key
+                </button>
+              </form>
+            </>
+          ) : (
+            <>
+              <div className="p-4 rounded-xl border border-purple-500/50 bg-purple-500/10">
+                <div className="flex items-baseline justify-between">
+                  <span className="text-gray-300">{details.account.name || details.account.email}</span>
+                  <button onClick={signOut} className="inline-flex items-center text-xs text-gray-400 hover:text-white">
+                    <LogOut className="w-3 h-3 mr-1" />
+                    Sign out
+                  </button>
+                </div>
+                <p className="mt-2 text-3xl font-bold text-white">
+                  {details.account.credits}
+                  <span className="ml-2 text-sm font-normal text-gray-400">credits</span>
+                </p>
+                <p className="text-xs text-gray-400">
+                  {Math.floor(details.account.credits / details.creditsPerRestoration)} restorations left
+                  {' · '}{details.creditsPerRestoration} credit(s) each, repeats of the same photo and settings are free
+                </p>
+              </div>
+
+              {usage && (
+                <div>
+                  <h5 className="text-white font-semibold mb-2">Usage</h5>
+                  <dl className="grid grid-cols-2 gap-2 text-xs">
+                    {[
+                      ['Restorations', usage.totals.restorations],
+                      ['Credits used', usage.totals.credits],
+                      ['Tokens', usage.totals.totalTokens.toLocaleString()],
+                      ['AI cost', formatCost(usage.totals.cost)]
+                    ].map(([label, value]) => (
+                      <div key={label} className="p-2 rounded-lg border border-white/10">
+                        <dt className="text-gray-500">{label}</dt>
+                        <dd className="text-white text-base">{value}</dd>
+                      </div>
+                    ))}
+                  </dl>
+                  {usage.byStatus.failed && (
+                    <p className="mt-2 text-xs text-gray-400">
+                      Includes {usage.byStatus.failed.jobs} failed job(s): credits refunded,
+                      {' '}{usage.byStatus.failed.totalTokens.toLocaleString()} tokens and {formatCost(usage.byStatus.failed.cost)} AI cost
+                    </p>
+                  )}
+                </div>
+              )}
+
+              <div>
+                <h5 className="text-white font-semibold mb-2">API keys</h5>
+                <ul className="space-y-2">
+                  {details.keys.map((key) => (
+                    <li key={key.id} className="flex items-center gap-2 p-2 rounded-lg border border-white/10">
+                      <KeyRound className={`w-4 h-4 flex-shrink-0 ${key.revokedAt ? 'text-gray-600' : 'text-cyan-400'}`} />
+                      <div className="flex-1 min-w-0">
+                        <p className={key.revokedAt ? 'text-gray-500 line-through' : 'text-white'}>
+                          {key.label || 'Unnamed key'} <code className="text-xs text-gray-400">{key.prefix}…</code>
+                          {key.id === details.apiKeyId && <span className="ml-1 text-xs text-green-400">(this browser)</span>}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {key.revokedAt
+                            ? `Revoked ${new Date(key.revokedAt).toLocaleDateString()}`
+                            : `Last used ${key.lastUsedAt ? new Date(key.lastUsedAt).toLocaleString() : 'never'}`}
+                        </p>
+                      </div>
+                      {!key.revokedAt && (
+                        <button
+                          onClick={() => revokeKey(key.id)}
+                          disabled={busy}
+                          className="text-red-400 hover:text-red-300"
+                          aria-label="Revoke API key"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+                <form onSubmit={addKey} className="flex gap-2 mt-2">
+                  <input
+                    value={keyLabel}
+                    onChange={(e) => setKeyLabel(e.target.value)}
+                    placeholder="New key label"
+                    className={inputClass}
+                  />
+                  <button type="submit" disabled={busy} className={buttonClass} aria-label="Create API key">
+                    <Plus className="w-4 h-4" />
+                  </button>
+                </form>
+              </div>
+
+              {shares.length > 0 && (
+                <div>
+                  <h5 className="text-white font-semibold mb-2">Shared links</h5>
+                  <ul className="space-y-2">
+                    {shares.map((share) => {
+                      const status = shareStatus(share);
+                      return (
+                        <li key={share.id} className="flex items-center gap-2 p-2 rounded-lg border border-white/10">
+                          <Link2 className={`w-4 h-4 flex-shrink-0 ${status === 'active' ? 'text-cyan-400' : 'text-gray-600'}`} />
+                          <div className="flex-1 min-w-0">
+                            <p className={`truncate ${status === 'active' ? 'text-white' : 'text-gray-500 line-through'}`}>
+                              {share.title || 'Untitled photo'}
+                            </p>
+                            <p className="text-xs text-gray-500">
+                              {status === 'active'
+                                ? `Expires ${new Date(share.expiresAt).toLocaleDateString()}`
+                                : status === 'revoked' ? 'Revoked' : 'Expired'}
+                              {' · '}{share.views} view(s)
+                            </p>
+                          </div>
+                          {status === 'active' && (
+                            <>
+                              <a
+                                href={shareUrl(share)}
+                                target="_blank"
+                                rel="noreferrer"
+                                className="text-gray-300 hover:text-white"
+                                aria-label="Open shared link"
+                              >
+                                <ExternalLink className="w-4 h-4" />
+                              </a>
+                              <button
+                                onClick={() => stopSharing(share.id)}
+                                disabled={busy}
+                                className="text-red-400 hover:text-red-300"
+                                aria-label="Revoke shared link"
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </button>
+                            </>
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </div>
+              )}
+
+              {usage && usage.recent.length > 0 && (
+                <div>
+                  <h5 className="text-white font-semibold mb-2">Recent restorations</h5>
+                  <ul className="space-y-1 text-xs">
+                    {usage.recent.map((record) => (
+                      <li key={record.id} className="flex items-center justify-between gap-2 py-1 border-b border-white/5">
+                        <span className="text-gray-400">
+                          {new Date(record.createdAt).toLocaleString()}
+                          <span className="block text-gray-600">{keyName(record.apiKeyId)}</span>
+                        </span>
+                        <span className="text-right">
+                          <span className={record.status === 'done' ? 'text-green-400' : 'text-red-400'}>
+                            {record.status === 'done' ? (record.cached ? 'cached' : 'done') : `${record.status}, refunded`}
+                          </span>
+                          <span className="block text-gray-500">
+                            {record.credits} cr · {record.totalTokens.toLocaleString()} tokens · {formatCost(record.cost)}
+                          </span>
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </aside>
+    </div>
+  );
+}
+
+export default AccountPanel;
@@ -0,0 +1,114 @@
+import { Archive, Loader2, Pause, Play, Sparkles, X } from 'lucide-react';
+
+interface BatchToolbarProps {
+  counts: {
+    ready: number;
+    queued: number;
+    processing: number;
+    completed: number;
+    failed: number;
+  };
+  maxConcurrent: number;
+  paused: boolean;
+  isZipping: boolean;
+  onMaxConcurrentChange: (value: number) => void;
+  onRepairAll: () => void;
+  onTogglePause: () => void;
+  onCancelAll: () => void;
+  onDownloadZip: () => void;
+}
+
+const CONCURRENCY_OPTIONS = [1, 2, 3, 4, 6];
+
+// 批量修复工具栏：全部修复、并发数、暂停/取消、总体进度和ZIP下载
+function BatchToolbar({
+  counts,
+  maxConcurrent,
+  paused,
+  isZipping,
+  onMaxConcurrentChange,
+  onRepairAll,
+  onTogglePause,
+  onCancelAll,
+  onDownloadZip
+}: BatchToolbarProps) {
+  const batchSize = counts.queued + counts.processing + counts.completed + counts.failed;
+  const finished = counts.completed + counts.failed;
+  const progress = batchSize > 0 ? Math.round((finished / batchSize) * 100) : 0;
+  const batchRunning = counts.queued + counts.processing > 0;
+
+  return (
+    <div className="mb-8 bg-black/50 backdrop-blur-sm rounded-2xl border border-purple-500/30 shadow-lg shadow-purple-500/20 p-6">
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          onClick={onRepairAll}
+          disabled={counts.ready + counts.failed === 0}
+          className="inline-flex items-center px-4 py-2 bg-gradient-to-r from-pink-500 to-purple-500 text-white font-medium rounded-lg hover:from-pink-600 hover:to-purple-600 transition-all duration-300 shadow-lg shadow-pink-500/30 disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          <Sparkles className="w-4 h-4 mr-2" />
+          Repair all ({counts.ready + counts.failed})
+        </button>
+
+        <button
+          onClick={onTogglePause}
+          disabled={!batchRunning && !paused}
+          className="inline-flex items-center px-4 py-2 border border-cyan-500/50 text-cyan-400 rounded-lg hover:bg-cyan-500/10 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          {paused ? <Play className="w-4 h-4 mr-2" /> : <Pause className="w-4 h-4 mr-2" />}
+          {paused ? 'Resume' : 'Pause'}
+        </button>
+
+        <button
+          onClick={onCancelAll}
+          disabled={!batchRunning}
+          className="inline-flex items-center px-4 py-2 border border-red-500/50 text-red-400 rounded-lg hover:bg-red-500/10 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          <X className="w-4 h-4 mr-2" />
+          Cancel
+        </button>
+
+        <label className="inline-flex items-center text-sm text-gray-300 ml-auto">
+          In flight
+          <select
+            value={maxConcurrent}
+            onChange={(e) => onMaxConcurrentChange(Number(e.target.value))}
+            className="ml-2 bg-black/70 border border-purple-500/50 rounded-lg px-2 py-1 text-white focus:outline-none focus:border-pink-500"
+          >
+            {CONCURRENCY_OPTIONS.map((value) => (
+              <option key={value} value={value}>{value}</option>
+            ))}
+          </select>
+        </label>
+
+        <button
+          onClick={onDownloadZip}
+          disabled={batchRunning || counts.completed === 0 || isZipping}
+          className="inline-flex items-center px-4 py-2 bg-gradient-to-r from-green-500 to-emerald-500 text-white font-medium rounded-lg hover:from-green-600 hover:to-emerald-600 transition-all duration-300 shadow-lg shadow-green-500/30 disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          {isZipping ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Archive className="w-4 h-4 mr-2" />}
+          Download ZIP ({counts.completed})
+        </button>
+      </div>
+
+      {batchSize > 0 && (
+        <div className="mt-5">
+          <div className="flex justify-between text-xs text-gray-400 mb-2">
+            <span>
+              {counts.completed} restored · {counts.failed} failed · {counts.processing} in progress · {counts.queued} queued
+              {paused && <span className="text-yellow-400"> · paused</span>}
+            </span>
+            <span>{progress}%</span>
+          </div>
+          <div className="h-2 bg-white/10 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-gradient-to-r from-pink-500 via-purple-500 to-cyan-500 transition-all duration-500"
+              style={{ width: `${progress}%` }}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default BatchToolbar;
@@ -0,0 +1,462 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import ReactCompareImage from 'react-compare-image';
+import {
+  ChevronLeft,
+  ChevronRight,
+  Columns2,
+  Flame,
+  Loader2,
+  Maximize,
+  Repeat,
+  Scan,
+  SplitSquareHorizontal,
+  X,
+  ZoomIn,
+  ZoomOut
+} from 'lucide-react';
+import { DifferenceHeatmap, createDifferenceHeatmap } from '../lib/differenceHeatmap';
+import { ORIGINAL, versionLabel } from '../lib/versions';
+import type { UploadedImage } from '../types';
+
+type CompareMode = 'slider' | 'side-by-side' | 'flicker' | 'difference';
+
+// zoom是相对于“适应窗口”大小的倍数，x/y是图片中心相对于窗格中心的偏移（屏幕像素）
+interface View {
+  zoom: number;
+  x: number;
+  y: number;
+}
+
+// 左右两侧显示的内容：原始照片（ORIGINAL）或某个版本的ID
+export interface ComparePair {
+  imageId: string;
+  left: string;
+  right: string;
+}
+
+interface CompareViewerProps {
+  // 可以在其间切换的已完成图片
+  images: UploadedImage[];
+  currentId: string;
+  // 打开时对比的两个版本，默认是原始照片和首选版本
+  initialPair?: ComparePair;
+  onNavigate: (id: string) => void;
+  onClose: () => void;
+}
+
+const FIT_VIEW: View = { zoom: 1, x: 0, y: 0 };
+const MIN_ZOOM = 0.5;
+const MAX_ZOOM = 64;
+const ZOOM_STEP = 1.25;
+const FLICKER_INTERVAL_MS = 500;
+
+const versionSelectClass = 'bg-black/70 border border-white/10 rounded-lg px-2 py-1 text-xs text-white focus:outline-none focus:border-cyan-500/50';
+
+const MODES: { id: CompareMode; label: string; key: string; icon: React.ReactNode }[] = [
+  { id: 'slider', label: 'Slider', key: 'S', icon: <SplitSquareHorizontal className="w-4 h-4" /> },
+  { id: 'side-by-side', label: 'Side by side', key: 'B', icon: <Columns2 className="w-4 h-4" /> },
+  { id: 'flicker', label: 'Flicker', key: 'F', icon: <Repeat className="w-4 h-4" /> },
+  { id: 'difference', label: 'Difference', key: 'D', icon: <Flame className="w-4 h-4" /> }
+];
+
+// 全屏对比查看器：滑块、并排、闪烁切换和差异热力图，缩放和平移在两张图片之间同步
+function CompareViewer({ images, currentId, initialPair, onNavigate, onClose }: CompareViewerProps) {
+  const index = images.findIndex((img) => img.id === currentId);
+  const image = images[index];
+  const versions = image?.versions ?? [];
+
+  // 选择的版本只对当前图片有效，切换到其他图片时回到默认的对比
+  const [pair, setPair] = useState<ComparePair | undefined>(initialPair);
+  const { left, right } = pair && pair.imageId === image?.id
+    ? pair
+    : { left: ORIGINAL, right: image?.preferredVersionId ?? '' };
+  const sourceOf = (id: string) =>
+    id === ORIGINAL ? image?.preview : versions.find((version) => version.id === id)?.processed ?? image?.processed;
+  const before = sourceOf(left);
+  const after = sourceOf(right);
+  // 只有一个版本时沿用“修复前/修复后”的标签
+  const labelOf = (id: string, fallback: string) =>
+    versions.length > 1 && image ? versionLabel(image, id) : fallback;
+  const beforeLabel = labelOf(left, 'Before');
+  const afterLabel = labelOf(right, 'After');
+
+  const [mode, setMode] = useState<CompareMode>('slider');
+  const [view, setView] = useState<View>(FIT_VIEW);
+  const [pane, setPane] = useState({ width: 0, height: 0 });
+  const [natural, setNatural] = useState<{ width: number; height: number } | null>(null);
+  const [showBefore, setShowBefore] = useState(false);
+  const [autoFlicker, setAutoFlicker] = useState(false);
+  const [heatmaps, setHeatmaps] = useState<Record<string, DifferenceHeatmap>>({});
+  const [heatmapError, setHeatmapError] = useState<string | null>(null);
+  const paneRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ clientX: number; clientY: number; x: number; y: number } | null>(null);
+  const heatmapUrlsRef = useRef<string[]>([]);
+
+  // 查看器打开时禁止页面滚动，滚轮只用于缩放
+  useEffect(() => {
+    const overflow = document.body.style.overflow;
+    document.body.style.overflow = 'hidden';
+    return () => {
+      document.body.style.overflow = overflow;
+    };
+  }, []);
+
+  // 关闭时释放热力图的对象URL
+  useEffect(() => {
+    const urls = heatmapUrlsRef.current;
+    return () => urls.forEach((url) => URL.revokeObjectURL(url));
+  }, []);
+
+  // 窗格大小（并排模式下是半个屏幕）
+  useEffect(() => {
+    const element = paneRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setPane({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [mode]);
+
+  // 切换图片时回到适应窗口并读取修复后图片的原始尺寸
+  useEffect(() => {
+    setView(FIT_VIEW);
+    setShowBefore(false);
+    setHeatmapError(null);
+    setNatural(null);
+    if (!after) return;
+
+    let cancelled = false;
+    const probe = new Image();
+    probe.onload = () => {
+      if (!cancelled) setNatural({ width: probe.naturalWidth, height: probe.naturalHeight });
+    };
+    probe.src = after;
+    return () => {
+      cancelled = true;
+    };
+  }, [after]);
+
+  // 差异热力图按需计算，每张图片的每一对版本只算一次
+  const heatmapKey = image ? `${image.id}:${left}:${right}` : undefined;
+  const heatmap = heatmapKey ? heatmaps[heatmapKey] : undefined;
+  useEffect(() => {
+    if (mode !== 'difference' || !heatmapKey || !before || !after || heatmap) return;
+
+    let cancelled = false;
+    createDifferenceHeatmap(before, after)
+      .then((result) => {
+        heatmapUrlsRef.current.push(result.url);
+        if (!cancelled) setHeatmaps((prev) => ({ ...prev, [heatmapKey]: result }));
+      })
+      .catch((error) => {
+        console.error('Error computing difference heatmap:', error);
+        if (!cancelled) setHeatmapError(error instanceof Error ? error.message : 'Failed to compute difference');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [mode, heatmapKey, before, after, heatmap]);
+
+  useEffect(() => {
+    if (mode !== 'flicker' || !autoFlicker) return;
+    const timer = setInterval(() => setShowBefore((value) => !value), FLICKER_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [mode, autoFlicker]);
+
+  const fitScale = natural && pane.width > 0
+    ? Math.min(pane.width / natural.width, pane.height / natural.height)
+    : 0;
+  const scale = fitScale * view.zoom;
+
+  // 以窗格中的某一点为中心缩放，默认为窗格中心
+  const zoomTo = useCallback((getZoom: (zoom: number) => number, pointX?: number, pointY?: number) => {
+    setView((prev) => {
+      const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, getZoom(prev.zoom)));
+      const ratio = zoom / prev.zoom;
+      const dx = (pointX ?? pane.width / 2) - pane.width / 2;
+      const dy = (pointY ?? pane.height / 2) - pane.height / 2;
+      return { zoom, x: dx - (dx - prev.x) * ratio, y: dy - (dy - prev.y) * ratio };
+    });
+  }, [pane]);
+
+  // 1:1：一个图片像素对应一个屏幕物理像素
+  const zoomToActualPixels = useCallback(() => {
+    if (fitScale > 0) {
+      zoomTo(() => 1 / (fitScale * window.devicePixelRatio));
+    }
+  }, [fitScale, zoomTo]);
+
+  const navigate = useCallback((step: number) => {
+    if (images.length < 2) return;
+    const next = images[(index + step + images.length) % images.length];
+    onNavigate(next.id);
+  }, [images, index, onNavigate]);
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement) return;
+      const key = e.key.toLowerCase();
+      if (key === 'escape') onClose();
+      else if (key === 'arrowleft') navigate(-1);
+      else if (key === 'arrowright') navigate(1);
+      else if (key === '+' || key === '=') zoomTo((zoom) => zoom * ZOOM_STEP);
+      else if (key === '-') zoomTo((zoom) => zoom / ZOOM_STEP);
+      else if (key === '0') setView(FIT_VIEW);
+      else if (key === '1') zoomToActualPixels();
+      else if (key === ' ' && mode === 'flicker') {
+        e.preventDefault();
+        setShowBefore((value) => !value);
+      } else {
+        const match = MODES.find((item) => item.key.toLowerCase() === key);
+        if (match) setMode(match.id);
+      }
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [mode, navigate, onClose, zoomTo, zoomToActualPixels]);
+
+  // 拖动平移；滑块模式下拖动用于移动滑块，需要按住Shift（或用中键）平移
+  useEffect(() => {
+    const handleMove = (e: MouseEvent) => {
+      const drag = dragRef.current;
+      if (!drag) return;
+      setView((prev) => ({
+        ...prev,
+        x: drag.x + e.clientX - drag.clientX,
+        y: drag.y + e.clientY - drag.clientY
+      }));
+    };
+    const handleUp = () => {
+      dragRef.current = null;
+    };
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+  }, []);
+
+  const startPan = (e: React.MouseEvent) => {
+    const isPanButton = e.button === 1 || (e.button === 0 && (mode !== 'slider' || e.shiftKey));
+    if (!isPanButton) return;
+    // 在捕获阶段拦截，避免对比滑块收到这次拖动
+    e.stopPropagation();
+    e.preventDefault();
+    dragRef.current = { clientX: e.clientX, clientY: e.clientY, x: view.x, y: view.y };
+  };
+
+  const handleWheel = (e: React.WheelEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const factor = e.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP;
+    zoomTo((zoom) => zoom * factor, e.clientX - rect.left, e.clientY - rect.top);
+  };
+
+  if (!image || !before || !after) return null;
+
+  const box = natural && scale > 0 ? {
+    width: natural.width * scale,
+    height: natural.height * scale,
+    left: (pane.width - natural.width * scale) / 2 + view.x,
+    top: (pane.height - natural.height * scale) / 2 + view.y
+  } : null;
+  // 放大到一定程度后显示清晰的像素边缘
+  const imageRendering: React.CSSProperties['imageRendering'] = scale * window.devicePixelRatio >= 2 ? 'pixelated' : 'auto';
+  const boxStyle: React.CSSProperties | undefined = box ? {
+    position: 'absolute',
+    left: box.left,
+    top: box.top,
+    width: box.width,
+    height: box.height,
+    imageRendering
+  } : undefined;
+
+  const renderPane = (src: string, label: string, ref?: React.Ref<HTMLDivElement>) => (
+    <div
+      ref={ref}
+      className={`relative flex-1 overflow-hidden ${mode === 'slider' ? '' : 'cursor-grab active:cursor-grabbing'}`}
+      onMouseDownCapture={startPan}
+      onWheel={handleWheel}
+    >
+      {boxStyle && <img src={src} alt={label} draggable={false} style={boxStyle} className="max-w-none select-none" />}
+      <span className="absolute top-3 left-3 px-2 py-1 rounded text-xs font-medium text-white bg-black/70 border border-white/20">
+        {label}
+      </span>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[70] flex flex-col bg-black">
+      <div className="flex flex-wrap items-center justify-between gap-3 px-4 py-3 border-b border-pink-500/30 bg-black/90">
+        <div className="flex items-center gap-2 min-w-0">
+          <button
+            onClick={() => navigate(-1)}
+            disabled={images.length < 2}
+            className="p-1 text-gray-300 hover:text-white disabled:opacity-30"
+            aria-label="Previous image"
+          >
+            <ChevronLeft className="w-5 h-5" />
+          </button>
+          <span className="text-sm text-white truncate">{image.file.name}</span>
+          <span className="text-xs text-gray-500">{index + 1} / {images.length}</span>
+          <button
+            onClick={() => navigate(1)}
+            disabled={images.length < 2}
+            className="p-1 text-gray-300 hover:text-white disabled:opacity-30"
+            aria-label="Next image"
+          >
+            <ChevronRight className="w-5 h-5" />
+          </button>
+        </div>
+
+        {versions.length > 1 && (
+          <div className="flex items-center gap-2 text-xs text-gray-400">
+            <select
+              value={left}
+              onChange={(e) => setPair({ imageId: image.id, left: e.target.value, right })}
+              className={versionSelectClass}
+              aria-label="Left side"
+            >
+              <option value={ORIGINAL}>Original</option>
+              {versions.map((version) => (
+                <option key={version.id} value={version.id}>v{version.number} · {version.result.mode.label}</option>
+              ))}
+            </select>
+            vs
+            <select
+              value={right}
+              onChange={(e) => setPair({ imageId: image.id, left, right: e.target.value })}
+              className={versionSelectClass}
+              aria-label="Right side"
+            >
+              {versions.map((version) => (
+                <option key={version.id} value={version.id}>v{version.number} · {version.result.mode.label}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        <div className="flex items-center gap-1">
+          {MODES.map((item) => (
+            <button
+              key={item.id}
+              onClick={() => setMode(item.id)}
+              title={`${item.label} (${item.key})`}
+              className={`inline-flex items-center px-3 py-1.5 rounded-lg text-xs border transition-colors ${
+                mode === item.id
+                  ? 'border-pink-500 bg-pink-500/15 text-white'
+                  : 'border-white/10 text-gray-300 hover:border-cyan-500/50'
+              }`}
+            >
+              {item.icon}
+              <span className="ml-1 hidden sm:inline">{item.label}</span>
+            </button>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-1 text-gray-300">
+          <button onClick={() => zoomTo((zoom) => zoom / ZOOM_STEP)} className="p-1.5 hover:text-white" title="Zoom out (-)">
+            <ZoomOut className="w-4 h-4" />
+          </button>
+          <span className="w-14 text-center text-xs text-cyan-400">{Math.round(scale * window.devicePixelRatio * 100)}%</span>
+          <button onClick={() => zoomTo((zoom) => zoom * ZOOM_STEP)} className="p-1.5 hover:text-white" title="Zoom in (+)">
+            <ZoomIn className="w-4 h-4" />
+          </button>
+          <button onClick={() => setView(FIT_VIEW)} className="p-1.5 hover:text-white" title="Fit to window (0)">
+            <Maximize className="w-4 h-4" />
+          </button>
+          <button onClick={zoomToActualPixels} className="p-1.5 hover:text-white" title="Actual pixels, 1:1 (1)">
+            <Scan className="w-4 h-4" />
+          </button>
+          <button onClick={onClose} className="ml-2 p-1.5 hover:text-white" aria-label="Close viewer">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      <div className="relative flex-1 flex min-h-0">
+        {mode === 'slider' && (
+          <div
+            ref={paneRef}
+            className="relative flex-1 overflow-hidden"
+            onMouseDownCapture={startPan}
+            onWheel={handleWheel}
+          >
+            {box && (
+              // 用宽度而不是CSS缩放来放大，对比组件按实际尺寸计算滑块位置
+              <div style={{ position: 'absolute', left: box.left, top: box.top, width: box.width }}>
+                <ReactCompareImage
+                  leftImage={before}
+                  rightImage={after}
+                  leftImageLabel={beforeLabel}
+                  rightImageLabel={afterLabel}
+                  leftImageCss={{ imageRendering }}
+                  rightImageCss={{ imageRendering }}
+                  sliderLineColor="#ec4899"
+                  aspectRatio="wider"
+                />
+              </div>
+            )}
+          </div>
+        )}
+
+        {mode === 'side-by-side' && (
+          <>
+            {renderPane(before, beforeLabel, paneRef)}
+            <div className="w-0.5 bg-gradient-to-b from-pink-500 via-purple-500 to-cyan-500" />
+            {renderPane(after, afterLabel)}
+          </>
+        )}
+
+        {mode === 'flicker' && renderPane(showBefore ? before : after, showBefore ? beforeLabel : afterLabel, paneRef)}
+
+        {mode === 'difference' && (
+          <div
+            ref={paneRef}
+            className="relative flex-1 overflow-hidden cursor-grab active:cursor-grabbing"
+            onMouseDownCapture={startPan}
+            onWheel={handleWheel}
+          >
+            {heatmap && boxStyle && (
+              <img src={heatmap.url} alt="Difference heatmap" draggable={false} style={boxStyle} className="max-w-none select-none" />
+            )}
+            {!heatmap && !heatmapError && (
+              <div className="absolute inset-0 flex items-center justify-center text-cyan-400 text-sm">
+                <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+                Comparing pixels...
+              </div>
+            )}
+            {heatmapError && (
+              <div className="absolute inset-0 flex items-center justify-center text-red-400 text-sm">{heatmapError}</div>
+            )}
+            {heatmap && (
+              <div className="absolute top-3 left-3 px-3 py-2 rounded bg-black/70 border border-white/20 text-xs text-gray-300">
+                <div className="mb-1">{(heatmap.changedRatio * 100).toFixed(1)}% of pixels changed noticeably</div>
+                <div className="flex items-center gap-2">
+                  <span>None</span>
+                  <span className="w-24 h-2 rounded bg-gradient-to-r from-black via-red-500 to-yellow-200" />
+                  <span>Large</span>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="px-4 py-2 border-t border-white/10 text-[11px] text-gray-500 text-center">
+        Scroll to zoom · {mode === 'slider' ? 'Shift+drag' : 'Drag'} to pan · ←/→ switch photo · S/B/F/D modes · 0 fit · 1 actual pixels
+        {mode === 'flicker' && (
+          <>
+            {' · Space to flip · '}
+            <button onClick={() => setAutoFlicker((value) => !value)} className="text-cyan-400 hover:text-white">
+              {autoFlicker ? 'Stop auto flicker' : 'Auto flicker'}
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default CompareViewer;
@@ -0,0 +1,53 @@
+import { DamageItem, SEVERITY_COLORS } from '../lib/damageReport';
+
+interface DamageRegionsProps {
+  damages: DamageItem[];
+  // 图片原始尺寸，用于和object-cover裁剪后的显示区域对齐；未知时按比例拉伸
+  width?: number;
+  height?: number;
+}
+
+// 在修复前的图片上标出损伤区域，编号与报告列表一致
+function DamageRegions({ damages, width, height }: DamageRegionsProps) {
+  const viewWidth = width || 100;
+  const viewHeight = height || 100;
+  const fontSize = Math.max(viewWidth, viewHeight) * 0.045;
+
+  return (
+    <svg
+      className="absolute inset-0 w-full h-full pointer-events-none"
+      viewBox={`0 0 ${viewWidth} ${viewHeight}`}
+      preserveAspectRatio={width && height ? 'xMidYMid slice' : 'none'}
+    >
+      {damages.map((damage, index) => damage.region && (
+        <g key={index}>
+          <rect
+            x={damage.region.left * viewWidth}
+            y={damage.region.top * viewHeight}
+            width={damage.region.width * viewWidth}
+            height={damage.region.height * viewHeight}
+            fill={`${SEVERITY_COLORS[damage.severity]}22`}
+            stroke={SEVERITY_COLORS[damage.severity]}
+            strokeWidth={2}
+            strokeDasharray="6 3"
+            vectorEffect="non-scaling-stroke"
+          />
+          <text
+            x={damage.region.left * viewWidth + fontSize * 0.3}
+            y={damage.region.top * viewHeight + fontSize}
+            fontSize={fontSize}
+            fontWeight="bold"
+            fill={SEVERITY_COLORS[damage.severity]}
+            stroke="black"
+            strokeWidth={fontSize * 0.08}
+            paintOrder="stroke"
+          >
+            {index + 1}
+          </text>
+        </g>
+      ))}
+    </svg>
+  );
+}
+
+export default DamageRegions;
@@ -0,0 +1,135 @@
+import { ChevronDown, ChevronUp, FileJson, FileText, ScanSearch } from 'lucide-react';
+import {
+  DAMAGE_TYPE_LABELS,
+  ReportFormat,
+  SEVERITY_COLORS,
+  damageReportToJson,
+  damageReportToMarkdown,
+  reportFilename
+} from '../lib/damageReport';
+import { restoredFilename } from '../lib/batchDownload';
+import type { UploadedImage } from '../types';
+
+interface DamageReportPanelProps {
+  image: UploadedImage;
+  expanded: boolean;
+  onToggle: () => void;
+}
+
+// 每张图片的损伤报告：展开后显示损伤列表、年代和介质估计、建议，并可导出
+function DamageReportPanel({ image, expanded, onToggle }: DamageReportPanelProps) {
+  const result = image.result;
+  if (!result) return null;
+
+  const report = result.report;
+  const restoredName = restoredFilename(image);
+
+  const exportReport = (format: ReportFormat) => {
+    const content = format === 'json'
+      ? damageReportToJson(image, restoredName)
+      : damageReportToMarkdown(image, restoredName);
+    const url = URL.createObjectURL(new Blob([content], {
+      type: format === 'json' ? 'application/json' : 'text/markdown'
+    }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = reportFilename(restoredName, format);
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  return (
+    <div className="border-t border-white/10">
+      <button
+        onClick={onToggle}
+        className="w-full flex items-center justify-between px-6 py-3 text-sm text-gray-300 hover:text-white transition-colors"
+      >
+        <span className="inline-flex items-center">
+          <ScanSearch className="w-4 h-4 mr-2 text-cyan-400" />
+          Damage report
+          {report && report.damages.length > 0 && (
+            <span className="ml-2 text-xs text-gray-500">{report.damages.length} found</span>
+          )}
+        </span>
+        <span className="inline-flex items-center">
+          {report?.overallSeverity && (
+            <span
+              className="mr-2 px-2 py-0.5 rounded-full border text-[10px] uppercase"
+              style={{ color: SEVERITY_COLORS[report.overallSeverity], borderColor: SEVERITY_COLORS[report.overallSeverity] }}
+            >
+              {report.overallSeverity}
+            </span>
+          )}
+          {expanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+        </span>
+      </button>
+
+      {expanded && (
+        <div className="px-6 pb-6 space-y-4 text-sm">
+          {result.analysis && <p className="text-gray-300 leading-relaxed">{result.analysis}</p>}
+
+          {report && (report.estimatedEra || report.medium) && (
+            <dl className="grid grid-cols-2 gap-3 text-xs">
+              <div>
+                <dt className="text-gray-500">Estimated era</dt>
+                <dd className="text-purple-300">{report.estimatedEra || 'Unknown'}</dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">Medium</dt>
+                <dd className="text-purple-300">{report.medium || 'Unknown'}</dd>
+              </div>
+            </dl>
+          )}
+
+          {report && report.damages.length > 0 && (
+            <ol className="space-y-2">
+              {report.damages.map((damage, index) => (
+                <li key={index} className="flex gap-2 text-xs">
+                  <span className="font-bold" style={{ color: SEVERITY_COLORS[damage.severity] }}>{index + 1}</span>
+                  <div>
+                    <span className="text-white">{DAMAGE_TYPE_LABELS[damage.type]}</span>
+                    <span className="ml-2" style={{ color: SEVERITY_COLORS[damage.severity] }}>{damage.severity}</span>
+                    {!damage.region && <span className="ml-2 text-gray-500">whole photo</span>}
+                    {damage.description && <p className="text-gray-400">{damage.description}</p>}
+                  </div>
+                </li>
+              ))}
+            </ol>
+          )}
+
+          {report && report.recommendedActions.length > 0 && (
+            <div>
+              <h5 className="text-xs text-gray-500 mb-1">Recommended actions</h5>
+              <ul className="list-disc list-inside space-y-1 text-xs text-gray-300">
+                {report.recommendedActions.map((action, index) => (
+                  <li key={index}>{action}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {!report && <p className="text-xs text-gray-500">No structured report is available for this repair.</p>}
+
+          <div className="flex gap-2">
+            <button
+              onClick={() => exportReport('json')}
+              className="inline-flex items-center px-3 py-1 rounded text-xs border border-cyan-500/50 text-cyan-300 hover:bg-cyan-500/10 transition-colors"
+            >
+              <FileJson className="w-3 h-3 mr-1" />
+              Export JSON
+            </button>
+            <button
+              onClick={() => exportReport('md')}
+              className="inline-flex items-center px-3 py-1 rounded text-xs border border-purple-500/50 text-purple-300 hover:bg-purple-500/10 transition-colors"
+            >
+              <FileText className="w-3 h-3 mr-1" />
+              Export Markdown
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default DamageReportPanel;
@@ -0,0 +1,238 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Columns2, FolderOpen, HardDrive, History as HistoryIcon, Search, Trash2, X } from 'lucide-react';
+import { HistoryEntry, HistoryStatus, deleteHistoryEntry, getHistory, getStorageEstimate } from '../lib/historyDb';
+import { formatBytes } from '../lib/preprocess';
+
+type DateFilter = 'all' | 'today' | 'week' | 'month';
+
+interface HistoryPanelProps {
+  // 历史记录写入后递增，用于刷新列表
+  version: number;
+  onReopen: (entry: HistoryEntry) => void;
+  onCompare: (entry: HistoryEntry) => void;
+  onClose: () => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DATE_FILTERS: { value: DateFilter; label: string }[] = [
+  { value: 'all', label: 'Any time' },
+  { value: 'today', label: 'Today' },
+  { value: 'week', label: 'Last 7 days' },
+  { value: 'month', label: 'Last 30 days' }
+];
+
+const STATUS_FILTERS: { value: HistoryStatus | 'all'; label: string }[] = [
+  { value: 'all', label: 'All statuses' },
+  { value: 'completed', label: 'Completed' },
+  { value: 'error', label: 'Failed' },
+  { value: 'interrupted', label: 'Interrupted' },
+  { value: 'offline', label: 'Queued offline' },
+  { value: 'processing', label: 'Processing' },
+  { value: 'queued', label: 'Queued' },
+  { value: 'uploaded', label: 'Not repaired' }
+];
+
+const STATUS_STYLES: Record<HistoryStatus, string> = {
+  uploaded: 'text-cyan-400 border-cyan-500/50',
+  queued: 'text-purple-300 border-purple-500/50',
+  processing: 'text-yellow-400 border-yellow-500/50',
+  completed: 'text-green-400 border-green-500/50',
+  error: 'text-red-400 border-red-500/50',
+  interrupted: 'text-orange-400 border-orange-500/50',
+  offline: 'text-amber-300 border-amber-500/50'
+};
+
+function dateCutoff(filter: DateFilter): number {
+  if (filter === 'today') {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    return today.getTime();
+  }
+  if (filter === 'week') return Date.now() - 7 * DAY_MS;
+  if (filter === 'month') return Date.now() - 30 * DAY_MS;
+  return 0;
+}
+
+// 修复历史面板：搜索、筛选、重新打开和删除保存在本地的修复记录
+function HistoryPanel({ version, onReopen, onCompare, onClose }: HistoryPanelProps) {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [storage, setStorage] = useState<{ usage: number; quota: number } | null>(null);
+  const [query, setQuery] = useState('');
+  const [statusFilter, setStatusFilter] = useState<HistoryStatus | 'all'>('all');
+  const [dateFilter, setDateFilter] = useState<DateFilter>('all');
+
+  const refresh = useCallback(() => {
+    getHistory()
+      .then(setEntries)
+      .catch((error) => console.error('Error loading history:', error));
+    getStorageEstimate()
+      .then(setStorage)
+      .catch(() => setStorage(null));
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh, version]);
+
+  // 缩略图使用对象URL，列表变化时释放旧的URL
+  const thumbnails = useMemo(() => new Map(entries.map((entry) => [
+    entry.id,
+    URL.createObjectURL(entry.processed || entry.upload || entry.original)
+  ])), [entries]);
+
+  useEffect(() => () => thumbnails.forEach((url) => URL.revokeObjectURL(url)), [thumbnails]);
+
+  const visible = useMemo(() => {
+    const cutoff = dateCutoff(dateFilter);
+    const needle = query.trim().toLowerCase();
+    return entries.filter((entry) =>
+      entry.createdAt >= cutoff &&
+      (statusFilter === 'all' || entry.status === statusFilter) &&
+      (!needle ||
+        entry.filename.toLowerCase().includes(needle) ||
+        entry.result?.analysis?.toLowerCase().includes(needle))
+    );
+  }, [entries, query, statusFilter, dateFilter]);
+
+  const removeEntry = async (id: string) => {
+    try {
+      await deleteHistoryEntry(id);
+      refresh();
+    } catch (error) {
+      console.error('Error deleting history entry:', error);
+    }
+  };
+
+  const usagePercent = storage && storage.quota > 0 ? Math.min(100, (storage.usage / storage.quota) * 100) : 0;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex justify-end bg-black/60 backdrop-blur-sm" onClick={onClose}>
+      <aside
+        className="w-full max-w-md h-full flex flex-col bg-black/90 border-l border-pink-500/30 shadow-lg shadow-pink-500/20"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-white/10">
+          <div className="flex items-center text-white">
+            <HistoryIcon className="w-5 h-5 mr-2 text-pink-400" />
+            <h4 className="text-lg font-semibold">History</h4>
+            <span className="ml-2 text-sm text-gray-500">{entries.length}</span>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label="Close history">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-3 border-b border-white/10">
+          <label className="flex items-center bg-black/70 border border-cyan-500/50 rounded-lg px-3 py-2 focus-within:border-pink-500">
+            <Search className="w-4 h-4 mr-2 text-gray-500" />
+            <input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search by filename or analysis"
+              className="flex-1 bg-transparent text-sm text-white placeholder-gray-500 focus:outline-none"
+            />
+          </label>
+          <div className="flex gap-3">
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as HistoryStatus | 'all')}
+              className="flex-1 bg-black/70 border border-purple-500/50 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-pink-500"
+            >
+              {STATUS_FILTERS.map((filter) => (
+                <option key={filter.value} value={filter.value}>{filter.label}</option>
+              ))}
+            </select>
+            <select
+              value={dateFilter}
+              onChange={(e) => setDateFilter(e.target.value as DateFilter)}
+              className="flex-1 bg-black/70 border border-purple-500/50 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-pink-500"
+            >
+              {DATE_FILTERS.map((filter) => (
+                <option key={filter.value} value={filter.value}>{filter.label}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <ul className="flex-1 overflow-y-auto p-4 space-y-3">
+          {visible.length === 0 && (
+            <li className="text-center text-sm text-gray-500 py-8">
+              {entries.length === 0 ? 'Restored photos will appear here.' : 'No photos match these filters.'}
+            </li>
+          )}
+          {visible.map((entry) => (
+            <li key={entry.id} className="flex gap-3 p-3 rounded-xl border border-white/10 hover:border-cyan-500/50 transition-colors">
+              <img
+                src={thumbnails.get(entry.id)}
+                alt={entry.filename}
+                className="w-16 h-16 rounded-lg object-cover flex-shrink-0"
+              />
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm text-white truncate">{entry.filename}</span>
+                  <span className={`px-2 py-0.5 rounded-full border text-[10px] uppercase ${STATUS_STYLES[entry.status]}`}>
+                    {entry.status}
+                  </span>
+                </div>
+                <p className="text-xs text-gray-500">
+                  {new Date(entry.createdAt).toLocaleString()}
+                  {entry.result?.mode && ` · ${entry.result.mode.label}`}
+                  {entry.versions && entry.versions.length > 1 && ` · ${entry.versions.length} versions`}
+                </p>
+                {entry.result?.analysis && (
+                  <p className="text-xs text-gray-400 truncate" title={entry.result.analysis}>{entry.result.analysis}</p>
+                )}
+                <div className="flex gap-2 mt-2">
+                  <button
+                    onClick={() => onReopen(entry)}
+                    className="inline-flex items-center px-2 py-1 rounded text-xs border border-cyan-500/50 text-cyan-300 hover:bg-cyan-500/10 transition-colors"
+                  >
+                    <FolderOpen className="w-3 h-3 mr-1" />
+                    Reopen
+                  </button>
+                  {entry.status === 'completed' && entry.processed && (
+                    <button
+                      onClick={() => onCompare(entry)}
+                      className="inline-flex items-center px-2 py-1 rounded text-xs border border-pink-500/50 text-pink-300 hover:bg-pink-500/10 transition-colors"
+                    >
+                      <Columns2 className="w-3 h-3 mr-1" />
+                      Compare
+                    </button>
+                  )}
+                  <button
+                    onClick={() => removeEntry(entry.id)}
+                    className="inline-flex items-center px-2 py-1 rounded text-xs border border-red-500/50 text-red-400 hover:bg-red-500/10 transition-colors"
+                  >
+                    <Trash2 className="w-3 h-3 mr-1" />
+                    Delete
+                  </button>
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+
+        {storage && (
+          <div className="p-4 border-t border-white/10 text-xs text-gray-400">
+            <div className="flex items-center justify-between mb-1">
+              <span className="inline-flex items-center">
+                <HardDrive className="w-3 h-3 mr-1" />
+                Browser storage
+              </span>
+              <span>{formatBytes(storage.usage)} of {formatBytes(storage.quota)}</span>
+            </div>
+            <div className="h-1.5 rounded-full bg-white/10 overflow-hidden">
+              <div
+                className={`h-full ${usagePercent > 80 ? 'bg-red-500' : 'bg-gradient-to-r from-pink-500 to-cyan-500'}`}
+                style={{ width: `${usagePercent}%` }}
+              />
+            </div>
+          </div>
+        )}
+      </aside>
+    </div>
+  );
+}
+
+export default HistoryPanel;
@@ -0,0 +1,267 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Brush, Check, Eraser, Trash2, Undo2, X } from 'lucide-react';
+
+interface MaskEditorProps {
+  imageSrc: string;
+  initialMask?: string;
+  onSave: (mask: string | undefined) => void;
+  onClose: () => void;
+}
+
+type Tool = 'brush' | 'eraser';
+
+// 遮罩画布的最长边，服务器会把遮罩缩放到原图尺寸
+const MAX_MASK_EDGE = 2048;
+const MAX_UNDO_STEPS = 30;
+const STROKE_COLOR = '#ff2d55';
+
+// 全屏损伤标记编辑器：用画笔涂抹划痕、撕裂、污点，导出为白色遮罩PNG
+function MaskEditor({ imageSrc, initialMask, onSave, onClose }: MaskEditorProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const undoStackRef = useRef<ImageData[]>([]);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+  const [tool, setTool] = useState<Tool>('brush');
+  const [brushSize, setBrushSize] = useState(24);
+  const [undoCount, setUndoCount] = useState(0);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+
+  // 按原图比例初始化画布，并载入已有遮罩
+  useEffect(() => {
+    const image = new Image();
+    image.onload = () => {
+      const scale = Math.min(1, MAX_MASK_EDGE / Math.max(image.naturalWidth, image.naturalHeight));
+      setSize({
+        width: Math.round(image.naturalWidth * scale),
+        height: Math.round(image.naturalHeight * scale)
+      });
+    };
+    image.src = imageSrc;
+  }, [imageSrc]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context || !size || !initialMask) return;
+
+    const mask = new Image();
+    mask.onload = () => {
+      context.drawImage(mask, 0, 0, canvas.width, canvas.height);
+      // 遮罩以白色保存，编辑时重新着色以便看清
+      context.globalCompositeOperation = 'source-in';
+      context.fillStyle = STROKE_COLOR;
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      context.globalCompositeOperation = 'source-over';
+    };
+    mask.src = initialMask;
+  }, [initialMask, size]);
+
+  const undo = useCallback(() => {
+    const canvas = canvasRef.current;
+    const snapshot = undoStackRef.current.pop();
+    if (!canvas || !snapshot) return;
+    canvas.getContext('2d')?.putImageData(snapshot, 0, 0);
+    setUndoCount(undoStackRef.current.length);
+  }, []);
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'z') {
+        e.preventDefault();
+        undo();
+      }
+      if (e.key === 'b') setTool('brush');
+      if (e.key === 'e') setTool('eraser');
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [onClose, undo]);
+
+  const pushUndo = () => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+    undoStackRef.current.push(context.getImageData(0, 0, canvas.width, canvas.height));
+    if (undoStackRef.current.length > MAX_UNDO_STEPS) undoStackRef.current.shift();
+    setUndoCount(undoStackRef.current.length);
+  };
+
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * (canvas.width / rect.width),
+      y: (e.clientY - rect.top) * (canvas.height / rect.height),
+      scale: canvas.width / rect.width
+    };
+  };
+
+  const drawTo = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = e.currentTarget.getContext('2d');
+    const point = toCanvasPoint(e);
+    const from = lastPointRef.current || point;
+    if (!context) return;
+
+    context.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
+    context.strokeStyle = STROKE_COLOR;
+    context.lineWidth = brushSize * point.scale;
+    context.lineCap = 'round';
+    context.lineJoin = 'round';
+    context.beginPath();
+    context.moveTo(from.x, from.y);
+    context.lineTo(point.x, point.y);
+    context.stroke();
+    context.globalCompositeOperation = 'source-over';
+
+    lastPointRef.current = point;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pushUndo();
+    lastPointRef.current = null;
+    drawTo(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (lastPointRef.current) drawTo(e);
+  };
+
+  const handlePointerUp = () => {
+    lastPointRef.current = null;
+  };
+
+  const clear = () => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    pushUndo();
+    canvas.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+  };
+
+  // 导出：所有涂抹过的像素变为纯白，其余透明；空遮罩返回undefined
+  const save = () => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+
+    const pixels = context.getImageData(0, 0, canvas.width, canvas.height).data;
+    let painted = false;
+    for (let i = 3; i < pixels.length; i += 4) {
+      if (pixels[i] > 0) {
+        painted = true;
+        break;
+      }
+    }
+    if (!painted) {
+      onSave(undefined);
+      return;
+    }
+
+    const output = document.createElement('canvas');
+    output.width = canvas.width;
+    output.height = canvas.height;
+    const outputContext = output.getContext('2d');
+    if (!outputContext) return;
+    outputContext.drawImage(canvas, 0, 0);
+    outputContext.globalCompositeOperation = 'source-in';
+    outputContext.fillStyle = '#ffffff';
+    outputContext.fillRect(0, 0, output.width, output.height);
+    onSave(output.toDataURL('image/png'));
+  };
+
+  const toolButton = (value: Tool, icon: React.ReactNode, label: string) => (
+    <button
+      onClick={() => setTool(value)}
+      className={`inline-flex items-center px-3 py-2 rounded-lg text-sm transition-colors ${
+        tool === value
+          ? 'bg-pink-500/30 text-pink-300 border border-pink-500/70'
+          : 'text-gray-300 border border-white/10 hover:border-pink-500/50'
+      }`}
+    >
+      {icon}
+      <span className="ml-2">{label}</span>
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/95 backdrop-blur-md flex flex-col">
+      <div className="flex flex-wrap items-center gap-3 px-6 py-4 border-b border-pink-500/30">
+        <h3 className="text-lg font-semibold text-white mr-4">Mark damage</h3>
+        {toolButton('brush', <Brush className="w-4 h-4" />, 'Brush')}
+        {toolButton('eraser', <Eraser className="w-4 h-4" />, 'Eraser')}
+
+        <label className="inline-flex items-center text-sm text-gray-300 ml-2">
+          Size
+          <input
+            type="range"
+            min={4}
+            max={120}
+            value={brushSize}
+            onChange={(e) => setBrushSize(Number(e.target.value))}
+            className="ml-3 accent-pink-500"
+          />
+          <span className="ml-2 w-8 text-gray-400">{brushSize}</span>
+        </label>
+
+        <button
+          onClick={undo}
+          disabled={undoCount === 0}
+          className="inline-flex items-center px-3 py-2 rounded-lg text-sm text-gray-300 border border-white/10 hover:border-cyan-500/50 disabled:opacity-40"
+        >
+          <Undo2 className="w-4 h-4 mr-2" />
+          Undo
+        </button>
+        <button
+          onClick={clear}
+          className="inline-flex items-center px-3 py-2 rounded-lg text-sm text-gray-300 border border-white/10 hover:border-red-500/50"
+        >
+          <Trash2 className="w-4 h-4 mr-2" />
+          Clear
+        </button>
+
+        <div className="ml-auto flex gap-3">
+          <button
+            onClick={onClose}
+            className="inline-flex items-center px-4 py-2 rounded-lg text-sm text-gray-300 border border-white/10 hover:border-white/30"
+          >
+            <X className="w-4 h-4 mr-2" />
+            Cancel
+          </button>
+          <button
+            onClick={save}
+            className="inline-flex items-center px-4 py-2 bg-gradient-to-r from-pink-500 to-cyan-500 text-white font-medium rounded-lg shadow-lg shadow-pink-500/30"
+          >
+            <Check className="w-4 h-4 mr-2" />
+            Save mask
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 flex items-center justify-center p-6 overflow-hidden">
+        {size && (
+          <div className="relative max-w-full max-h-full" style={{ aspectRatio: `${size.width} / ${size.height}` }}>
+            <img src={imageSrc} alt="Photo to repair" className="max-w-full max-h-[calc(100vh-10rem)] select-none" draggable={false} />
+            <canvas
+              ref={canvasRef}
+              width={size.width}
+              height={size.height}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+              className={`absolute inset-0 w-full h-full opacity-60 touch-none ${
+                tool === 'eraser' ? 'cursor-cell' : 'cursor-crosshair'
+              }`}
+            />
+          </div>
+        )}
+      </div>
+
+      <p className="pb-4 text-center text-xs text-gray-500">
+        Paint over scratches, tears, dust spots and stains. B brush · E eraser · Ctrl+Z undo · Esc close
+      </p>
+    </div>
+  );
+}
+
+export default MaskEditor;
@@ -0,0 +1,55 @@
+import { Cpu } from 'lucide-react';
+import { ModelInfo } from '../lib/models';
+
+interface ModelSelectProps {
+  models: ModelInfo[];
+  // null表示自动：按服务器配置的顺序使用模型
+  value: string | null;
+  onChange: (model: string | null) => void;
+  // 打开下拉框时刷新模型状态
+  onRefresh: () => void;
+}
+
+const formatTime = (iso: string) => new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+// 模型选择：所选模型失败时自动切换到列表中的下一个模型
+function ModelSelect({ models, value, onChange, onRefresh }: ModelSelectProps) {
+  const selected = models.find((model) => model.id === value);
+  const paused = models.filter((model) => model.state === 'open');
+
+  return (
+    <div className="mb-8 flex flex-wrap items-center gap-x-8 gap-y-2 bg-black/50 backdrop-blur-sm rounded-2xl border border-cyan-500/30 shadow-lg shadow-cyan-500/20 px-6 py-4 text-sm text-gray-300">
+      <label className="inline-flex items-center">
+        <Cpu className="w-4 h-4 mr-2 text-cyan-400" />
+        AI model
+        <select
+          value={selected ? selected.id : ''}
+          onChange={(e) => onChange(e.target.value || null)}
+          onFocus={onRefresh}
+          className="ml-2 bg-black/70 border border-cyan-500/50 rounded-lg px-2 py-1 text-white focus:outline-none focus:border-pink-500"
+        >
+          <option value="">Automatic</option>
+          {models.map((model) => (
+            <option key={model.id} value={model.id}>
+              {model.id}{model.state === 'open' ? ' (paused)' : ''}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <span className="text-xs text-gray-500">
+        {selected ? 'Tried first, the other models take over if it fails' : 'Models are tried in order until one succeeds'}
+      </span>
+
+      {paused.length > 0 && (
+        <span className="text-xs text-yellow-400">
+          {paused
+            .map((model) => `${model.id} is paused after repeated failures${model.retryAt ? ` until ${formatTime(model.retryAt)}` : ''}`)
+            .join('; ')}
+        </span>
+      )}
+    </div>
+  );
+}
+
+export default ModelSelect;
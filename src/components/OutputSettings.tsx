@@ -0,0 +1,69 @@
+import { FileImage, ShieldCheck } from 'lucide-react';
+import { OutputFormat, OutputFormatId, OutputSettings as Settings } from '../lib/outputFormats';
+
+interface OutputSettingsProps {
+  formats: OutputFormat[];
+  settings: Settings;
+  onChange: (settings: Settings) => void;
+}
+
+// 输出设置：文件格式、质量，以及是否保留拍摄日期和色彩配置文件
+function OutputSettings({ formats, settings, onChange }: OutputSettingsProps) {
+  const selected = formats.find((format) => format.id === settings.format);
+  const quality = selected?.quality;
+
+  const selectFormat = (id: OutputFormatId) => {
+    const format = formats.find((item) => item.id === id);
+    onChange({ ...settings, format: id, quality: format?.quality?.default });
+  };
+
+  return (
+    <div className="mb-8 flex flex-wrap items-center gap-x-8 gap-y-4 bg-black/50 backdrop-blur-sm rounded-2xl border border-cyan-500/30 shadow-lg shadow-cyan-500/20 px-6 py-4 text-sm text-gray-300">
+      <label className="inline-flex items-center">
+        <FileImage className="w-4 h-4 mr-2 text-cyan-400" />
+        Output format
+        <select
+          value={settings.format}
+          onChange={(e) => selectFormat(e.target.value as OutputFormatId)}
+          className="ml-2 bg-black/70 border border-cyan-500/50 rounded-lg px-2 py-1 text-white focus:outline-none focus:border-pink-500"
+        >
+          {formats.filter((format) => format.supported).map((format) => (
+            <option key={format.id} value={format.id}>{format.label}</option>
+          ))}
+        </select>
+      </label>
+
+      {quality && (
+        <label className="inline-flex items-center">
+          Quality
+          <input
+            type="range"
+            min={quality.min}
+            max={quality.max}
+            step={1}
+            value={settings.quality ?? quality.default}
+            onChange={(e) => onChange({ ...settings, quality: Number(e.target.value) })}
+            className="mx-2 w-32 accent-pink-500"
+          />
+          <span className="w-8 text-cyan-400">{settings.quality ?? quality.default}</span>
+        </label>
+      )}
+
+      <label className="inline-flex items-center cursor-pointer" title="GPS location is always removed">
+        <input
+          type="checkbox"
+          checked={settings.keepMetadata}
+          onChange={(e) => onChange({ ...settings, keepMetadata: e.target.checked })}
+          className="mr-2 accent-pink-500"
+        />
+        <ShieldCheck className="w-4 h-4 mr-1 text-green-400" />
+        {selected && !selected.keepsCaptureDate
+          ? 'Keep color profile'
+          : 'Keep capture date and color profile'}
+        <span className="ml-1 text-xs text-gray-500">(GPS is always removed)</span>
+      </label>
+    </div>
+  );
+}
+
+export default OutputSettings;
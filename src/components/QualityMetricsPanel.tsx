@@ -0,0 +1,131 @@
+import { useState } from 'react';
+import { Activity, ChevronDown, ChevronUp } from 'lucide-react';
+import {
+  HISTOGRAM_CHANNELS,
+  HistogramChannel,
+  METRIC_DEFINITIONS,
+  QualityMetrics,
+  histogramPath,
+  metricTrend
+} from '../lib/qualityMetrics';
+
+interface QualityMetricsPanelProps {
+  metrics: QualityMetrics;
+}
+
+const HISTOGRAM_WIDTH = 256;
+const HISTOGRAM_HEIGHT = 64;
+
+const TREND_CLASSES = {
+  improved: 'text-green-400',
+  worse: 'text-red-400',
+  unchanged: 'text-gray-400'
+};
+
+// 质量指标卡片：修复前后的评分、各项指标和叠加的直方图
+function QualityMetricsPanel({ metrics }: QualityMetricsPanelProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [channel, setChannel] = useState<HistogramChannel>('luminance');
+
+  const { before, after, score } = metrics;
+  const beforeBins = before.histograms[channel];
+  const afterBins = after.histograms[channel];
+  const peak = Math.max(...beforeBins, ...afterBins);
+
+  return (
+    <div className="border-t border-white/10">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center justify-between px-6 py-3 text-sm text-gray-300 hover:text-white transition-colors"
+      >
+        <span className="inline-flex items-center">
+          <Activity className="w-4 h-4 mr-2 text-pink-400" />
+          Quality metrics
+        </span>
+        <span className="inline-flex items-center">
+          <span className="mr-2 text-xs">
+            <span className="text-gray-500">{score.before}</span>
+            <span className="text-gray-600"> → </span>
+            <span className={TREND_CLASSES[metricTrend('higher', score.before, score.after)]}>{score.after}</span>
+          </span>
+          {expanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+        </span>
+      </button>
+
+      {expanded && (
+        <div className="px-6 pb-6 space-y-4 text-sm">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-gray-500">
+                <th className="text-left font-normal pb-1">Metric</th>
+                <th className="text-right font-normal pb-1">Before</th>
+                <th className="text-right font-normal pb-1">After</th>
+              </tr>
+            </thead>
+            <tbody>
+              <tr className="border-t border-white/5">
+                <td className="py-1 text-white">Overall score</td>
+                <td className="py-1 text-right text-gray-400">{score.before}</td>
+                <td className={`py-1 text-right ${TREND_CLASSES[metricTrend('higher', score.before, score.after)]}`}>
+                  {score.after} ({score.delta >= 0 ? '+' : ''}{score.delta})
+                </td>
+              </tr>
+              {METRIC_DEFINITIONS.map(({ name, label, better, format }) => (
+                <tr key={name} className="border-t border-white/5">
+                  <td className="py-1 text-gray-300">{label}</td>
+                  <td className="py-1 text-right text-gray-400">{format(before[name])}</td>
+                  <td className={`py-1 text-right ${TREND_CLASSES[metricTrend(better, before[name], after[name])]}`}>
+                    {format(after[name])}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <span className="text-xs text-gray-500">
+                Histogram · <span className="text-cyan-400">before</span> / <span className="text-pink-400">after</span>
+              </span>
+              <div className="flex gap-1">
+                {HISTOGRAM_CHANNELS.map(({ id, label }) => (
+                  <button
+                    key={id}
+                    onClick={() => setChannel(id)}
+                    className={`w-6 h-5 rounded text-[10px] border transition-colors ${
+                      channel === id
+                        ? 'border-pink-500 text-white bg-pink-500/20'
+                        : 'border-white/10 text-gray-400 hover:text-white'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <svg
+              viewBox={`0 0 ${HISTOGRAM_WIDTH} ${HISTOGRAM_HEIGHT}`}
+              preserveAspectRatio="none"
+              className="w-full h-16 rounded bg-black/60 border border-white/10"
+            >
+              <path
+                d={histogramPath(beforeBins, peak, HISTOGRAM_WIDTH, HISTOGRAM_HEIGHT)}
+                fill="rgba(34,211,238,0.35)"
+                stroke="rgb(34,211,238)"
+                strokeWidth={0.5}
+              />
+              <path
+                d={histogramPath(afterBins, peak, HISTOGRAM_WIDTH, HISTOGRAM_HEIGHT)}
+                fill="rgba(236,72,153,0.35)"
+                stroke="rgb(236,72,153)"
+                strokeWidth={0.5}
+              />
+            </svg>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default QualityMetricsPanel;
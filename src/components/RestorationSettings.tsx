@@ -0,0 +1,152 @@
+import { useState } from 'react';
+import { Bookmark, SlidersHorizontal, Trash2 } from 'lucide-react';
+import {
+  RestorationMode,
+  RestorationPreset,
+  RestorationSettings as Settings,
+  defaultParameters
+} from '../lib/restorationModes';
+
+interface RestorationSettingsProps {
+  modes: RestorationMode[];
+  settings: Settings;
+  presets: RestorationPreset[];
+  onChange: (settings: Settings) => void;
+  onSavePreset: (name: string) => void;
+  onDeletePreset: (id: string) => void;
+}
+
+// 修复设置面板：选择模式、调节参数、保存和套用预设
+function RestorationSettings({
+  modes,
+  settings,
+  presets,
+  onChange,
+  onSavePreset,
+  onDeletePreset
+}: RestorationSettingsProps) {
+  const [presetName, setPresetName] = useState('');
+  const selectedMode = modes.find((mode) => mode.id === settings.mode);
+
+  const selectMode = (mode: RestorationMode) => {
+    onChange({ mode: mode.id, parameters: defaultParameters(mode) });
+  };
+
+  const setParameter = (name: string, value: number) => {
+    onChange({ ...settings, parameters: { ...settings.parameters, [name]: value } });
+  };
+
+  const applyPreset = (id: string) => {
+    const preset = presets.find((item) => item.id === id);
+    if (preset) {
+      onChange({ mode: preset.mode, parameters: preset.parameters });
+    }
+  };
+
+  const savePreset = () => {
+    if (!presetName.trim()) return;
+    onSavePreset(presetName.trim());
+    setPresetName('');
+  };
+
+  return (
+    <div className="mb-8 bg-black/50 backdrop-blur-sm rounded-2xl border border-cyan-500/30 shadow-lg shadow-cyan-500/20 p-6">
+      <div className="flex items-center mb-4 text-white">
+        <SlidersHorizontal className="w-5 h-5 mr-2 text-cyan-400" />
+        <h4 className="text-lg font-semibold">Restoration mode</h4>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-3 mb-6">
+        {modes.map((mode) => (
+          <button
+            key={mode.id}
+            onClick={() => selectMode(mode)}
+            title={mode.description}
+            className={`px-3 py-3 rounded-xl text-sm text-left border transition-all duration-300 ${
+              settings.mode === mode.id
+                ? 'border-pink-500 bg-pink-500/15 text-white shadow-[0_0_15px_rgba(236,72,153,0.3)]'
+                : 'border-white/10 text-gray-300 hover:border-cyan-500/50'
+            }`}
+          >
+            {mode.label}
+          </button>
+        ))}
+      </div>
+
+      {selectedMode && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-4 mb-6">
+          <p className="md:col-span-2 text-sm text-gray-400">{selectedMode.description}</p>
+          {Object.entries(selectedMode.parameters).map(([name, spec]) => {
+            const value = settings.parameters[name] ?? spec.default;
+            return (
+              <label key={name} className="block text-sm text-gray-300">
+                <div className="flex justify-between mb-1">
+                  <span>{spec.label}</span>
+                  <span className="text-cyan-400">{Math.round(value * 100)}%</span>
+                </div>
+                <input
+                  type="range"
+                  min={spec.min}
+                  max={spec.max}
+                  step={spec.step}
+                  value={value}
+                  onChange={(e) => setParameter(name, Number(e.target.value))}
+                  className="w-full accent-pink-500"
+                />
+              </label>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-3 pt-4 border-t border-white/10">
+        <Bookmark className="w-4 h-4 text-purple-400" />
+        <select
+          value=""
+          onChange={(e) => applyPreset(e.target.value)}
+          disabled={presets.length === 0}
+          className="bg-black/70 border border-purple-500/50 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-pink-500 disabled:opacity-40"
+        >
+          <option value="">{presets.length > 0 ? 'Apply a preset…' : 'No saved presets'}</option>
+          {presets.map((preset) => (
+            <option key={preset.id} value={preset.id}>{preset.name}</option>
+          ))}
+        </select>
+
+        <input
+          value={presetName}
+          onChange={(e) => setPresetName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && savePreset()}
+          placeholder="Preset name"
+          className="bg-black/70 border border-white/10 rounded-lg px-3 py-2 text-sm text-white placeholder-gray-500 focus:outline-none focus:border-pink-500"
+        />
+        <button
+          onClick={savePreset}
+          disabled={!presetName.trim()}
+          className="px-4 py-2 rounded-lg text-sm border border-purple-500/50 text-purple-300 hover:bg-purple-500/10 transition-colors disabled:opacity-40"
+        >
+          Save preset
+        </button>
+
+        {presets.length > 0 && (
+          <div className="flex flex-wrap gap-2 w-full">
+            {presets.map((preset) => (
+              <span key={preset.id} className="inline-flex items-center px-2 py-1 rounded-full text-xs bg-purple-500/10 border border-purple-500/30 text-purple-200">
+                {preset.name}
+                <button
+                  onClick={() => onDeletePreset(preset.id)}
+                  className="ml-1 text-purple-300 hover:text-red-400"
+                  aria-label={`Delete preset ${preset.name}`}
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default RestorationSettings;
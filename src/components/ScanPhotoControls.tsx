@@ -0,0 +1,52 @@
+import { RotateCcw, RotateCw, RefreshCw, Trash2 } from 'lucide-react';
+import { ANGLE_STEP, ScanSource } from '../lib/scanSplit';
+
+interface ScanPhotoControlsProps {
+  scan: ScanSource;
+  // 重新提取时禁用按钮
+  busy: boolean;
+  // 照片顺时针转动的角度，负数为逆时针
+  onRotate: (degrees: number) => void;
+  onDiscard: () => void;
+}
+
+const buttonClass =
+  'inline-flex items-center px-2 py-1 border border-cyan-500/50 rounded text-xs text-cyan-300 hover:bg-cyan-500/10 transition-colors disabled:opacity-40 disabled:cursor-not-allowed';
+
+// 扫描件拆分出的照片：修复前微调倾斜角度、整体旋转，或丢弃误检测的区域
+function ScanPhotoControls({ scan, busy, onRotate, onDiscard }: ScanPhotoControlsProps) {
+  return (
+    <div className="-mt-2 mb-4 text-xs text-gray-500">
+      <p className="mb-2">
+        Photo {scan.index + 1} of {scan.count} from <span className="text-gray-400">{scan.file.name}</span>
+        {' · '}
+        Skew <span className="text-cyan-400">{scan.region.angle.toFixed(1)}°</span>
+      </p>
+      <div className="flex flex-wrap gap-2">
+        <button onClick={() => onRotate(-ANGLE_STEP)} disabled={busy} title="Straighten counter-clockwise" className={buttonClass}>
+          <RotateCcw className="w-3 h-3 mr-1" />
+          {ANGLE_STEP}°
+        </button>
+        <button onClick={() => onRotate(ANGLE_STEP)} disabled={busy} title="Straighten clockwise" className={buttonClass}>
+          <RotateCw className="w-3 h-3 mr-1" />
+          {ANGLE_STEP}°
+        </button>
+        <button onClick={() => onRotate(90)} disabled={busy} title="Rotate a quarter turn clockwise" className={buttonClass}>
+          <RefreshCw className="w-3 h-3 mr-1" />
+          90°
+        </button>
+        <button
+          onClick={onDiscard}
+          disabled={busy}
+          title="Not a photo, remove it"
+          className="inline-flex items-center px-2 py-1 border border-red-500/50 rounded text-xs text-red-400 hover:bg-red-500/10 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          <Trash2 className="w-3 h-3 mr-1" />
+          Discard
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default ScanPhotoControls;
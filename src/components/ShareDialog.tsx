@@ -0,0 +1,198 @@
+import { useState } from 'react';
+import { Check, Copy, Download, ExternalLink, Link2, Loader2, Trash2, X } from 'lucide-react';
+import {
+  DEFAULT_SHARE_EXPIRY_DAYS,
+  SHARE_ASSETS,
+  SHARE_EXPIRY_OPTIONS,
+  ShareLink,
+  createShare,
+  revokeShare,
+  shareStatus,
+  shareUrl
+} from '../lib/shares';
+import type { UploadedImage } from '../types';
+
+interface ShareDialogProps {
+  image: UploadedImage;
+  // 创建分享需要账户的API密钥
+  signedIn: boolean;
+  // 创建或撤销后保存到图片上
+  onChange: (share: ShareLink) => void;
+  onOpenAccount: () => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-black/70 border border-cyan-500/50 rounded-lg px-3 py-2 text-sm text-white placeholder-gray-500 focus:outline-none focus:border-pink-500';
+const buttonClass = 'inline-flex items-center justify-center px-3 py-2 rounded-lg text-sm font-medium bg-gradient-to-r from-pink-500 to-purple-500 text-white hover:from-pink-600 hover:to-purple-600 disabled:opacity-50 transition-all duration-300';
+const linkClass = 'inline-flex items-center px-2 py-1 border border-cyan-500/50 rounded text-xs text-cyan-300 hover:bg-cyan-500/10 transition-colors';
+
+const stripExtension = (name: string) => name.replace(/\.[^.]+$/, '');
+
+// 分享对话框：为修复前后的照片创建公开链接，下载生成的对比图和动图，或撤销链接
+function ShareDialog({ image, signedIn, onChange, onOpenAccount, onClose }: ShareDialogProps) {
+  const [title, setTitle] = useState(() => stripExtension(image.file.name));
+  const [expiresInDays, setExpiresInDays] = useState(DEFAULT_SHARE_EXPIRY_DAYS);
+  const [busy, setBusy] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // 已撤销或过期的链接不能再用，可以重新创建
+  const share = image.share && shareStatus(image.share) === 'active' ? image.share : null;
+  const endedShare = image.share && !share ? image.share : null;
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (actionError) {
+      setError(actionError instanceof Error ? actionError.message : 'Request failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const create = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!image.result) return;
+    const { processedFilename } = image.result;
+    run(async () => {
+      onChange(await createShare(image.upload?.file ?? image.file, processedFilename, {
+        title: title.trim(),
+        expiresInDays
+      }));
+    });
+  };
+
+  const revoke = () => {
+    if (!share || !confirm('Revoke this link? Anyone who has it will no longer see the photos.')) return;
+    run(async () => {
+      await revokeShare(share.id);
+      onChange({ ...share, status: 'revoked', revokedAt: new Date().toISOString() });
+    });
+  };
+
+  const copy = async () => {
+    if (!share) return;
+    try {
+      await navigator.clipboard.writeText(shareUrl(share));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      setError('Copying is not allowed here, select the link and copy it instead');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm" onClick={onClose}>
+      <div
+        className="w-full max-w-lg bg-black/90 border border-cyan-500/30 rounded-xl shadow-lg shadow-cyan-500/20"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-white/10">
+          <div className="flex items-center text-white min-w-0">
+            <Link2 className="w-5 h-5 mr-2 flex-shrink-0 text-cyan-400" />
+            <h4 className="text-lg font-semibold truncate">Share {image.file.name}</h4>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label="Close sharing">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4 text-sm">
+          {error && (
+            <p className="p-3 rounded-lg border border-red-500/50 bg-red-500/10 text-red-300">{error}</p>
+          )}
+
+          {share ? (
+            <>
+              <div>
+                <p className="text-gray-400 mb-2">
+                  Anyone with this link can see the original and the restored photo side by side.
+                </p>
+                <div className="flex items-center gap-2">
+                  <input readOnly value={shareUrl(share)} onFocus={(e) => e.target.select()} className={inputClass} />
+                  <button onClick={copy} className={buttonClass} aria-label="Copy link">
+                    {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                  </button>
+                  <a href={shareUrl(share)} target="_blank" rel="noreferrer" className={buttonClass} aria-label="Open link">
+                    <ExternalLink className="w-4 h-4" />
+                  </a>
+                </div>
+                <p className="mt-2 text-xs text-gray-500">
+                  Expires {new Date(share.expiresAt).toLocaleString()} · {share.views} view(s)
+                </p>
+              </div>
+
+              <div>
+                <h5 className="text-white font-semibold mb-2">For social posts</h5>
+                <div className="flex flex-wrap gap-2">
+                  {SHARE_ASSETS.map((asset) => (
+                    <a key={asset.file} href={shareUrl(share, asset.file)} download className={linkClass}>
+                      <Download className="w-3 h-3 mr-1" />
+                      {asset.label}
+                    </a>
+                  ))}
+                </div>
+                <p className="mt-2 text-xs text-gray-500">The animations take a few seconds to generate the first time.</p>
+              </div>
+
+              <button
+                onClick={revoke}
+                disabled={busy}
+                className="inline-flex items-center px-3 py-2 border border-red-500/50 rounded-lg text-red-400 hover:bg-red-500/10 transition-colors disabled:opacity-50"
+              >
+                <Trash2 className="w-4 h-4 mr-2" />
+                Revoke link
+              </button>
+            </>
+          ) : !signedIn ? (
+            <div className="space-y-3">
+              <p className="text-gray-400">Sharing stores both photos on the server, so it needs an account.</p>
+              <button onClick={onOpenAccount} className={buttonClass}>Sign in or create an account</button>
+            </div>
+          ) : (
+            <form onSubmit={create} className="space-y-3">
+              {endedShare && (
+                <p className="text-xs text-gray-500">
+                  The previous link was {shareStatus(endedShare)}. Create a new one to share the photo again.
+                </p>
+              )}
+              <label className="block">
+                <span className="text-gray-400">Title</span>
+                <input
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                  maxLength={120}
+                  placeholder="Shown on the page"
+                  className={`${inputClass} mt-1`}
+                />
+              </label>
+              <label className="block">
+                <span className="text-gray-400">Link expires after</span>
+                <select
+                  value={expiresInDays}
+                  onChange={(e) => setExpiresInDays(Number(e.target.value))}
+                  className={`${inputClass} mt-1`}
+                >
+                  {SHARE_EXPIRY_OPTIONS.map((option) => (
+                    <option key={option.days} value={option.days}>{option.label}</option>
+                  ))}
+                </select>
+              </label>
+              <p className="text-xs text-gray-500">
+                The shared copies are stripped of metadata such as location and camera details.
+              </p>
+              <button type="submit" disabled={busy} className={`${buttonClass} w-full`}>
+                {busy ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Link2 className="w-4 h-4 mr-2" />}
+                Create link
+              </button>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ShareDialog;
@@ -0,0 +1,82 @@
+import { Columns2, Star, Trash2 } from 'lucide-react';
+import { shortModelName } from '../lib/models';
+import type { UploadedImage } from '../types';
+
+interface VersionListProps {
+  image: UploadedImage;
+  // 重新修复进行中时不能切换或删除版本
+  busy: boolean;
+  onPrefer: (versionId: string) => void;
+  onCompare: (versionId: string) => void;
+  onDelete: (versionId: string) => void;
+}
+
+const iconButtonClass = 'p-1 text-gray-400 hover:text-white transition-colors disabled:opacity-40 disabled:cursor-not-allowed';
+
+// 修复版本列表：每个版本的模式、参数、模型和时间，选择首选版本、与首选版本对比或删除
+function VersionList({ image, busy, onPrefer, onCompare, onDelete }: VersionListProps) {
+  const versions = image.versions ?? [];
+
+  return (
+    <div className="mb-4">
+      <p className="mb-2 text-xs text-gray-500">
+        {versions.length} versions · the starred one is used for downloads and sharing
+      </p>
+      <ul className="space-y-1">
+        {[...versions].reverse().map((version) => {
+          const preferred = version.id === image.preferredVersionId;
+          const parameters = Object.entries(version.result.mode.parameters)
+            .map(([name, value]) => `${name} ${value}`)
+            .join(', ');
+          return (
+            <li
+              key={version.id}
+              className={`flex items-center gap-2 px-2 py-1 rounded-lg border text-xs ${
+                preferred ? 'border-green-500/50 bg-green-500/10' : 'border-white/10'
+              }`}
+            >
+              <button
+                onClick={() => onPrefer(version.id)}
+                disabled={busy || preferred}
+                title={preferred ? 'Preferred version' : 'Use this version for downloads and sharing'}
+                className={`${iconButtonClass} ${preferred ? 'disabled:opacity-100' : ''}`}
+              >
+                <Star className={`w-4 h-4 ${preferred ? 'text-green-400 fill-green-400' : ''}`} />
+              </button>
+              <div className="flex-1 min-w-0">
+                <p className="text-gray-300 truncate" title={version.result.analysis}>
+                  <span className="font-semibold text-white">v{version.number}</span>
+                  {' · '}<span className="text-purple-300">{version.result.mode.label}</span>
+                  {' · '}{shortModelName(version.result.model)}
+                  {version.result.metrics && <> · score {version.result.metrics.score.after}</>}
+                </p>
+                <p className="text-gray-500 truncate">
+                  {new Date(version.createdAt).toLocaleString()}
+                  {parameters && <> · {parameters}</>}
+                </p>
+              </div>
+              <button
+                onClick={() => onCompare(version.id)}
+                disabled={busy}
+                title={preferred ? 'Compare with the original' : 'Compare with the preferred version'}
+                className={iconButtonClass}
+              >
+                <Columns2 className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => onDelete(version.id)}
+                disabled={busy}
+                title="Delete this version"
+                className={`${iconButtonClass} hover:text-red-400`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
+
+export default VersionList;
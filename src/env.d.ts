@@ -2,6 +2,8 @@
 
 interface ImportMetaEnv {
   readonly VITE_OPENROUTER_API_KEY?: string;
+  // Express后端地址，前端单独部署时设置（见 src/lib/api.ts）
+  readonly VITE_API_URL?: string;
 }
  
 interface ImportMeta {
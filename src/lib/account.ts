@@ -0,0 +1,137 @@
+// 账户、API密钥和额度：密钥保存在localStorage，修复请求通过Authorization头携带
+import { apiUrl } from './api';
+
+export interface Account {
+  id: string;
+  email: string;
+  name: string | null;
+  credits: number;
+  createdAt: string;
+}
+
+export interface ApiKeyInfo {
+  id: string;
+  prefix: string;
+  label: string | null;
+  createdAt: string;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+}
+
+// 只有创建时才会返回完整的密钥
+export interface NewApiKey extends ApiKeyInfo {
+  key: string;
+}
+
+export interface AccountDetails {
+  account: Account;
+  // 当前请求使用的密钥
+  apiKeyId: string;
+  keys: ApiKeyInfo[];
+  creditsPerRestoration: number;
+}
+
+// 令牌和费用包含失败的任务（例如被质量检查拒绝的结果），restorations 只计成功的修复
+export interface UsageTotals {
+  jobs: number;
+  restorations: number;
+  credits: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  // OpenRouter报告的费用（美元）
+  cost: number;
+}
+
+export interface UsageRecord {
+  id: number;
+  apiKeyId: string;
+  jobId: string | null;
+  status: 'done' | 'failed' | 'cancelled';
+  credits: number;
+  cached: boolean;
+  provider: string | null;
+  model: string | null;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number;
+  createdAt: string;
+}
+
+export interface AccountUsage {
+  totals: UsageTotals;
+  byKey: (UsageTotals & { apiKeyId: string })[];
+  byStatus: Partial<Record<UsageRecord['status'], UsageTotals>>;
+  recent: UsageRecord[];
+}
+
+export interface Pricing {
+  creditsPerRestoration: number;
+  signupCredits: number;
+  cachedRepeatsFree: boolean;
+}
+
+const API_KEY_KEY = 'picture-repair:api-key';
+
+export function getApiKey(): string | null {
+  try {
+    return localStorage.getItem(API_KEY_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function saveApiKey(key: string | null) {
+  if (key) {
+    localStorage.setItem(API_KEY_KEY, key);
+  } else {
+    localStorage.removeItem(API_KEY_KEY);
+  }
+}
+
+export function authHeaders(): Record<string, string> {
+  const key = getApiKey();
+  return key ? { Authorization: `Bearer ${key}` } : {};
+}
+
+async function request<T>(url: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(apiUrl(url), {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...authHeaders(), ...init.headers }
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.message || data.error || response.statusText);
+  }
+  return data;
+}
+
+export async function createAccount(email: string, name?: string): Promise<{ account: Account; apiKey: NewApiKey }> {
+  return request('/api/accounts', { method: 'POST', body: JSON.stringify({ email, name }) });
+}
+
+export function fetchAccount(): Promise<AccountDetails> {
+  return request('/api/account');
+}
+
+export function fetchUsage(limit = 50): Promise<AccountUsage> {
+  return request(`/api/account/usage?limit=${limit}`);
+}
+
+export async function createApiKey(label: string): Promise<NewApiKey> {
+  const { apiKey } = await request<{ apiKey: NewApiKey }>('/api/account/keys', {
+    method: 'POST',
+    body: JSON.stringify({ label })
+  });
+  return apiKey;
+}
+
+export async function revokeApiKey(id: string): Promise<void> {
+  await request(`/api/account/keys/${id}`, { method: 'DELETE' });
+}
+
+export async function fetchPricing(): Promise<Pricing> {
+  const { pricing } = await request<{ pricing: Pricing }>('/api/info');
+  return pricing;
+}
@@ -0,0 +1,8 @@
+// 后端地址：前端和Express服务器部署在不同域名时（例如前端在Vercel），用VITE_API_URL指定服务器地址；
+// 留空时请求发往当前站点，开发时由Vite代理转发
+export const API_URL = (import.meta.env.VITE_API_URL || '').replace(/\/+$/, '');
+
+// '/api/info' -> 'https://api.example.com/api/info'；已经是完整地址（blob:、data:、http:）时原样返回
+export function apiUrl(path: string): string {
+  return path.startsWith('/') ? `${API_URL}${path}` : path;
+}
@@ -0,0 +1,68 @@
+import type { UploadedImage } from '../types';
+import { damageReportToJson, damageReportToMarkdown, reportFilename } from './damageReport';
+import { createZip, ZipEntry } from './zip';
+
+const baseName = (filename: string) => filename.replace(/\.[^./\\]+$/, '');
+
+const extension = (filename: string) => {
+  const match = filename.match(/\.[^./\\]+$/);
+  return match ? match[0] : '';
+};
+
+// 还原后的文件名：保留原始名称，但使用服务器实际输出的扩展名
+export function restoredFilename(image: UploadedImage): string {
+  const ext = image.result ? extension(image.result.processedFilename) : extension(image.file.name);
+  return `restored_${baseName(image.file.name)}${ext}`;
+}
+
+function uniqueName(name: string, used: Set<string>): string {
+  let candidate = name;
+  for (let n = 2; used.has(candidate); n++) {
+    candidate = `${baseName(name)} (${n})${extension(name)}`;
+  }
+  used.add(candidate);
+  return candidate;
+}
+
+// 把所有已完成的图片、各自的损伤报告和一份manifest打包成一个ZIP
+export async function buildRestoredZip(images: UploadedImage[]): Promise<Blob> {
+  const entries: ZipEntry[] = [];
+  const manifest = [];
+  const usedNames = new Set<string>(['manifest.json']);
+
+  for (const image of images) {
+    if (image.status !== 'completed' || !image.processed) continue;
+
+    const response = await fetch(image.processed);
+    if (!response.ok) {
+      throw new Error(`Failed to download ${image.file.name}: ${response.statusText}`);
+    }
+
+    const filename = uniqueName(restoredFilename(image), usedNames);
+    entries.push({ name: filename, data: new Uint8Array(await response.arrayBuffer()) });
+    if (image.result?.report) {
+      const encoder = new TextEncoder();
+      entries.push(
+        { name: uniqueName(reportFilename(filename, 'json'), usedNames), data: encoder.encode(damageReportToJson(image, filename)) },
+        { name: uniqueName(reportFilename(filename, 'md'), usedNames), data: encoder.encode(damageReportToMarkdown(image, filename)) }
+      );
+    }
+    manifest.push({
+      originalFilename: image.file.name,
+      restoredFilename: filename,
+      analysis: image.result?.analysis ?? null,
+      report: image.result?.report ?? null,
+      mode: image.result?.mode ?? null,
+      plan: image.result?.plan ?? null,
+      planFallbacks: image.result?.planFallbacks ?? [],
+      provider: image.result?.provider ?? null,
+      model: image.result?.model ?? null,
+      qualityScore: image.result?.metrics?.score ?? null
+    });
+  }
+
+  const manifestJson = JSON.stringify({ createdAt: new Date().toISOString(), images: manifest }, null, 2);
+  entries.unshift({ name: 'manifest.json', data: new TextEncoder().encode(manifestJson) });
+
+  return createZip(entries);
+}
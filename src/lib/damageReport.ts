@@ -0,0 +1,122 @@
+// 结构化损伤报告：类型定义以及导出为JSON/Markdown
+import type { UploadedImage } from '../types';
+
+export type DamageType =
+  | 'scratch' | 'dust' | 'tear' | 'crease' | 'stain' | 'fading' | 'color-cast'
+  | 'noise' | 'blur' | 'missing-area' | 'mold' | 'other';
+
+export type DamageSeverity = 'minor' | 'moderate' | 'severe';
+
+// 区域坐标是相对于上传图片的比例（0-1）
+export interface DamageRegion {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export interface DamageItem {
+  type: DamageType;
+  severity: DamageSeverity;
+  description: string;
+  region: DamageRegion | null;
+}
+
+export interface DamageReport {
+  damages: DamageItem[];
+  overallSeverity: DamageSeverity | null;
+  estimatedEra: string | null;
+  medium: string | null;
+  recommendedActions: string[];
+}
+
+export type ReportFormat = 'json' | 'md';
+
+export const DAMAGE_TYPE_LABELS: Record<DamageType, string> = {
+  scratch: 'Scratch',
+  dust: 'Dust',
+  tear: 'Tear',
+  crease: 'Crease',
+  stain: 'Stain',
+  fading: 'Fading',
+  'color-cast': 'Color cast',
+  noise: 'Noise / grain',
+  blur: 'Blur',
+  'missing-area': 'Missing area',
+  mold: 'Mold',
+  other: 'Other'
+};
+
+export const SEVERITY_COLORS: Record<DamageSeverity, string> = {
+  minor: '#facc15',
+  moderate: '#fb923c',
+  severe: '#ef4444'
+};
+
+// 报告文件与修复后的图片同名，放在一起
+export function reportFilename(restoredName: string, format: ReportFormat): string {
+  return `${restoredName.replace(/\.[^./\\]+$/, '')}.report.${format}`;
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+function describeRegion(region: DamageRegion | null): string {
+  if (!region) return 'Whole photo';
+  return `${percent(region.left)}, ${percent(region.top)} · ${percent(region.width)} × ${percent(region.height)}`;
+}
+
+export function damageReportToJson(image: UploadedImage, restoredName: string): string {
+  return JSON.stringify({
+    originalFilename: image.file.name,
+    restoredFilename: restoredName,
+    analysis: image.result?.analysis ?? null,
+    report: image.result?.report ?? null,
+    mode: image.result?.mode ?? null,
+    provider: image.result?.provider ?? null,
+    model: image.result?.model ?? null
+  }, null, 2);
+}
+
+export function damageReportToMarkdown(image: UploadedImage, restoredName: string): string {
+  const result = image.result;
+  const report = result?.report;
+  const lines = [`# Damage report: ${image.file.name}`, ''];
+
+  if (report) {
+    lines.push(
+      `- **Overall severity:** ${report.overallSeverity ?? 'none detected'}`,
+      `- **Estimated era:** ${report.estimatedEra ?? 'unknown'}`,
+      `- **Medium:** ${report.medium ?? 'unknown'}`
+    );
+  }
+  lines.push(`- **Restored file:** ${restoredName}`, '');
+
+  if (result?.analysis) {
+    lines.push('## Summary', '', result.analysis, '');
+  }
+
+  if (report && report.damages.length > 0) {
+    lines.push('## Detected damage', '', '| # | Type | Severity | Region | Notes |', '|---|------|----------|--------|-------|');
+    report.damages.forEach((damage, index) => {
+      const notes = damage.description.replace(/\|/g, '\\|');
+      lines.push(`| ${index + 1} | ${DAMAGE_TYPE_LABELS[damage.type]} | ${damage.severity} | ${describeRegion(damage.region)} | ${notes} |`);
+    });
+    lines.push('');
+  }
+
+  if (report && report.recommendedActions.length > 0) {
+    lines.push('## Recommended actions', '', ...report.recommendedActions.map((action) => `- ${action}`), '');
+  }
+
+  if (result) {
+    lines.push(
+      '## Restoration',
+      '',
+      `- **Mode:** ${result.mode.label}`,
+      `- **Provider:** ${result.provider} (${result.model})`,
+      ''
+    );
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,86 @@
+// 差异热力图：逐像素比较修复前后的图片，变化越大颜色越亮
+export interface DifferenceHeatmap {
+  url: string;
+  width: number;
+  height: number;
+  // 明显变化的像素所占比例（0-1）
+  changedRatio: number;
+}
+
+// 低于这个差值视为没有变化（JPEG压缩本身就会带来少量误差）
+const NOISE_FLOOR = 0.02;
+const CHANGED_THRESHOLD = 0.06;
+// 放大差值，让细微的修复也能看出来
+const GAIN = 4;
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(`Failed to load image for comparison: ${src}`));
+    image.src = src;
+  });
+}
+
+// 黑 → 红 → 黄 → 白
+function heatColor(t: number): [number, number, number] {
+  const channel = (offset: number) => Math.round(Math.min(1, Math.max(0, 3 * t - offset)) * 255);
+  return [channel(0), channel(1), channel(2)];
+}
+
+// 两张图片都缩放到修复后图片的尺寸（长边不超过maxEdge）再比较
+export async function createDifferenceHeatmap(
+  beforeSrc: string,
+  afterSrc: string,
+  maxEdge = 2048
+): Promise<DifferenceHeatmap> {
+  const [before, after] = await Promise.all([loadImage(beforeSrc), loadImage(afterSrc)]);
+  const scale = Math.min(1, maxEdge / Math.max(after.naturalWidth, after.naturalHeight));
+  const width = Math.max(1, Math.round(after.naturalWidth * scale));
+  const height = Math.max(1, Math.round(after.naturalHeight * scale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) {
+    throw new Error('Canvas 2D context is not available');
+  }
+
+  context.drawImage(before, 0, 0, width, height);
+  const beforeData = context.getImageData(0, 0, width, height).data;
+  context.drawImage(after, 0, 0, width, height);
+  const afterImage = context.getImageData(0, 0, width, height);
+  const afterData = afterImage.data;
+
+  let changed = 0;
+  for (let i = 0; i < afterData.length; i += 4) {
+    const diff = Math.max(
+      Math.abs(afterData[i] - beforeData[i]),
+      Math.abs(afterData[i + 1] - beforeData[i + 1]),
+      Math.abs(afterData[i + 2] - beforeData[i + 2])
+    ) / 255;
+    if (diff > CHANGED_THRESHOLD) changed++;
+
+    // 没有变化的地方显示变暗的灰度图，方便定位
+    const grey = (afterData[i] * 0.299 + afterData[i + 1] * 0.587 + afterData[i + 2] * 0.114) * 0.3;
+    const alpha = diff < NOISE_FLOOR ? 0 : Math.min(1, diff * GAIN * 1.5);
+    const [r, g, b] = heatColor(Math.min(1, diff * GAIN));
+    afterData[i] = grey + (r - grey) * alpha;
+    afterData[i + 1] = grey + (g - grey) * alpha;
+    afterData[i + 2] = grey + (b - grey) * alpha;
+    afterData[i + 3] = 255;
+  }
+  context.putImageData(afterImage, 0, 0);
+
+  const blob = await new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob((result) => (result ? resolve(result) : reject(new Error('Failed to encode heatmap'))), 'image/png');
+  });
+
+  return {
+    url: URL.createObjectURL(blob),
+    width,
+    height,
+    changedRatio: changed / (width * height)
+  };
+}
@@ -0,0 +1,103 @@
+// 修复历史：保存在IndexedDB中，刷新或关闭页面后仍然保留
+import type { JobStage, RepairResult } from './repairJobs';
+import type { OutboxState } from './outbox';
+import type { OutputSettings } from './outputFormats';
+import type { RestorationSettings } from './restorationModes';
+import type { QualityErrorCode } from './qualityMetrics';
+import type { ScanSource } from './scanSplit';
+import type { ShareLink } from './shares';
+import type { RestorationVersion } from './versions';
+import type { UploadErrorCode } from './uploadErrors';
+
+// 保存的版本带有结果图片本身，服务器上的文件可能会被清理
+export interface HistoryVersion extends Omit<RestorationVersion, 'processed'> {
+  processed?: Blob;
+}
+
+export type HistoryStatus = 'uploaded' | 'queued' | 'processing' | 'completed' | 'error' | 'interrupted' | 'offline';
+
+export interface HistoryEntry {
+  id: string;
+  filename: string;
+  // 原始文件和实际上传的预处理文件
+  original: File;
+  upload?: Blob;
+  uploadSize?: { width: number; height: number; originalWidth: number; originalHeight: number };
+  // 首选版本的修复结果图片
+  processed?: Blob;
+  // 较早的历史记录没有版本，只有一个结果
+  versions?: HistoryVersion[];
+  preferredVersionId?: string;
+  status: HistoryStatus;
+  stage?: JobStage;
+  jobId?: string;
+  outbox?: OutboxState;
+  mask?: string;
+  settings?: RestorationSettings;
+  output?: OutputSettings;
+  model?: string | null;
+  captureDate?: string;
+  scan?: ScanSource;
+  share?: ShareLink;
+  result?: RepairResult;
+  error?: string;
+  errorCode?: UploadErrorCode | QualityErrorCode;
+  createdAt: number;
+  updatedAt: number;
+}
+
+const DB_NAME = 'picture-repair';
+const DB_VERSION = 1;
+const STORE = 'history';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('createdAt', 'createdAt');
+        store.createIndex('status', 'status');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE, mode);
+    const request = run(transaction.objectStore(STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export async function getHistory(): Promise<HistoryEntry[]> {
+  const entries = await withStore<HistoryEntry[]>('readonly', (store) => store.index('createdAt').getAll());
+  return entries.reverse();
+}
+
+export function getHistoryEntry(id: string): Promise<HistoryEntry | undefined> {
+  return withStore<HistoryEntry | undefined>('readonly', (store) => store.get(id));
+}
+
+export async function putHistoryEntry(entry: HistoryEntry): Promise<void> {
+  await withStore('readwrite', (store) => store.put(entry));
+}
+
+export async function deleteHistoryEntry(id: string): Promise<void> {
+  await withStore('readwrite', (store) => store.delete(id));
+}
+
+export async function getStorageEstimate(): Promise<{ usage: number; quota: number } | null> {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+}
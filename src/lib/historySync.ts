@@ -0,0 +1,129 @@
+// 工作区图片与IndexedDB历史记录之间的转换
+import type { UploadedImage } from '../types';
+import { HistoryEntry, HistoryStatus, HistoryVersion, getHistoryEntry, putHistoryEntry } from './historyDb';
+import type { RestorationVersion } from './versions';
+import { apiUrl } from './api';
+
+// 只有这些字段变化时才需要写入数据库
+export function historySignature(image: UploadedImage): string {
+  return [image.status, image.stage, image.jobId, image.error, image.mask?.length, image.settings?.mode, image.scan?.region.angle, image.share?.id, image.share?.revokedAt, image.versions?.length, image.preferredVersionId, image.outbox?.attempts].join('|');
+}
+
+// 下载结果图片，服务器上已经清理掉时返回undefined
+async function fetchBlob(url: string): Promise<Blob | undefined> {
+  const response = await fetch(url);
+  return response.ok ? response.blob() : undefined;
+}
+
+export async function persistImage(image: UploadedImage): Promise<void> {
+  if (image.status === 'preparing') return;
+
+  const existing = await getHistoryEntry(image.id);
+  let processed = existing?.processed;
+
+  // 把每个版本的结果图片本身也保存下来，已经保存过的不再下载
+  const savedBlobs = new Map(existing?.versions?.map((version) => [version.id, version.processed]));
+  const versions: HistoryVersion[] | undefined = image.versions && await Promise.all(
+    image.versions.map(async (version) => ({
+      ...version,
+      processed: savedBlobs.get(version.id) ?? await fetchBlob(version.processed)
+    }))
+  );
+
+  if (versions) {
+    processed = versions.find((version) => version.id === image.preferredVersionId)?.processed;
+  } else if (image.status === 'completed' && !processed && image.processed) {
+    processed = await fetchBlob(image.processed);
+  }
+
+  const entry: HistoryEntry = {
+    id: image.id,
+    filename: image.file.name,
+    original: image.file,
+    upload: image.upload?.file,
+    uploadSize: image.upload && {
+      width: image.upload.width,
+      height: image.upload.height,
+      originalWidth: image.upload.originalWidth,
+      originalHeight: image.upload.originalHeight
+    },
+    processed,
+    status: image.status as HistoryStatus,
+    stage: image.stage,
+    jobId: image.jobId,
+    outbox: image.outbox,
+    mask: image.mask,
+    settings: image.settings,
+    output: image.output,
+    model: image.model,
+    captureDate: image.captureDate,
+    scan: image.scan,
+    share: image.share,
+    result: image.result,
+    versions,
+    preferredVersionId: image.preferredVersionId,
+    error: image.error,
+    errorCode: image.errorCode,
+    createdAt: existing?.createdAt ?? Date.now(),
+    updatedAt: Date.now()
+  };
+
+  await putHistoryEntry(entry);
+}
+
+// 把保存的版本还原为带图片URL的版本；没有版本的旧记录把唯一的结果作为版本1
+function restoreVersions(entry: HistoryEntry): RestorationVersion[] | undefined {
+  if (entry.versions) {
+    return entry.versions.map((version) => ({
+      ...version,
+      processed: version.processed ? URL.createObjectURL(version.processed) : apiUrl(version.result.processedImageUrl)
+    }));
+  }
+  if (!entry.result) return undefined;
+
+  return [{
+    id: `${entry.id}-1`,
+    number: 1,
+    processed: entry.processed ? URL.createObjectURL(entry.processed) : apiUrl(entry.result.processedImageUrl),
+    result: entry.result,
+    settings: entry.settings,
+    output: entry.output,
+    model: entry.model,
+    createdAt: entry.updatedAt
+  }];
+}
+
+export function historyEntryToImage(entry: HistoryEntry): UploadedImage {
+  const interrupted = entry.status === 'interrupted';
+  const versions = restoreVersions(entry);
+  const preferred = versions?.find((version) => version.id === entry.preferredVersionId) ?? versions?.[versions.length - 1];
+
+  return {
+    id: entry.id,
+    file: entry.original,
+    upload: entry.upload && entry.uploadSize
+      ? { file: new File([entry.upload], entry.filename, { type: entry.upload.type }), ...entry.uploadSize }
+      : undefined,
+    preview: URL.createObjectURL(entry.upload || entry.original),
+    processed: preferred?.processed,
+    // 重新修复被中断时，之前的版本仍然可用
+    status: interrupted
+      ? (versions?.length ? 'completed' : 'error')
+      : entry.status as Exclude<HistoryStatus, 'interrupted'>,
+    stage: entry.stage,
+    jobId: entry.jobId,
+    outbox: entry.outbox,
+    mask: entry.mask,
+    settings: entry.settings,
+    output: entry.output,
+    model: entry.model,
+    captureDate: entry.captureDate,
+    scan: entry.scan,
+    share: entry.share,
+    result: preferred?.result,
+    versions,
+    preferredVersionId: preferred?.id,
+    error: interrupted ? 'Interrupted before it finished. Try again to restart the repair.' : entry.error,
+    errorCode: interrupted ? undefined : entry.errorCode
+  };
+}
@@ -0,0 +1,63 @@
+// AI模型：列表来自服务器 /api/models（按故障切换顺序），用户的选择保存在localStorage
+import { apiUrl } from './api';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface ModelInfo {
+  id: string;
+  provider: string;
+  timeoutMs: number | null;
+  // 未选择模型时首先使用的模型
+  default: boolean;
+  // 熔断器状态：open表示连续失败后暂停使用，直到retryAt
+  state: CircuitState;
+  failures: number;
+  retryAt: string | null;
+}
+
+// 一次修复中依次尝试过的模型
+export interface ModelAttempt {
+  model: string;
+  outcome: 'success' | 'error' | 'timeout' | 'skipped';
+  status: number | null;
+  durationMs: number;
+}
+
+const MODEL_KEY = 'picture-repair:model';
+
+export async function fetchModels(): Promise<ModelInfo[]> {
+  const response = await fetch(apiUrl('/api/models'));
+  if (!response.ok) {
+    throw new Error(`Failed to load models: ${response.statusText}`);
+  }
+  const data = await response.json();
+  return data.models;
+}
+
+// null表示按服务器配置的顺序自动选择
+export function loadModelChoice(): string | null {
+  try {
+    return localStorage.getItem(MODEL_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function saveModelChoice(model: string | null) {
+  if (model) {
+    localStorage.setItem(MODEL_KEY, model);
+  } else {
+    localStorage.removeItem(MODEL_KEY);
+  }
+}
+
+// 去掉供应商前缀，例如 anthropic/claude-3.5-sonnet -> claude-3.5-sonnet
+export function shortModelName(id: string): string {
+  return id.slice(id.lastIndexOf('/') + 1);
+}
+
+export function describeAttempts(attempts: ModelAttempt[]): string {
+  return attempts
+    .map((attempt) => `${attempt.model}: ${attempt.outcome}${attempt.status ? ` (${attempt.status})` : ''}`)
+    .join('\n');
+}
@@ -0,0 +1,29 @@
+// 离线发件箱：没有网络时提交的修复请求保存在这里（随历史记录持久化），恢复连接后按退避间隔自动重新提交
+
+export interface OutboxState {
+  // 已经失败的提交次数
+  attempts: number;
+  // 下一次自动提交的时间
+  nextAttemptAt: number;
+  // 断网前服务器已经接受的任务，重新提交时先尝试接着等待它
+  jobId?: string;
+}
+
+const BASE_DELAY_MS = 5000;
+const MAX_DELAY_MS = 5 * 60 * 1000;
+
+// fetch在网络不可用时抛出TypeError；服务器返回的错误（包括5xx）不算断网
+export function isNetworkError(error: unknown): boolean {
+  return !navigator.onLine || error instanceof TypeError;
+}
+
+// 每次失败后等待时间翻倍，最长5分钟，加上随机抖动避免恢复连接时同时提交
+export function scheduleRetry(previous: OutboxState | undefined, jobId?: string): OutboxState {
+  const attempts = (previous?.attempts ?? 0) + 1;
+  const delay = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempts - 1));
+  return {
+    attempts,
+    nextAttemptAt: Date.now() + Math.round(delay * (0.5 + Math.random() * 0.5)),
+    jobId: jobId ?? previous?.jobId
+  };
+}
@@ -0,0 +1,49 @@
+// 输出格式：定义来自服务器 /api/formats，用户的选择保存在localStorage
+import { apiUrl } from './api';
+
+export type OutputFormatId = 'jpeg' | 'png' | 'webp' | 'avif' | 'tiff';
+
+export interface OutputFormat {
+  id: OutputFormatId;
+  label: string;
+  extension: string;
+  contentType: string;
+  // 只有有损格式有质量范围
+  quality: { min: number; max: number; default: number } | null;
+  // TIFF只能保留色彩配置文件，不能写入拍摄日期
+  keepsCaptureDate: boolean;
+  supported: boolean;
+}
+
+export interface OutputSettings {
+  format: OutputFormatId;
+  quality?: number;
+  // 保留拍摄日期和色彩配置文件（GPS位置总是会被删除）
+  keepMetadata: boolean;
+}
+
+export const DEFAULT_OUTPUT_SETTINGS: OutputSettings = { format: 'jpeg', keepMetadata: false };
+
+const OUTPUT_KEY = 'picture-repair:output';
+
+export async function fetchOutputFormats(): Promise<OutputFormat[]> {
+  const response = await fetch(apiUrl('/api/formats'));
+  if (!response.ok) {
+    throw new Error(`Failed to load output formats: ${response.statusText}`);
+  }
+  const data = await response.json();
+  return data.formats;
+}
+
+export function loadOutputSettings(): OutputSettings {
+  try {
+    const stored = localStorage.getItem(OUTPUT_KEY);
+    return stored ? { ...DEFAULT_OUTPUT_SETTINGS, ...JSON.parse(stored) } : DEFAULT_OUTPUT_SETTINGS;
+  } catch {
+    return DEFAULT_OUTPUT_SETTINGS;
+  }
+}
+
+export function saveOutputSettings(settings: OutputSettings) {
+  localStorage.setItem(OUTPUT_KEY, JSON.stringify(settings));
+}
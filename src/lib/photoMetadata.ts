@@ -0,0 +1,158 @@
+// 读取原始照片中需要保留的元数据：EXIF拍摄日期和ICC色彩配置文件
+// 只解析JPEG和PNG，其他格式（例如HEIC）没有元数据时照常处理
+
+export interface PhotoMetadata {
+  // EXIF格式的拍摄日期，例如 "1968:05:04 10:11:12"
+  captureDate?: string;
+  iccProfile?: Uint8Array;
+}
+
+// 元数据都在文件开头，不需要读取整个文件
+const HEADER_BYTES = 1024 * 1024;
+const ICC_SIGNATURE = 'ICC_PROFILE\0';
+// 每个APP2段最多能放的ICC数据：65535 - 长度字段(2) - 签名(12) - 序号和总数(2)
+const ICC_CHUNK_SIZE = 65519;
+const EXIF_DATE = /^\d{4}:\d{2}:\d{2} \d{2}:\d{2}:\d{2}$/;
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(start, start + length));
+
+function readTiffDate(tiff: Uint8Array): string | undefined {
+  if (tiff.length < 8) return undefined;
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  const little = ascii(tiff, 0, 2) === 'II';
+  const u16 = (offset: number) => view.getUint16(offset, little);
+  const u32 = (offset: number) => view.getUint32(offset, little);
+
+  // 在一个IFD中查找标签，返回ASCII值或指针值
+  const findTag = (ifdOffset: number, tag: number): { type: number; count: number; valueOffset: number } | undefined => {
+    if (ifdOffset + 2 > tiff.length) return undefined;
+    const entries = u16(ifdOffset);
+    for (let i = 0; i < entries; i++) {
+      const entry = ifdOffset + 2 + i * 12;
+      if (entry + 12 > tiff.length) return undefined;
+      if (u16(entry) === tag) {
+        return { type: u16(entry + 2), count: u32(entry + 4), valueOffset: entry + 8 };
+      }
+    }
+    return undefined;
+  };
+
+  const readAscii = (ifdOffset: number, tag: number) => {
+    const entry = findTag(ifdOffset, tag);
+    if (!entry || entry.type !== 2 || entry.count > 64) return undefined;
+    const start = entry.count > 4 ? u32(entry.valueOffset) : entry.valueOffset;
+    if (start + entry.count > tiff.length) return undefined;
+    const value = ascii(tiff, start, entry.count).replace(/\0+$/, '');
+    return EXIF_DATE.test(value) && !value.startsWith('0000') ? value : undefined;
+  };
+
+  const ifd0 = u32(4);
+  const exifPointer = findTag(ifd0, 0x8769);
+  const exifDate = exifPointer ? readAscii(u32(exifPointer.valueOffset), 0x9003) : undefined;
+  // 没有DateTimeOriginal时退回到IFD0中的DateTime
+  return exifDate || readAscii(ifd0, 0x0132);
+}
+
+function readJpegMetadata(bytes: Uint8Array): PhotoMetadata {
+  const metadata: PhotoMetadata = {};
+  const iccChunks: Uint8Array[] = [];
+  let offset = 2;
+
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    // SOS之后是图像数据，元数据段都在它之前
+    if (marker === 0xda || marker === 0xd9) break;
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    const data = bytes.subarray(offset + 4, offset + 2 + length);
+
+    if (marker === 0xe1 && ascii(data, 0, 6) === 'Exif\0\0' && !metadata.captureDate) {
+      metadata.captureDate = readTiffDate(data.subarray(6));
+    } else if (marker === 0xe2 && ascii(data, 0, 12) === ICC_SIGNATURE) {
+      iccChunks[data[12] - 1] = data.subarray(14);
+    }
+    offset += 2 + length;
+  }
+
+  // 缺少任何一段都说明配置文件不完整
+  if (iccChunks.length > 0 && Array.from(iccChunks).every(Boolean)) {
+    const size = iccChunks.reduce((total, chunk) => total + chunk.length, 0);
+    const profile = new Uint8Array(size);
+    let position = 0;
+    for (const chunk of iccChunks) {
+      profile.set(chunk, position);
+      position += chunk.length;
+    }
+    metadata.iccProfile = profile;
+  }
+
+  return metadata;
+}
+
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function readPngMetadata(bytes: Uint8Array): Promise<PhotoMetadata> {
+  const metadata: PhotoMetadata = {};
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 8;
+
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = ascii(bytes, offset + 4, 4);
+    const data = bytes.subarray(offset + 8, offset + 8 + length);
+    if (type === 'IEND') break;
+
+    if (type === 'iCCP' && typeof DecompressionStream !== 'undefined') {
+      // 配置文件名称以\0结尾，后面是压缩方式（一个字节）和zlib数据
+      const nameEnd = data.indexOf(0);
+      metadata.iccProfile = await inflate(data.subarray(nameEnd + 2)).catch(() => undefined);
+    } else if (type === 'eXIf') {
+      metadata.captureDate = readTiffDate(data);
+    }
+    offset += 12 + length;
+  }
+
+  return metadata;
+}
+
+export async function readPhotoMetadata(file: Blob): Promise<PhotoMetadata> {
+  const bytes = new Uint8Array(await file.slice(0, HEADER_BYTES).arrayBuffer());
+  try {
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+      return readJpegMetadata(bytes);
+    }
+    if (ascii(bytes, 1, 3) === 'PNG') {
+      return await readPngMetadata(bytes);
+    }
+  } catch (error) {
+    console.warn('Could not read photo metadata:', error);
+  }
+  return {};
+}
+
+// 把ICC配置文件写回重新编码后的JPEG（放在SOI和JFIF段之后）
+export async function embedIccProfile(jpeg: Blob, profile: Uint8Array): Promise<Blob> {
+  const bytes = new Uint8Array(await jpeg.arrayBuffer());
+  let insertAt = 2;
+  if (bytes[2] === 0xff && bytes[3] === 0xe0) {
+    insertAt += 2 + ((bytes[4] << 8) | bytes[5]);
+  }
+
+  const count = Math.ceil(profile.length / ICC_CHUNK_SIZE);
+  const segments: Uint8Array[] = [];
+  for (let index = 0; index < count; index++) {
+    const chunk = profile.subarray(index * ICC_CHUNK_SIZE, (index + 1) * ICC_CHUNK_SIZE);
+    const length = 2 + ICC_SIGNATURE.length + 2 + chunk.length;
+    const segment = new Uint8Array(2 + length);
+    segment.set([0xff, 0xe2, length >> 8, length & 0xff]);
+    segment.set(Array.from(ICC_SIGNATURE, (char) => char.charCodeAt(0)), 4);
+    segment.set([index + 1, count], 4 + ICC_SIGNATURE.length);
+    segment.set(chunk, 6 + ICC_SIGNATURE.length);
+    segments.push(segment);
+  }
+
+  return new Blob([bytes.subarray(0, insertAt), ...segments, bytes.subarray(insertAt)], { type: 'image/jpeg' });
+}
@@ -0,0 +1,91 @@
+// 共享的图片预处理逻辑：Worker中运行，不支持OffscreenCanvas时在主线程运行
+import { embedIccProfile, readPhotoMetadata } from './photoMetadata';
+
+export interface PreprocessOptions {
+  // 上传图片的最长边（像素）
+  maxEdge: number;
+  // JPEG编码质量（0-1）
+  quality: number;
+}
+
+export interface PreparedImage {
+  blob: Blob;
+  width: number;
+  height: number;
+  originalWidth: number;
+  originalHeight: number;
+  // 原始照片的EXIF拍摄日期
+  captureDate?: string;
+}
+
+export interface PreprocessRequest {
+  id: number;
+  file: Blob;
+  options: PreprocessOptions;
+}
+
+function createCanvas(width: number, height: number) {
+  if (typeof OffscreenCanvas !== 'undefined') {
+    return new OffscreenCanvas(width, height);
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+function canvasToBlob(canvas: OffscreenCanvas | HTMLCanvasElement, quality: number): Promise<Blob> {
+  if ('convertToBlob' in canvas) {
+    return canvas.convertToBlob({ type: 'image/jpeg', quality });
+  }
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Failed to encode image'))),
+      'image/jpeg',
+      quality
+    );
+  });
+}
+
+export async function prepareImage(file: Blob, { maxEdge, quality }: PreprocessOptions): Promise<PreparedImage> {
+  const { captureDate, iccProfile } = await readPhotoMetadata(file);
+
+  // 'from-image' 让解码器按EXIF方向摆正图片
+  // 有ICC配置文件时不做色彩转换，重新编码后把原配置文件写回，服务器据此还原颜色
+  const original = await createImageBitmap(file, {
+    imageOrientation: 'from-image',
+    colorSpaceConversion: iccProfile ? 'none' : 'default'
+  });
+  const originalWidth = original.width;
+  const originalHeight = original.height;
+  const scale = Math.min(1, maxEdge / Math.max(originalWidth, originalHeight));
+  const width = Math.round(originalWidth * scale);
+  const height = Math.round(originalHeight * scale);
+
+  let bitmap = original;
+  if (scale < 1) {
+    bitmap = await createImageBitmap(original, {
+      resizeWidth: width,
+      resizeHeight: height,
+      resizeQuality: 'high'
+    });
+    original.close();
+  }
+
+  const canvas = createCanvas(width, height);
+  const context = canvas.getContext('2d') as OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D | null;
+  if (!context) {
+    bitmap.close();
+    throw new Error('Canvas is not available');
+  }
+
+  // JPEG没有透明通道，透明区域铺白色
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, width, height);
+  context.drawImage(bitmap, 0, 0);
+  bitmap.close();
+
+  const encoded = await canvasToBlob(canvas, quality);
+  const blob = iccProfile ? await embedIccProfile(encoded, iccProfile) : encoded;
+  return { blob, width, height, originalWidth, originalHeight, captureDate };
+}
@@ -0,0 +1,89 @@
+// 上传前的预处理：由一个共享Worker排队处理，主线程保持响应
+import { prepareImage, PreparedImage, PreprocessOptions } from './prepareImage';
+import { apiUrl } from './api';
+
+export type { PreparedImage, PreprocessOptions };
+
+export const UPLOAD_EDGE_OPTIONS = [1024, 2048, 3072, 4096];
+
+export const DEFAULT_PREPROCESS_OPTIONS: PreprocessOptions = { maxEdge: 2048, quality: 0.92 };
+
+// 服务器的上传限制（GET /api/info）
+export interface UploadLimits {
+  maxBytes: number;
+  maxDimension: number;
+  maxPixels: number;
+  // 拆分扫描件时允许的最大文件（扫描件的限制比修复宽松）
+  maxScanBytes: number;
+}
+
+// 服务器能按原始分辨率渲染的格式；GIF可能是动图，HEIC不一定能在服务器上解码
+const RENDERABLE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/tiff'];
+
+export async function fetchUploadLimits(): Promise<UploadLimits> {
+  const response = await fetch(apiUrl('/api/info'));
+  if (!response.ok) {
+    throw new Error(`Failed to load upload limits (${response.status})`);
+  }
+  const { limits } = await response.json();
+  return {
+    maxBytes: limits.maxBytes,
+    maxDimension: limits.maxDimension,
+    maxPixels: limits.maxPixels,
+    maxScanBytes: limits.scans?.maxBytes ?? limits.maxBytes
+  };
+}
+
+// 原始文件在服务器限制之内时按原始分辨率渲染，缩小的副本只用于AI分析；否则只上传缩小的副本
+export function fitsUploadLimits(file: File, width: number, height: number, limits: UploadLimits | null): boolean {
+  if (!limits || !RENDERABLE_TYPES.includes(file.type)) return false;
+  return file.size <= limits.maxBytes
+    && Math.max(width, height) <= limits.maxDimension
+    && width * height <= limits.maxPixels;
+}
+
+type Pending = { resolve: (result: PreparedImage) => void; reject: (error: Error) => void };
+
+let worker: Worker | null = null;
+let nextId = 0;
+const pending = new Map<number, Pending>();
+
+function getWorker(): Worker | null {
+  if (typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined') return null;
+
+  if (!worker) {
+    worker = new Worker(new URL('../workers/preprocess.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<{ id: number; result?: PreparedImage; error?: string }>) => {
+      const { id, result, error } = event.data;
+      const request = pending.get(id);
+      pending.delete(id);
+      if (!request) return;
+      if (result) {
+        request.resolve(result);
+      } else {
+        request.reject(new Error(error || 'Failed to prepare image'));
+      }
+    };
+  }
+  return worker;
+}
+
+export function preprocessImage(file: File, options: PreprocessOptions = DEFAULT_PREPROCESS_OPTIONS): Promise<PreparedImage> {
+  const preprocessWorker = getWorker();
+  if (!preprocessWorker) {
+    return prepareImage(file, options);
+  }
+
+  return new Promise((resolve, reject) => {
+    const id = nextId++;
+    pending.set(id, { resolve, reject });
+    preprocessWorker.postMessage({ id, file, options });
+  });
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+}
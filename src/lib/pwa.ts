@@ -0,0 +1,36 @@
+// 可安装的应用：注册缓存应用外壳的Service Worker，以及离线队列完成时的系统通知
+
+export function registerServiceWorker() {
+  // 开发服务器的模块不是打包后的文件，只在生产构建中注册
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch((error) => {
+      console.warn('Service worker registration failed:', error);
+    });
+  });
+}
+
+export function notificationPermission(): NotificationPermission | 'unsupported' {
+  return 'Notification' in window ? Notification.permission : 'unsupported';
+}
+
+export async function requestNotificationPermission(): Promise<NotificationPermission | 'unsupported'> {
+  if (!('Notification' in window)) return 'unsupported';
+  return Notification.requestPermission();
+}
+
+// 手机浏览器只允许通过Service Worker显示通知，没有注册时退回到页面内的Notification
+export async function notify(title: string, { body, tag }: { body: string; tag?: string }) {
+  if (notificationPermission() !== 'granted') return;
+  const options = { body, tag, icon: '/icon-192.png', badge: '/icon-192.png' };
+  try {
+    const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+    if (registration) {
+      await registration.showNotification(title, options);
+    } else {
+      new Notification(title, options);
+    }
+  } catch (error) {
+    console.warn('Showing a notification failed:', error);
+  }
+}
@@ -0,0 +1,89 @@
+// 修复前后的客观质量指标（由服务器计算，见 server/lib/quality-metrics.js）
+
+export type HistogramChannel = 'luminance' | 'r' | 'g' | 'b';
+
+export interface ImageMetrics {
+  width: number;
+  height: number;
+  // 拉普拉斯方差，越大越清晰
+  sharpness: number;
+  // 平坦区域中相对平滑副本的噪声标准差（0-255）
+  noise: number;
+  // 亮度0.5%到99.5%分位的跨度（0-1）
+  dynamicRange: number;
+  colorfulness: number;
+  // 过曝和欠曝像素的比例（0-1）
+  clippedHighlights: number;
+  clippedShadows: number;
+  entropy: number;
+  // 每个通道64个区间，数值为像素比例
+  histograms: Record<HistogramChannel, number[]>;
+}
+
+export interface QualityMetrics {
+  before: ImageMetrics;
+  after: ImageMetrics;
+  // 0-100的综合评分，按所选修复模式的目标加权
+  score: { before: number; after: number; delta: number };
+  // 变差的单项指标
+  worse: MetricName[];
+}
+
+export type MetricName =
+  | 'sharpness'
+  | 'noise'
+  | 'dynamicRange'
+  | 'colorfulness'
+  | 'clippedHighlights'
+  | 'clippedShadows'
+  | 'entropy';
+
+// 结果比原图评分低时服务器拒绝返回，换一种模式或标记损伤后可以重试
+export const QUALITY_REGRESSION = 'QUALITY_REGRESSION';
+export type QualityErrorCode = typeof QUALITY_REGRESSION;
+
+export const QUALITY_REGRESSION_ERROR = {
+  title: 'Restoration rejected',
+  hint: 'The result measured worse than the original, so it was discarded and your credits were refunded. Try another mode or mark the damage first.'
+};
+
+// better为null表示没有好坏之分（色彩丰富度取决于所选的色调）
+export const METRIC_DEFINITIONS: { name: MetricName; label: string; better: 'higher' | 'lower' | null; format: (value: number) => string }[] = [
+  { name: 'sharpness', label: 'Sharpness', better: 'higher', format: (value) => Math.round(value).toLocaleString() },
+  { name: 'noise', label: 'Noise', better: 'lower', format: (value) => value.toFixed(2) },
+  { name: 'dynamicRange', label: 'Dynamic range', better: 'higher', format: (value) => `${Math.round(value * 100)}%` },
+  { name: 'colorfulness', label: 'Colorfulness', better: null, format: (value) => value.toFixed(1) },
+  { name: 'clippedHighlights', label: 'Clipped highlights', better: 'lower', format: (value) => `${(value * 100).toFixed(1)}%` },
+  { name: 'clippedShadows', label: 'Clipped shadows', better: 'lower', format: (value) => `${(value * 100).toFixed(1)}%` },
+  { name: 'entropy', label: 'Entropy', better: 'higher', format: (value) => `${value.toFixed(2)} bits` }
+];
+
+export const HISTOGRAM_CHANNELS: { id: HistogramChannel; label: string }[] = [
+  { id: 'luminance', label: 'L' },
+  { id: 'r', label: 'R' },
+  { id: 'g', label: 'G' },
+  { id: 'b', label: 'B' }
+];
+
+// 指标变化的方向：improved、worse或unchanged（没有好坏之分的指标总是unchanged）
+export function metricTrend(
+  better: 'higher' | 'lower' | null,
+  before: number,
+  after: number
+): 'improved' | 'worse' | 'unchanged' {
+  if (!better || before === after) return 'unchanged';
+  return (after > before) === (better === 'higher') ? 'improved' : 'worse';
+}
+
+// 把直方图转换成SVG路径，两张图共用同一个峰值以便直接比较
+export function histogramPath(bins: number[], peak: number, width: number, height: number): string {
+  if (bins.length === 0 || peak <= 0) return '';
+
+  const step = width / bins.length;
+  const points = bins.map((value, index) => {
+    const x = (index + 0.5) * step;
+    const y = height - (value / peak) * height;
+    return `L${x.toFixed(1)},${y.toFixed(1)}`;
+  });
+  return `M0,${height} ${points.join(' ')} L${width},${height} Z`;
+}
@@ -0,0 +1,222 @@
+// 修复任务客户端：提交图片，然后通过SSE（或轮询）跟踪任务阶段
+import { authHeaders } from './account';
+import type { DamageReport } from './damageReport';
+import type { ModelAttempt } from './models';
+import type { OutputFormatId, OutputSettings } from './outputFormats';
+import type { QualityMetrics } from './qualityMetrics';
+import type { RestorationSettings } from './restorationModes';
+import { apiUrl } from './api';
+
+export type JobStage = 'queued' | 'analyzing' | 'enhancing' | 'done' | 'failed' | 'cancelled';
+
+export interface RepairResult {
+  processedImageUrl: string;
+  analysis: string;
+  // 较早的历史记录中没有损伤报告
+  report?: DamageReport;
+  plan: Record<string, unknown>;
+  planFallbacks: string[];
+  provider: string;
+  // 实际完成分析的模型，以及用户选择的模型（null表示自动）
+  model: string;
+  requestedModel?: string | null;
+  // 本次依次尝试过的模型（使用缓存的AI分析时为空）
+  modelAttempts?: ModelAttempt[];
+  mode: { id: string; label: string; parameters: Record<string, number> };
+  // 实际使用的输出格式（服务器不支持所选格式时为JPEG）
+  output?: {
+    format: OutputFormatId;
+    requestedFormat: OutputFormatId;
+    quality: number | null;
+    keepMetadata: boolean;
+    captureDate: string | null;
+    keptColorProfile: boolean;
+  };
+  inpaintedPixels: number;
+  originalFilename: string;
+  processedFilename: string;
+  // 相同的图片和设置已处理过，结果直接来自服务器缓存
+  cached?: boolean;
+  // 本次修复消耗的额度和token（使用缓存的AI分析时usage为null）
+  creditsCharged?: number;
+  usage?: { promptTokens: number; completionTokens: number; totalTokens: number; cost: number } | null;
+  // 修复前后的质量指标（较早的历史记录中没有）
+  metrics?: QualityMetrics;
+}
+
+export interface RepairJob {
+  id: string;
+  stage: JobStage;
+  originalFilename?: string;
+  createdAt: string;
+  updatedAt: string;
+  result?: RepairResult;
+  error?: { error: string; code?: string; message: string };
+}
+
+export const STAGE_LABELS: Record<JobStage, string> = {
+  queued: 'Queued',
+  analyzing: 'Analyzing damage',
+  enhancing: 'Enhancing',
+  done: 'Completed',
+  failed: 'Failed',
+  cancelled: 'Cancelled'
+};
+
+const POLL_INTERVAL_MS = 1500;
+
+const isTerminal = (stage: JobStage) => stage === 'done' || stage === 'failed' || stage === 'cancelled';
+
+// 服务器返回的错误；上传被拒绝时带有错误代码（见uploadErrors.ts）
+export type RepairError = Error & { code?: string };
+
+export async function readError(response: Response): Promise<RepairError> {
+  try {
+    const data = await response.json();
+    return Object.assign(new Error(data.message || data.error || response.statusText), { code: data.code });
+  } catch {
+    return new Error(response.statusText || `Request failed with status ${response.status}`);
+  }
+}
+
+export interface SubmitRepairOptions {
+  // 只用于AI分析的缩小副本，修复结果按file的分辨率渲染
+  analysisImage?: File;
+  // 损伤遮罩（PNG data URL，白色为需要修补的区域）
+  mask?: string;
+  // 修复模式及其参数
+  settings?: RestorationSettings;
+  // 首先尝试的AI模型，不传则由服务器按顺序选择
+  model?: string | null;
+  // 输出格式和元数据选项，以及原始照片的拍摄日期
+  output?: OutputSettings;
+  captureDate?: string;
+  signal?: AbortSignal;
+}
+
+export async function submitRepairJob(
+  file: File,
+  { analysisImage, mask, settings, model, output, captureDate, signal }: SubmitRepairOptions = {}
+): Promise<{ jobId: string; stage: JobStage }> {
+  const formData = new FormData();
+  formData.append('image', file);
+  if (analysisImage) {
+    formData.append('analysisImage', analysisImage);
+  }
+  if (settings) {
+    formData.append('mode', settings.mode);
+    formData.append('parameters', JSON.stringify(settings.parameters));
+  }
+  if (model) {
+    formData.append('model', model);
+  }
+  if (output) {
+    formData.append('format', output.format);
+    if (output.quality !== undefined) {
+      formData.append('quality', String(output.quality));
+    }
+    formData.append('keepMetadata', String(output.keepMetadata));
+    if (output.keepMetadata && captureDate) {
+      formData.append('captureDate', captureDate);
+    }
+  }
+  if (mask) {
+    const maskBlob = await (await fetch(mask)).blob();
+    formData.append('mask', maskBlob, 'mask.png');
+  }
+
+  const response = await fetch(apiUrl('/api/repair-image'), {
+    method: 'POST',
+    headers: authHeaders(),
+    body: formData,
+    signal
+  });
+
+  if (!response.ok) {
+    throw await readError(response);
+  }
+
+  return response.json();
+}
+
+export async function fetchRepairJob(jobId: string, signal?: AbortSignal): Promise<RepairJob> {
+  const response = await fetch(apiUrl(`/api/jobs/${jobId}`), { signal });
+  if (!response.ok) {
+    throw await readError(response);
+  }
+  return response.json();
+}
+
+// 在服务器上取消任务：排队中的任务立即取消，进行中的任务在下一阶段前停止，额度都会退还
+export async function cancelRepairJob(jobId: string): Promise<void> {
+  const response = await fetch(apiUrl(`/api/jobs/${jobId}`), { method: 'DELETE', headers: authHeaders() });
+  // 409：任务已经结束，没有可以取消的
+  if (!response.ok && response.status !== 409) {
+    throw await readError(response);
+  }
+}
+
+// 跟踪任务直到完成或失败；SSE不可用时退回到轮询。signal中止时停止跟踪
+export function watchRepairJob(
+  jobId: string,
+  onUpdate: (job: RepairJob) => void,
+  signal?: AbortSignal
+): Promise<RepairJob> {
+  return new Promise((resolve, reject) => {
+    let pollTimer: ReturnType<typeof setTimeout> | undefined;
+    let finished = false;
+
+    if (signal?.aborted) {
+      reject(new DOMException('Repair cancelled', 'AbortError'));
+      return;
+    }
+
+    const poll = async () => {
+      try {
+        const job = await fetchRepairJob(jobId, signal);
+        if (finished) return;
+        onUpdate(job);
+        if (isTerminal(job.stage)) {
+          resolve(job);
+        } else {
+          pollTimer = setTimeout(poll, POLL_INTERVAL_MS);
+        }
+      } catch (error) {
+        reject(error);
+      }
+    };
+
+    const events = typeof EventSource === 'undefined'
+      ? undefined
+      : new EventSource(apiUrl(`/api/jobs/${jobId}/events`));
+
+    signal?.addEventListener('abort', () => {
+      finished = true;
+      events?.close();
+      clearTimeout(pollTimer);
+      reject(new DOMException('Repair cancelled', 'AbortError'));
+    });
+
+    if (!events) {
+      poll();
+      return;
+    }
+
+    events.onmessage = (event) => {
+      const job: RepairJob = JSON.parse(event.data);
+      onUpdate(job);
+      if (isTerminal(job.stage)) {
+        finished = true;
+        events.close();
+        resolve(job);
+      }
+    };
+
+    events.onerror = () => {
+      events.close();
+      if (!finished) {
+        poll();
+      }
+    };
+  });
+}
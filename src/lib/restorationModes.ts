@@ -0,0 +1,59 @@
+// 修复模式：定义来自服务器 /api/modes，用户预设保存在localStorage
+import { apiUrl } from './api';
+
+export interface ParameterSpec {
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  default: number;
+}
+
+export interface RestorationMode {
+  id: string;
+  label: string;
+  description: string;
+  parameters: Record<string, ParameterSpec>;
+}
+
+export interface RestorationSettings {
+  mode: string;
+  parameters: Record<string, number>;
+}
+
+export interface RestorationPreset extends RestorationSettings {
+  id: string;
+  name: string;
+}
+
+export const DEFAULT_SETTINGS: RestorationSettings = { mode: 'auto', parameters: {} };
+
+const PRESETS_KEY = 'picture-repair:presets';
+
+export async function fetchRestorationModes(): Promise<RestorationMode[]> {
+  const response = await fetch(apiUrl('/api/modes'));
+  if (!response.ok) {
+    throw new Error(`Failed to load restoration modes: ${response.statusText}`);
+  }
+  const data = await response.json();
+  return data.modes;
+}
+
+export function defaultParameters(mode: RestorationMode): Record<string, number> {
+  return Object.fromEntries(
+    Object.entries(mode.parameters).map(([name, spec]) => [name, spec.default])
+  );
+}
+
+export function loadPresets(): RestorationPreset[] {
+  try {
+    const stored = localStorage.getItem(PRESETS_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function savePresets(presets: RestorationPreset[]) {
+  localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+}
@@ -0,0 +1,98 @@
+// 扫描件拆分：服务器检测平板扫描件上的每张照片，摆正并裁掉扫描仪白边（见 server/lib/scan-splitter.js）
+import { apiUrl } from './api';
+
+// 扫描件上的一张照片：中心、尺寸（扫描件像素）和顺时针倾斜角度
+export interface ScanRegion {
+  centerX: number;
+  centerY: number;
+  width: number;
+  height: number;
+  angle: number;
+}
+
+export interface SplitPhoto {
+  region: ScanRegion;
+  width: number;
+  height: number;
+  // 摆正并裁剪后的JPEG（data URL）
+  image: string;
+}
+
+export interface ScanSplitResult {
+  width: number;
+  height: number;
+  photos: SplitPhoto[];
+}
+
+// 从扫描件拆分出来的照片记住原始扫描件和区域，用户调整后可以重新提取
+export interface ScanSource {
+  file: File;
+  region: ScanRegion;
+  index: number;
+  count: number;
+}
+
+const SPLIT_KEY = 'picture-repair:split-scans';
+
+// 每次微调的角度
+export const ANGLE_STEP = 0.5;
+
+// 传入regions时不再检测，直接按这些区域重新提取；已知扫描件大小限制时，超出的文件不再上传
+export async function splitScan(file: File, regions?: ScanRegion[], maxBytes?: number): Promise<ScanSplitResult> {
+  if (maxBytes && file.size > maxBytes) {
+    throw Object.assign(
+      new Error(`Scans must be smaller than ${Math.round(maxBytes / (1024 * 1024))}MB to be split`),
+      { code: 'FILE_TOO_LARGE' }
+    );
+  }
+
+  const formData = new FormData();
+  formData.append('image', file);
+  if (regions) {
+    formData.append('regions', JSON.stringify(regions));
+  }
+
+  const response = await fetch(apiUrl('/api/scans/split'), { method: 'POST', body: formData });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    // 带上错误代码，拒绝上传时和修复请求一样显示原因（见uploadErrors.ts）
+    throw Object.assign(new Error(data.message || data.error || response.statusText), { code: data.code });
+  }
+  return data;
+}
+
+export function loadSplitScans(): boolean {
+  try {
+    return localStorage.getItem(SPLIT_KEY) === 'true';
+  } catch {
+    return false;
+  }
+}
+
+export function saveSplitScans(enabled: boolean) {
+  localStorage.setItem(SPLIT_KEY, String(enabled));
+}
+
+// scan.jpg 的第2张照片 -> scan-2.jpg；只有一张照片时保留原名
+export function scanPhotoFilename(scanName: string, index: number, count: number): string {
+  const base = scanName.replace(/\.[^.]+$/, '');
+  return count > 1 ? `${base}-${index + 1}.jpg` : `${base}.jpg`;
+}
+
+export async function splitPhotoToFile(photo: SplitPhoto, name: string): Promise<File> {
+  const blob = await (await fetch(photo.image)).blob();
+  return new File([blob], name, { type: 'image/jpeg' });
+}
+
+// 把提取出的照片顺时针转动degrees度：区域的倾斜角度反向变化，保持在-180到180度之间；
+// 转动四分之一圈时区域本身不变，只是宽高互换
+export function rotateRegion(region: ScanRegion, degrees: number): ScanRegion {
+  const angle = ((region.angle - degrees + 540) % 360) - 180;
+  const quarterTurn = Math.abs(degrees) % 180 === 90;
+  return {
+    ...region,
+    width: quarterTurn ? region.height : region.width,
+    height: quarterTurn ? region.width : region.height,
+    angle: Math.round(angle * 100) / 100
+  };
+}
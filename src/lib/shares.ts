@@ -0,0 +1,88 @@
+// 分享链接：把修复前后的照片保存到服务器，生成带有效期、可撤销的公开对比页面
+import { authHeaders } from './account';
+import { readError } from './repairJobs';
+import { API_URL, apiUrl } from './api';
+
+export type ShareStatus = 'active' | 'expired' | 'revoked';
+
+export interface ShareLink {
+  id: string;
+  title: string | null;
+  width: number;
+  height: number;
+  views: number;
+  createdAt: string;
+  expiresAt: string;
+  revokedAt: string | null;
+  status: ShareStatus;
+}
+
+export const SHARE_EXPIRY_OPTIONS = [
+  { days: 1, label: '1 day' },
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' }
+];
+
+export const DEFAULT_SHARE_EXPIRY_DAYS = 7;
+
+// 服务器为每个分享生成的图片：带标注的左右对比图和前后切换的动图
+export const SHARE_ASSETS = [
+  { file: 'side-by-side.jpg', label: 'Side-by-side JPEG' },
+  { file: 'wipe.webp', label: 'Animated WebP' },
+  { file: 'wipe.gif', label: 'Animated GIF' }
+];
+
+// 上传修复前的照片（实际送去修复的那份），修复结果已经在服务器上，只需要文件名
+export async function createShare(
+  before: File,
+  processedFilename: string,
+  { title, expiresInDays = DEFAULT_SHARE_EXPIRY_DAYS }: { title?: string; expiresInDays?: number } = {}
+): Promise<ShareLink> {
+  const formData = new FormData();
+  formData.append('image', before);
+  formData.append('processedFilename', processedFilename);
+  formData.append('expiresInDays', String(expiresInDays));
+  if (title) {
+    formData.append('title', title);
+  }
+
+  const response = await fetch(apiUrl('/api/shares'), {
+    method: 'POST',
+    headers: authHeaders(),
+    body: formData
+  });
+  if (!response.ok) {
+    throw await readError(response);
+  }
+
+  const { share } = await response.json();
+  return share;
+}
+
+export async function fetchShares(): Promise<ShareLink[]> {
+  const response = await fetch(apiUrl('/api/shares'), { headers: authHeaders() });
+  if (!response.ok) {
+    throw await readError(response);
+  }
+
+  const { shares } = await response.json();
+  return shares;
+}
+
+export async function revokeShare(id: string): Promise<void> {
+  const response = await fetch(apiUrl(`/api/shares/${id}`), { method: 'DELETE', headers: authHeaders() });
+  if (!response.ok) {
+    throw await readError(response);
+  }
+}
+
+// 本地保存的分享状态不会自动更新，过期时间已过的按过期处理
+export function shareStatus(share: ShareLink): ShareStatus {
+  if (share.revokedAt) return 'revoked';
+  return Date.parse(share.expiresAt) <= Date.now() ? 'expired' : share.status;
+}
+
+// 分享页面由后端提供，前端和后端分开部署时链接指向后端
+export function shareUrl(share: ShareLink, file?: string): string {
+  return `${API_URL || window.location.origin}/s/${share.id}${file ? `/${file}` : ''}`;
+}
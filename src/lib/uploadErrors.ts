@@ -0,0 +1,46 @@
+// 服务器拒绝上传时返回的错误代码（见 server/lib/image-validation.js）和卡片上的说明
+// 这些错误与文件本身有关，重试同一个文件不会成功
+
+export type UploadErrorCode =
+  | 'NOT_AN_IMAGE'
+  | 'UNSUPPORTED_FORMAT'
+  | 'FILE_TOO_LARGE'
+  | 'DIMENSIONS_TOO_LARGE'
+  | 'TOO_MANY_PIXELS'
+  | 'ANIMATED_IMAGE'
+  | 'CORRUPTED_IMAGE';
+
+export const UPLOAD_ERRORS: Record<UploadErrorCode, { title: string; hint: string }> = {
+  NOT_AN_IMAGE: {
+    title: 'Not an image',
+    hint: 'Only JPEG, PNG, WebP, TIFF, GIF and HEIC photos can be restored.'
+  },
+  UNSUPPORTED_FORMAT: {
+    title: 'Unsupported format',
+    hint: 'Convert the photo to JPEG or PNG and upload it again.'
+  },
+  FILE_TOO_LARGE: {
+    title: 'File too large',
+    hint: 'Choose a smaller upload size before adding the photo, or compress it first.'
+  },
+  DIMENSIONS_TOO_LARGE: {
+    title: 'Image too large',
+    hint: 'Choose a smaller upload size before adding the photo, or crop it first.'
+  },
+  TOO_MANY_PIXELS: {
+    title: 'Too many pixels',
+    hint: 'Choose a smaller upload size before adding the photo.'
+  },
+  ANIMATED_IMAGE: {
+    title: 'Animated image',
+    hint: 'Export a single frame as a still photo and upload that instead.'
+  },
+  CORRUPTED_IMAGE: {
+    title: 'Damaged file',
+    hint: 'The file is incomplete or broken. Copy it from the original source again.'
+  }
+};
+
+export function isUploadErrorCode(code: unknown): code is UploadErrorCode {
+  return typeof code === 'string' && code in UPLOAD_ERRORS;
+}
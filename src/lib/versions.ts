@@ -0,0 +1,61 @@
+// 每张图片的修复版本：用不同设置重新修复会新增一个版本，首选版本用于下载、分享和对比
+import { apiUrl } from './api';
+import type { OutputSettings } from './outputFormats';
+import type { RepairResult } from './repairJobs';
+import type { RestorationSettings } from './restorationModes';
+import type { UploadedImage } from '../types';
+
+export interface RestorationVersion {
+  id: string;
+  // 从1开始的版本号，删除版本后其余版本的编号不变
+  number: number;
+  // 修复结果图片的URL（服务器地址或从历史记录恢复的对象URL）
+  processed: string;
+  result: RepairResult;
+  // 提交这个版本时选定的设置
+  settings?: RestorationSettings;
+  output?: OutputSettings;
+  model?: string | null;
+  createdAt: number;
+}
+
+// 对比查看器中代表原始照片的选项
+export const ORIGINAL = 'original';
+
+export function newVersion(image: UploadedImage, result: RepairResult): RestorationVersion {
+  return {
+    id: Math.random().toString(36).substr(2, 9),
+    number: Math.max(0, ...(image.versions ?? []).map((version) => version.number)) + 1,
+    processed: apiUrl(result.processedImageUrl),
+    result,
+    settings: image.settings,
+    output: image.output,
+    model: image.model,
+    createdAt: Date.now()
+  };
+}
+
+export function versionLabel(image: UploadedImage, versionId: string): string {
+  const version = image.versions?.find((item) => item.id === versionId);
+  return version ? `v${version.number}` : 'Original';
+}
+
+// 把某个版本设为首选：processed和result始终是首选版本的，下载、分享等功能直接使用它们
+export function preferVersion(image: UploadedImage, versionId: string): Partial<UploadedImage> {
+  const version = image.versions?.find((item) => item.id === versionId);
+  if (!version) return {};
+  return { preferredVersionId: version.id, processed: version.processed, result: version.result };
+}
+
+// 删除一个版本；删除的是首选版本时改用最新的版本，全部删除后回到待修复状态
+export function removeVersion(image: UploadedImage, versionId: string): Partial<UploadedImage> {
+  const versions = (image.versions ?? []).filter((item) => item.id !== versionId);
+  if (versions.length === 0) {
+    return { versions: [], preferredVersionId: undefined, processed: undefined, result: undefined, status: 'uploaded' };
+  }
+  if (image.preferredVersionId !== versionId) {
+    return { versions };
+  }
+  const latest = versions[versions.length - 1];
+  return { versions, preferredVersionId: latest.id, processed: latest.processed, result: latest.result };
+}
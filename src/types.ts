@@ -0,0 +1,58 @@
+import type { JobStage, RepairResult } from './lib/repairJobs';
+import type { OutboxState } from './lib/outbox';
+import type { OutputSettings } from './lib/outputFormats';
+import type { RestorationSettings } from './lib/restorationModes';
+import type { QualityErrorCode } from './lib/qualityMetrics';
+import type { ScanSource } from './lib/scanSplit';
+import type { ShareLink } from './lib/shares';
+import type { RestorationVersion } from './lib/versions';
+import type { UploadErrorCode } from './lib/uploadErrors';
+
+export type ImageStatus = 'preparing' | 'uploaded' | 'queued' | 'processing' | 'completed' | 'error' | 'offline';
+
+// 预处理后实际上传的图片（已摆正、缩小并重新编码）
+export interface PreparedUpload {
+  file: File;
+  width: number;
+  height: number;
+  originalWidth: number;
+  originalHeight: number;
+}
+
+export interface UploadedImage {
+  id: string;
+  // 原始的全分辨率文件
+  file: File;
+  upload?: PreparedUpload;
+  preview: string;
+  // 首选版本的修复结果，与result一起随首选版本切换
+  processed?: string;
+  // 用户在编辑器中标记的损伤遮罩（PNG data URL）
+  mask?: string;
+  // 加入队列时选定的修复模式和参数
+  settings?: RestorationSettings;
+  // 加入队列时选定的输出格式
+  output?: OutputSettings;
+  // 加入队列时选定的AI模型（null表示自动）
+  model?: string | null;
+  // 原始照片的EXIF拍摄日期，选择保留元数据时写入修复后的文件
+  captureDate?: string;
+  // 从多张照片的扫描件中拆分出来时，记录扫描件和这张照片所在的区域
+  scan?: ScanSource;
+  // 开启扫描件拆分但拆分失败时的原因，照片仍按普通照片修复
+  scanError?: { message: string; code?: string };
+  // 最近一次为这张照片创建的分享链接
+  share?: ShareLink;
+  status: ImageStatus;
+  stage?: JobStage;
+  jobId?: string;
+  // 断网时提交失败，等待自动重新提交（状态为offline）
+  outbox?: OutboxState;
+  result?: RepairResult;
+  // 每次修复完成都会新增一个版本，按创建顺序排列
+  versions?: RestorationVersion[];
+  preferredVersionId?: string;
+  error?: string;
+  // 上传被服务器拒绝或结果质量不合格的原因
+  errorCode?: UploadErrorCode | QualityErrorCode;
+}
@@ -0,0 +1,12 @@
+// 图片预处理Worker：在主线程之外解码、按EXIF方向摆正、缩小并重新编码
+import { prepareImage, PreprocessRequest } from '../lib/prepareImage';
+
+self.onmessage = async (event: MessageEvent<PreprocessRequest>) => {
+  const { id, file, options } = event.data;
+  try {
+    const result = await prepareImage(file, options);
+    self.postMessage({ id, result });
+  } catch (error) {
+    self.postMessage({ id, error: error instanceof Error ? error.message : 'Failed to prepare image' });
+  }
+};
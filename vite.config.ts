@@ -10,7 +10,13 @@ export default defineConfig({
   server: {
     proxy: {
       '/api': {
-        target: 'http://localhost:3002',
+        target: 'http://localhost:3001',
+        changeOrigin: true,
+        secure: false,
+      },
+      // Shared links' public pages (a plain '/s' prefix would also catch '/src')
+      '^/s/': {
+        target: 'http://localhost:3001',
         changeOrigin: true,
         secure: false,
       },